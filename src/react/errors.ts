@@ -0,0 +1,21 @@
+import { ConvexError } from "convex/values";
+import { Effect, Schema, pipe } from "effect";
+
+/**
+ * Decode the data of a `ConvexError` thrown by a Confect function back into one of its declared `errors`. Anything else becomes a defect.
+ */
+export const decodeError =
+  <Errors, ConvexErrors>(
+    errors: Schema.Schema<Errors, ConvexErrors> | undefined,
+  ) =>
+  (error: unknown): Effect.Effect<never, Errors> =>
+    errors !== undefined && error instanceof ConvexError
+      ? pipe(
+          error.data,
+          Schema.decodeUnknown(errors),
+          Effect.matchEffect({
+            onFailure: () => Effect.die(error),
+            onSuccess: Effect.fail,
+          }),
+        )
+      : Effect.die(error);
@@ -4,7 +4,11 @@ import {
   useQuery as useConvexQuery,
 } from "convex/react";
 import type { FunctionReference } from "convex/server";
-import { Effect, Option, Schema } from "effect";
+import { Effect, Option, Schema, identity } from "effect";
+
+import { decodeError } from "~/src/react/errors";
+
+export * as ArgsValidationError from "~/src/server/schemas/ArgsValidationError";
 
 export const useQuery =
   <Query extends FunctionReference<"query">, Args, Returns>({
@@ -36,52 +40,66 @@ export const useMutation = <
   Mutation extends FunctionReference<"mutation">,
   Args,
   Returns,
+  Errors = never,
+  ConvexErrors = never,
 >({
   mutation,
   args,
   returns,
+  errors,
 }: {
   mutation: Mutation;
   args: Schema.Schema<Args, Mutation["_args"]>;
   returns: Schema.Schema<Returns, Mutation["_returnType"]>;
+  errors?: Schema.Schema<Errors, ConvexErrors>;
 }) => {
   const actualMutation = useConvexMutation(mutation);
 
-  return (actualArgs: Args): Effect.Effect<Returns> =>
+  return (actualArgs: Args): Effect.Effect<Returns, Errors> =>
     Effect.gen(function* () {
-      const encodedArgs = yield* Schema.encode(args)(actualArgs);
-
-      const actualReturns = yield* Effect.promise(() =>
-        actualMutation(encodedArgs),
+      const encodedArgs = yield* Schema.encode(args)(actualArgs).pipe(
+        Effect.orDie,
       );
 
-      return yield* Schema.decode(returns)(actualReturns);
-    }).pipe(Effect.orDie);
+      const actualReturns = yield* Effect.tryPromise({
+        try: () => actualMutation(encodedArgs),
+        catch: identity,
+      }).pipe(Effect.catchAll(decodeError(errors)));
+
+      return yield* Schema.decode(returns)(actualReturns).pipe(Effect.orDie);
+    });
 };
 
 export const useAction = <
   Action extends FunctionReference<"action">,
   Args,
   Returns,
+  Errors = never,
+  ConvexErrors = never,
 >({
   action,
   args,
   returns,
+  errors,
 }: {
   action: Action;
   args: Schema.Schema<Args, Action["_args"]>;
   returns: Schema.Schema<Returns, Action["_returnType"]>;
+  errors?: Schema.Schema<Errors, ConvexErrors>;
 }) => {
   const actualAction = useConvexAction(action);
 
-  return (actualArgs: Args): Effect.Effect<Returns> =>
+  return (actualArgs: Args): Effect.Effect<Returns, Errors> =>
     Effect.gen(function* () {
-      const encodedArgs = yield* Schema.encode(args)(actualArgs);
-
-      const actualReturns = yield* Effect.promise(() =>
-        actualAction(encodedArgs),
+      const encodedArgs = yield* Schema.encode(args)(actualArgs).pipe(
+        Effect.orDie,
       );
 
-      return yield* Schema.decode(returns)(actualReturns);
-    }).pipe(Effect.orDie);
+      const actualReturns = yield* Effect.tryPromise({
+        try: () => actualAction(encodedArgs),
+        catch: identity,
+      }).pipe(Effect.catchAll(decodeError(errors)));
+
+      return yield* Schema.decode(returns)(actualReturns).pipe(Effect.orDie);
+    });
 };
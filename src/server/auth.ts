@@ -1,10 +1,14 @@
 import type { Auth, UserIdentity } from "convex/server";
-import { Effect, Option, pipe } from "effect";
+import { Context, Effect, Option, pipe } from "effect";
 
 export interface ConfectAuth {
   getUserIdentity(): Effect.Effect<Option.Option<UserIdentity>>;
 }
 
+export const ConfectAuth = Context.GenericTag<ConfectAuth>(
+  "confect-plus/ConfectAuth",
+);
+
 export class ConfectAuthImpl implements ConfectAuth {
   constructor(private auth: Auth) {}
   getUserIdentity(): Effect.Effect<Option.Option<UserIdentity>> {
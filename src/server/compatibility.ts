@@ -0,0 +1,411 @@
+import { Array, Option, Order, Record, Schema, SchemaAST, pipe } from "effect";
+
+import {
+  type GenericConfectSchemaDefinition,
+  type GenericConfectTableDefinition,
+  withoutUndefined,
+} from "~/src/server/schema";
+import * as Id from "~/src/server/schemas/Id";
+
+/**
+ * How a schema change affects the documents already stored, and the code already deployed:
+ * - `"compatible"` changes accept every stored document.
+ * - `"needsMigration"` changes reject some stored documents, which a migration can bring up to date.
+ * - `"breaking"` changes lose data or take away what deployed code relies on. A changed type is breaking like a narrowed one: it rejects some of the stored values, which deployed code keeps writing.
+ */
+export type Compatibility = "compatible" | "needsMigration" | "breaking";
+
+export type SchemaChangeKind =
+  | "tableAdded"
+  | "tableRemoved"
+  | "fieldAdded"
+  | "requiredFieldAdded"
+  | "fieldRemoved"
+  | "fieldMadeOptional"
+  | "fieldMadeRequired"
+  | "typeWidened"
+  | "typeNarrowed"
+  | "typeChanged"
+  | "indexAdded"
+  | "indexRemoved"
+  | "indexChanged";
+
+export interface SchemaChange {
+  readonly tableName: string;
+  readonly kind: SchemaChangeKind;
+  /**
+   * The field or index which changed. `None` for changes to a whole table, including the schemas of tables which are not plain structs.
+   */
+  readonly name: Option.Option<string>;
+  readonly compatibility: Compatibility;
+}
+
+export interface SchemaCompatibilityReport {
+  readonly changes: ReadonlyArray<SchemaChange>;
+  /**
+   * The least compatible of the changes.
+   */
+  readonly compatibility: Compatibility;
+}
+
+const compatibilityOrder = Order.mapInput(
+  Order.number,
+  (compatibility: Compatibility) =>
+    ["compatible", "needsMigration", "breaking"].indexOf(compatibility),
+);
+
+const compatibilityOfKind: Record<SchemaChangeKind, Compatibility> = {
+  tableAdded: "compatible",
+  tableRemoved: "breaking",
+  fieldAdded: "compatible",
+  requiredFieldAdded: "needsMigration",
+  fieldRemoved: "breaking",
+  fieldMadeOptional: "compatible",
+  fieldMadeRequired: "breaking",
+  typeWidened: "compatible",
+  typeNarrowed: "breaking",
+  typeChanged: "breaking",
+  indexAdded: "compatible",
+  indexRemoved: "breaking",
+  indexChanged: "breaking",
+};
+
+/**
+ * Compare the tables of two schema definitions, by the encoded side of their schemas (which is what is stored), and classify each change. A required field added to a table needs a migration to fill it in.
+ *
+ * A table's old `versions` are accepted as stored documents too, so a table with versions is compared as a whole, by the union of its schema and its versions. Moving a table's old schema into its versions is then a compatible, widened type.
+ *
+ * Run it in a test to fail CI on breaking changes:
+ *
+ * ```ts
+ * expect(checkSchemaCompatibility(deployedSchema, confectSchema).compatibility).not.toBe("breaking");
+ * ```
+ */
+export const checkSchemaCompatibility = (
+  oldSchemaDefinition: GenericConfectSchemaDefinition,
+  newSchemaDefinition: GenericConfectSchemaDefinition,
+): SchemaCompatibilityReport => {
+  const oldTables = oldSchemaDefinition.confectSchema;
+  const newTables = newSchemaDefinition.confectSchema;
+
+  const changes = pipe(
+    Array.union(Record.keys(oldTables), Record.keys(newTables)),
+    Array.flatMap((tableName) =>
+      Option.match(Record.get(oldTables, tableName), {
+        onNone: () => [change(tableName, "tableAdded")],
+        onSome: (oldTable) =>
+          Option.match(Record.get(newTables, tableName), {
+            onNone: () => [change(tableName, "tableRemoved")],
+            onSome: (newTable) =>
+              Array.appendAll(
+                tableSchemaChanges(tableName, oldTable, newTable),
+                indexChanges(tableName, oldTable, newTable),
+              ),
+          }),
+      }),
+    ),
+  );
+
+  return {
+    changes,
+    compatibility: Array.reduce(
+      changes,
+      "compatible" as Compatibility,
+      (compatibility, change) =>
+        Order.max(compatibilityOrder)(compatibility, change.compatibility),
+    ),
+  };
+};
+
+const change = (
+  tableName: string,
+  kind: SchemaChangeKind,
+  name?: string,
+): SchemaChange => ({
+  tableName,
+  kind,
+  name: Option.fromNullable(name),
+  compatibility: compatibilityOfKind[kind],
+});
+
+const tableSchemaChanges = (
+  tableName: string,
+  oldTable: GenericConfectTableDefinition,
+  newTable: GenericConfectTableDefinition,
+): ReadonlyArray<SchemaChange> => {
+  const oldAst = storedSchemaAst(oldTable);
+  const newAst = storedSchemaAst(newTable);
+
+  if (!(SchemaAST.isTypeLiteral(oldAst) && SchemaAST.isTypeLiteral(newAst))) {
+    return Array.fromOption(
+      Option.map(typeChange(oldAst, newAst), (kind) => change(tableName, kind)),
+    );
+  }
+
+  const oldFields = fieldsOf(oldAst);
+  const newFields = fieldsOf(newAst);
+
+  return Array.flatMap(
+    Array.union(Record.keys(oldFields), Record.keys(newFields)),
+    (fieldName: string): ReadonlyArray<SchemaChange> =>
+      Option.match(Record.get(oldFields, fieldName), {
+        onNone: () => [
+          change(
+            tableName,
+            newFields[fieldName]?.isOptional
+              ? "fieldAdded"
+              : "requiredFieldAdded",
+            fieldName,
+          ),
+        ],
+        onSome: (oldField) =>
+          Option.match(Record.get(newFields, fieldName), {
+            onNone: () => [change(tableName, "fieldRemoved", fieldName)],
+            onSome: (newField) =>
+              Array.map(
+                Array.appendAll(
+                  oldField.isOptional === newField.isOptional
+                    ? []
+                    : [
+                        newField.isOptional
+                          ? ("fieldMadeOptional" as const)
+                          : ("fieldMadeRequired" as const),
+                      ],
+                  Array.fromOption(
+                    typeChange(
+                      withoutUndefined(oldField.type),
+                      withoutUndefined(newField.type),
+                    ),
+                  ),
+                ),
+                (kind) => change(tableName, kind, fieldName),
+              ),
+          }),
+      }),
+  );
+};
+
+/**
+ * The encoded side of every schema a table accepts stored documents with: its table schema, and the schemas of its old versions. Refinements of the encoded side are kept, since stored documents which break them fail to decode.
+ */
+const storedSchemaAst = ({
+  tableSchema,
+  versions,
+}: GenericConfectTableDefinition): SchemaAST.AST =>
+  SchemaAST.encodedBoundAST(
+    Schema.Union(tableSchema, ...Array.map(versions, ({ schema }) => schema))
+      .ast,
+  );
+
+const indexChanges = (
+  tableName: string,
+  oldTable: GenericConfectTableDefinition,
+  newTable: GenericConfectTableDefinition,
+): ReadonlyArray<SchemaChange> =>
+  Array.filterMap(
+    Array.union(
+      Record.keys(oldTable.indexFields),
+      Record.keys(newTable.indexFields),
+    ),
+    (indexName): Option.Option<SchemaChange> =>
+      Option.match(Record.get(oldTable.indexFields, indexName), {
+        onNone: () => Option.some(change(tableName, "indexAdded", indexName)),
+        onSome: (oldFields) =>
+          Option.match(Record.get(newTable.indexFields, indexName), {
+            onNone: () =>
+              Option.some(change(tableName, "indexRemoved", indexName)),
+            onSome: (newFields) =>
+              Array.getEquivalence<string>((a, b) => a === b)(
+                oldFields,
+                newFields,
+              )
+                ? Option.none()
+                : Option.some(change(tableName, "indexChanged", indexName)),
+          }),
+      }),
+  );
+
+const fieldsOf = (
+  ast: SchemaAST.TypeLiteral,
+): Record.ReadonlyRecord<string, SchemaAST.PropertySignature> =>
+  Record.fromIterableBy(ast.propertySignatures, ({ name }) => name as string);
+
+/**
+ * How a type changed: widened when it accepts every value it used to, narrowed when it accepts only some of them, and changed otherwise.
+ */
+const typeChange = (
+  oldAst: SchemaAST.AST,
+  newAst: SchemaAST.AST,
+): Option.Option<"typeWidened" | "typeNarrowed" | "typeChanged"> => {
+  const isWidened = isAssignable(oldAst, newAst);
+  const isNarrowed = isAssignable(newAst, oldAst);
+
+  return isWidened && isNarrowed
+    ? Option.none()
+    : Option.some(
+        isWidened ? "typeWidened" : isNarrowed ? "typeNarrowed" : "typeChanged",
+      );
+};
+
+/**
+ * Whether every value of the encoded type `from` is a value of the encoded type `to`. Types which can't be compared, like recursive ones, are assignable only to themselves. A refinement of `to` must be one of `from`'s too, so a new or tightened refinement narrows the type.
+ */
+const isAssignable = (from: SchemaAST.AST, to: SchemaAST.AST): boolean => {
+  if (
+    from === to ||
+    SchemaAST.isAnyKeyword(to) ||
+    SchemaAST.isUnknownKeyword(to)
+  ) {
+    return true;
+  }
+  if (SchemaAST.isUnion(from)) {
+    return Array.every(from.types, (type) => isAssignable(type, to));
+  }
+  if (SchemaAST.isRefinement(to)) {
+    return (
+      SchemaAST.isRefinement(from) &&
+      (implies(from, to)
+        ? isAssignable(from.from, to.from)
+        : isAssignable(from.from, to))
+    );
+  }
+  if (SchemaAST.isRefinement(from)) {
+    return isAssignable(from.from, to);
+  }
+  if (SchemaAST.isUnion(to)) {
+    return Array.some(to.types, (type) => isAssignable(from, type));
+  }
+
+  const isIdOfSameTable = Option.match(Id.tableName(to), {
+    onNone: () => true,
+    onSome: (tableName) => Option.contains(Id.tableName(from), tableName),
+  });
+
+  switch (from._tag) {
+    case "Literal":
+      return SchemaAST.isLiteral(to)
+        ? from.literal === to.literal
+        : from.literal !== null &&
+            isKeywordOf(to, typeof from.literal) &&
+            isIdOfSameTable;
+    case "StringKeyword":
+    case "NumberKeyword":
+    case "BooleanKeyword":
+    case "BigIntKeyword":
+      return from._tag === to._tag && isIdOfSameTable;
+    case "TupleType":
+      return (
+        SchemaAST.isTupleType(to) &&
+        from.elements.length === to.elements.length &&
+        Array.every(Array.zip(from.elements, to.elements), ([a, b]) =>
+          isAssignable(a.type, b.type),
+        ) &&
+        from.rest.length === to.rest.length &&
+        Array.every(Array.zip(from.rest, to.rest), ([a, b]) =>
+          isAssignable(a.type, b.type),
+        )
+      );
+    case "TypeLiteral": {
+      if (!SchemaAST.isTypeLiteral(to)) {
+        return false;
+      }
+
+      const fromFields = fieldsOf(from);
+      const toFields = fieldsOf(to);
+
+      return (
+        Array.every(Record.keys(fromFields), (name) => name in toFields) &&
+        Array.every(Record.toEntries(toFields), ([name, toField]) =>
+          Option.match(Record.get(fromFields, name), {
+            onNone: () => toField.isOptional,
+            onSome: (fromField) =>
+              (toField.isOptional || !fromField.isOptional) &&
+              isAssignable(fromField.type, toField.type),
+          }),
+        ) &&
+        from.indexSignatures.length === to.indexSignatures.length &&
+        Array.every(
+          Array.zip(from.indexSignatures, to.indexSignatures),
+          ([a, b]) =>
+            isAssignable(a.parameter, b.parameter) &&
+            isAssignable(a.type, b.type),
+        )
+      );
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * The bounds which built-in filters (like `Schema.maxLength`) record in their JSON Schema annotation, and whether a value of `from` passing the filter means it passes `to`.
+ */
+const boundImplies: Record<string, (from: number, to: number) => boolean> = {
+  maxLength: (from, to) => from <= to,
+  maxItems: (from, to) => from <= to,
+  maximum: (from, to) => from <= to,
+  exclusiveMaximum: (from, to) => from <= to,
+  minLength: (from, to) => from >= to,
+  minItems: (from, to) => from >= to,
+  minimum: (from, to) => from >= to,
+  exclusiveMinimum: (from, to) => from >= to,
+};
+
+/**
+ * Whether every value which passes the refinement `from` passes `to`: the same filter, the same built-in filter with the same parameters, or a tighter bound of the same built-in filter.
+ */
+const implies = (
+  from: SchemaAST.Refinement,
+  to: SchemaAST.Refinement,
+): boolean => {
+  if (from.filter === to.filter) {
+    return true;
+  }
+
+  const schemaId = SchemaAST.getSchemaIdAnnotation(from);
+  const fromJsonSchema = SchemaAST.getJSONSchemaAnnotation(from);
+  const toJsonSchema = SchemaAST.getJSONSchemaAnnotation(to);
+
+  if (
+    Option.isNone(schemaId) ||
+    !Option.contains(SchemaAST.getSchemaIdAnnotation(to), schemaId.value) ||
+    Option.isNone(fromJsonSchema) ||
+    Option.isNone(toJsonSchema)
+  ) {
+    return false;
+  }
+
+  const fromBounds = Record.toEntries(
+    fromJsonSchema.value as Record.ReadonlyRecord<string, unknown>,
+  );
+  const toBounds = toJsonSchema.value as Record.ReadonlyRecord<string, unknown>;
+
+  return (
+    fromBounds.length === Record.size(toBounds) &&
+    Array.every(fromBounds, ([keyword, fromValue]) => {
+      const toValue = toBounds[keyword];
+      const isBoundImplied = boundImplies[keyword];
+
+      return isBoundImplied !== undefined &&
+        typeof fromValue === "number" &&
+        typeof toValue === "number"
+        ? isBoundImplied(fromValue, toValue)
+        : JSON.stringify(fromValue) === JSON.stringify(toValue);
+    })
+  );
+};
+
+const isKeywordOf = (ast: SchemaAST.AST, type: string): boolean => {
+  switch (type) {
+    case "string":
+      return SchemaAST.isStringKeyword(ast);
+    case "number":
+      return SchemaAST.isNumberKeyword(ast);
+    case "boolean":
+      return SchemaAST.isBooleanKeyword(ast);
+    case "bigint":
+      return SchemaAST.isBigIntKeyword(ast);
+    default:
+      return false;
+  }
+};
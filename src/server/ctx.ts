@@ -11,7 +11,7 @@ import type {
   VectorSearchQuery,
 } from "convex/server";
 import type { GenericId } from "convex/values";
-import { Context, Effect } from "effect";
+import { Array, Context, Effect, Record } from "effect";
 
 import { type ConfectAuth, ConfectAuthImpl } from "~/src/server/auth";
 import type {
@@ -24,12 +24,18 @@ import {
   ConfectDatabaseReaderImpl,
   type ConfectDatabaseWriter,
   ConfectDatabaseWriterImpl,
-  type DatabaseSchemasFromConfectDataModel,
+  type EncodedTableChange,
+  type TableChange,
+  type TableTriggers,
+  decodeTableChange,
 } from "~/src/server/database";
+import { recordHistory } from "~/src/server/history";
+import { type Rules, provideAuth } from "~/src/server/rules";
 import {
   type ConfectScheduler,
   ConfectSchedulerImpl,
 } from "~/src/server/scheduler";
+import type { GenericConfectSchemaDefinition } from "~/src/server/schema";
 import {
   type ConfectStorageReader,
   ConfectStorageReaderImpl,
@@ -63,6 +69,22 @@ export const ConfectMutationCtx = <
     "confect-plus/ConfectMutationCtx",
   );
 
+/**
+ * Runs after a write to its table, inside the same mutation. Writes made by a trigger run triggers too. A trigger which dies, or whose documents fail to decode, fails the whole mutation, so none of its writes happen.
+ */
+export type Trigger<
+  ConfectDataModel extends GenericConfectDataModel,
+  TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+> = (
+  change: TableChange<ConfectDataModel, TableName>,
+) => Effect.Effect<void, never, ConfectMutationCtx<ConfectDataModel>>;
+
+export type Triggers<ConfectDataModel extends GenericConfectDataModel> = {
+  [TableName in TableNamesInConfectDataModel<ConfectDataModel>]?: ReadonlyArray<
+    Trigger<ConfectDataModel, TableName>
+  >;
+};
+
 export type ConfectQueryCtx<ConfectDataModel extends GenericConfectDataModel> =
   {
     db: ConfectDatabaseReader<ConfectDataModel>;
@@ -136,38 +158,118 @@ export const makeConfectQueryCtx = <
   ConfectDataModel extends GenericConfectDataModel,
 >(
   ctx: GenericQueryCtx<DataModelFromConfectDataModel<ConfectDataModel>>,
-  databaseSchemas: DatabaseSchemasFromConfectDataModel<ConfectDataModel>,
-): ConfectQueryCtx<ConfectDataModel> => ({
-  db: new ConfectDatabaseReaderImpl(ctx.db, databaseSchemas),
-  auth: new ConfectAuthImpl(ctx.auth),
-  storage: new ConfectStorageReaderImpl(ctx.storage),
-  runQuery: <Query extends FunctionReference<"query", "public" | "internal">>(
-    query: Query,
-    ...queryArgs: OptionalRestArgs<Query>
-  ) => Effect.promise(() => ctx.runQuery(query, ...queryArgs)),
-});
+  confectSchemaDefinition: GenericConfectSchemaDefinition,
+  rules: Rules<ConfectDataModel> = {},
+): ConfectQueryCtx<ConfectDataModel> => {
+  const auth = new ConfectAuthImpl(ctx.auth);
+
+  return {
+    db: new ConfectDatabaseReaderImpl(
+      ctx.db,
+      confectSchemaDefinition,
+      undefined,
+      provideAuth(rules, auth),
+    ),
+    auth,
+    storage: new ConfectStorageReaderImpl(ctx.storage),
+    runQuery: <Query extends FunctionReference<"query", "public" | "internal">>(
+      query: Query,
+      ...queryArgs: OptionalRestArgs<Query>
+    ) => Effect.promise(() => ctx.runQuery(query, ...queryArgs)),
+  };
+};
 
 export const makeConfectMutationCtx = <
   ConfectDataModel extends GenericConfectDataModel,
 >(
   ctx: GenericMutationCtx<DataModelFromConfectDataModel<ConfectDataModel>>,
-  databaseSchemas: DatabaseSchemasFromConfectDataModel<ConfectDataModel>,
-): ConfectMutationCtx<ConfectDataModel> => ({
-  db: new ConfectDatabaseWriterImpl(ctx.db, databaseSchemas),
-  auth: new ConfectAuthImpl(ctx.auth),
-  storage: new ConfectStorageWriterImpl(ctx.storage),
-  scheduler: new ConfectSchedulerImpl(ctx.scheduler),
-  runQuery: <Query extends FunctionReference<"query", "public" | "internal">>(
-    query: Query,
-    ...queryArgs: OptionalRestArgs<Query>
-  ) => Effect.promise(() => ctx.runQuery(query, ...queryArgs)),
-  runMutation: <
-    Mutation extends FunctionReference<"mutation", "public" | "internal">,
-  >(
-    mutation: Mutation,
-    ...mutationArgs: OptionalRestArgs<Mutation>
-  ) => Effect.promise(() => ctx.runMutation(mutation, ...mutationArgs)),
-});
+  confectSchemaDefinition: GenericConfectSchemaDefinition,
+  triggers: Triggers<ConfectDataModel> = {},
+  rules: Rules<ConfectDataModel> = {},
+): ConfectMutationCtx<ConfectDataModel> => {
+  // Triggers are given the context whose writes they follow, so their own writes run triggers too.
+  const historyTriggers: TableTriggers<ConfectDataModel> =
+    Record.fromIterableWith(
+      confectSchemaDefinition.historyTableNames,
+      (tableName) => [
+        tableName,
+        [
+          (
+            change: EncodedTableChange<
+              ConfectDataModel,
+              TableNamesInConfectDataModel<ConfectDataModel>
+            >,
+          ) => recordHistory(confectMutationCtx, tableName, change),
+        ],
+      ],
+    );
+  const decodingTriggers: TableTriggers<ConfectDataModel> = Record.map(
+    triggers as unknown as Record.ReadonlyRecord<
+      string,
+      ReadonlyArray<
+        Trigger<
+          ConfectDataModel,
+          TableNamesInConfectDataModel<ConfectDataModel>
+        >
+      >
+    >,
+    (tableTriggers, tableName) =>
+      Array.map(
+        tableTriggers,
+        (trigger) => (change) =>
+          decodeTableChange(confectSchemaDefinition, tableName, change).pipe(
+            Effect.orDie,
+            Effect.andThen(trigger),
+            Effect.provideService(
+              ConfectMutationCtx<ConfectDataModel>(),
+              confectMutationCtx,
+            ),
+          ),
+      ),
+  );
+
+  const tableTriggers = Record.union(
+    historyTriggers,
+    decodingTriggers,
+    (self, that) => Array.appendAll(self, that),
+  );
+
+  const confectMutationCtx: ConfectMutationCtx<ConfectDataModel> = {
+    db: new ConfectDatabaseWriterImpl(
+      ctx.db,
+      confectSchemaDefinition,
+      tableTriggers,
+    ),
+    auth: new ConfectAuthImpl(ctx.auth),
+    storage: new ConfectStorageWriterImpl(ctx.storage),
+    scheduler: new ConfectSchedulerImpl(ctx.scheduler),
+    runQuery: <Query extends FunctionReference<"query", "public" | "internal">>(
+      query: Query,
+      ...queryArgs: OptionalRestArgs<Query>
+    ) => Effect.promise(() => ctx.runQuery(query, ...queryArgs)),
+    runMutation: <
+      Mutation extends FunctionReference<"mutation", "public" | "internal">,
+    >(
+      mutation: Mutation,
+      ...mutationArgs: OptionalRestArgs<Mutation>
+    ) => Effect.promise(() => ctx.runMutation(mutation, ...mutationArgs)),
+  };
+
+  const databaseRules = provideAuth(rules, confectMutationCtx.auth);
+
+  // Triggers keep the unchecked context, so that they can keep the tables they maintain up to date whoever writes.
+  return Record.isEmptyRecord(databaseRules)
+    ? confectMutationCtx
+    : {
+        ...confectMutationCtx,
+        db: new ConfectDatabaseWriterImpl(
+          ctx.db,
+          confectSchemaDefinition,
+          tableTriggers,
+          databaseRules,
+        ),
+      };
+};
 
 export const makeConfectActionCtx = <
   ConfectDataModel extends GenericConfectDataModel,
@@ -52,6 +52,7 @@ export type GenericConfectTableInfo = {
   indexes: GenericTableIndexes;
   searchIndexes: GenericTableSearchIndexes;
   vectorIndexes: GenericTableVectorIndexes;
+  tenantField: string;
 };
 
 /**
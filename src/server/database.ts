@@ -20,6 +20,7 @@ import type {
   QueryInitializer,
   SearchFilter,
   SearchFilterBuilder,
+  SearchFilterFinalizer,
   SearchIndexes,
   WithOptionalSystemFields,
   WithoutSystemFields,
@@ -29,13 +30,20 @@ import {
   Array,
   type Cause,
   Chunk,
+  Clock,
   Data,
   Effect,
+  Either,
+  Exit,
+  Match,
   Option,
   type ParseResult,
+  Predicate,
   Record,
   Schema,
   Stream,
+  String,
+  Struct,
   identity,
   pipe,
 } from "effect";
@@ -44,82 +52,262 @@ import type {
   ConfectDocumentByName,
   DataModelFromConfectDataModel,
   GenericConfectDataModel,
-  GenericConfectDocument,
   GenericConfectTableInfo,
   GenericEncodedConfectDocument,
   TableInfoFromConfectTableInfo,
   TableNamesInConfectDataModel,
 } from "~/src/server/data-model";
 import {
-  type ConfectDataModelFromConfectSchema,
   type ConfectSystemDataModel,
-  type GenericConfectSchema,
+  type GenericConfectSchemaDefinition,
+  HistoryEntry,
+  type HistoryEntryDocument,
+  type Reference,
+  type TableCodec,
+  type Tenant,
   confectSystemSchemaDefinition,
+  historyTableName,
+  referencedTableNameOfField,
 } from "~/src/server/schema";
 import { extendWithSystemFields } from "~/src/server/schemas/SystemFields";
 
 interface ConfectQuery<
   ConfectTableInfo extends GenericConfectTableInfo,
   TableName extends string,
+  Policy extends DocumentDecodeErrorPolicy = "fail",
+  E = never,
 > {
   filter(
     predicate: (
       q: FilterBuilder<TableInfoFromConfectTableInfo<ConfectTableInfo>>,
     ) => Expression<boolean>,
-  ): ConfectQuery<ConfectTableInfo, TableName>;
+  ): ConfectQuery<ConfectTableInfo, TableName, Policy, E>;
   order(
     order: "asc" | "desc",
-  ): ConfectOrderedQuery<ConfectTableInfo, TableName>;
+  ): ConfectOrderedQuery<ConfectTableInfo, TableName, Policy, E>;
+  onDecodeError<P extends DocumentDecodeErrorPolicy>(
+    policy: P,
+  ): ConfectQuery<ConfectTableInfo, TableName, P, E>;
   paginate(
     paginationOpts: PaginationOptions,
-  ): Effect.Effect<PaginationResult<ConfectTableInfo["confectDocument"]>>;
-  collect(): Effect.Effect<ConfectTableInfo["confectDocument"][]>;
-  take(n: number): Effect.Effect<ConfectTableInfo["confectDocument"][]>;
-  first(): Effect.Effect<Option.Option<ConfectTableInfo["confectDocument"]>>;
+  ): Effect.Effect<
+    PaginationResult<ConfectTableInfo["confectDocument"]>,
+    DocumentDecodeErrorFromPolicy<Policy> | E
+  >;
+  collect(): Effect.Effect<
+    ConfectTableInfo["confectDocument"][],
+    DocumentDecodeErrorFromPolicy<Policy> | E
+  >;
+  take(
+    n: number,
+  ): Effect.Effect<
+    ConfectTableInfo["confectDocument"][],
+    DocumentDecodeErrorFromPolicy<Policy> | E
+  >;
+  first(): Effect.Effect<
+    Option.Option<ConfectTableInfo["confectDocument"]>,
+    DocumentDecodeErrorFromPolicy<Policy> | E
+  >;
   unique(): Effect.Effect<
     Option.Option<ConfectTableInfo["confectDocument"]>,
-    NotUniqueError
+    NotUniqueError | DocumentDecodeErrorFromPolicy<Policy> | E
+  >;
+  stream(): Stream.Stream<
+    ConfectTableInfo["confectDocument"],
+    DocumentDecodeErrorFromPolicy<Policy> | E
   >;
-  stream(): Stream.Stream<ConfectTableInfo["confectDocument"]>;
 }
 
 interface ConfectOrderedQuery<
   ConfectTableInfo extends GenericConfectTableInfo,
   TableName extends string,
-> extends Omit<ConfectQuery<ConfectTableInfo, TableName>, "order"> {}
+  Policy extends DocumentDecodeErrorPolicy = "fail",
+  E = never,
+> extends Omit<
+    ConfectQuery<ConfectTableInfo, TableName, Policy, E>,
+    "order" | "onDecodeError"
+  > {
+  onDecodeError<P extends DocumentDecodeErrorPolicy>(
+    policy: P,
+  ): ConfectOrderedQuery<ConfectTableInfo, TableName, P, E>;
+}
 
 export class NotUniqueError extends Data.TaggedError("NotUniqueError") {}
 
+export class DocumentDecodeError extends Data.TaggedError(
+  "DocumentDecodeError",
+)<{
+  readonly tableName: string;
+  readonly id: GenericId<string>;
+  readonly parseError: ParseResult.ParseError;
+}> {
+  override get message() {
+    return `Document '${this.id}' in table '${this.tableName}' could not be decoded: ${this.parseError.message}`;
+  }
+}
+
+export class UniqueConstraintViolation extends Data.TaggedError(
+  "UniqueConstraintViolation",
+)<{
+  readonly tableName: string;
+  readonly constraintName: string;
+  readonly conflictingId: GenericId<string>;
+}> {
+  override get message() {
+    return `Unique constraint '${this.constraintName}' on table '${this.tableName}' is already satisfied by document '${this.conflictingId}'`;
+  }
+}
+
+export class ReferencedDocumentError extends Data.TaggedError(
+  "ReferencedDocumentError",
+)<{
+  readonly tableName: string;
+  readonly id: GenericId<string>;
+  readonly referringTableName: string;
+  readonly referringId: GenericId<string>;
+  readonly fieldName: string;
+}> {
+  override get message() {
+    return `Document '${this.id}' in table '${this.tableName}' cannot be deleted because document '${this.referringId}' in table '${this.referringTableName}' refers to it in field '${this.fieldName}'`;
+  }
+}
+
+/**
+ * Thrown when a query through a tenant-scoped database names an index of a tenant table which doesn't start with the tenant field, or a search index which doesn't filter on it.
+ */
+export class TenantIndexRequiredError extends Data.TaggedError(
+  "TenantIndexRequiredError",
+)<{
+  readonly tableName: string;
+  readonly indexName: string;
+  readonly fieldName: string;
+}> {
+  override get message() {
+    return `Table '${this.tableName}' is scoped to a tenant, so it can't be queried through index '${this.indexName}': only through an index whose first field is '${this.fieldName}', or a search index which filters on it`;
+  }
+}
+
+export class AccessDenied extends Data.TaggedError("AccessDenied")<{
+  readonly tableName: string;
+  readonly operation: "insert" | "modify" | "delete";
+  readonly id?: GenericId<string>;
+}> {
+  override get message() {
+    return `Not allowed to ${this.operation} ${this.id === undefined ? "a document" : `document '${this.id}'`} in table '${this.tableName}'`;
+  }
+}
+
+export class TenantMismatch extends Data.TaggedError("TenantMismatch")<{
+  readonly tableName: string;
+  readonly tenantId: string;
+  readonly id?: GenericId<string>;
+}> {
+  override get message() {
+    return `${this.id === undefined ? "A document" : `Document '${this.id}'`} in table '${this.tableName}' does not belong to tenant '${this.tenantId}'`;
+  }
+}
+
+export class BatchWriteError extends Data.TaggedError("BatchWriteError")<{
+  readonly failures: ReadonlyArray<{
+    readonly index: number;
+    readonly parseError: ParseResult.ParseError;
+  }>;
+}> {
+  override get message() {
+    return pipe(
+      this.failures,
+      Array.map(({ index, parseError }) => `[${index}] ${parseError.message}`),
+      Array.join("\n"),
+    );
+  }
+}
+
+/**
+ * What a query should do with a document which fails to decode:
+ * - `"fail"`: fail with a `DocumentDecodeError` (the default).
+ * - `"skip"`: leave the document out of the results.
+ * - `"die"`: die with a `DocumentDecodeError`.
+ */
+export type DocumentDecodeErrorPolicy = "fail" | "skip" | "die";
+
+type DocumentDecodeErrorFromPolicy<Policy extends DocumentDecodeErrorPolicy> =
+  Policy extends "fail" ? DocumentDecodeError : never;
+
 class ConfectQueryImpl<
   ConfectTableInfo extends GenericConfectTableInfo,
   TableName extends string,
-> implements ConfectQuery<ConfectTableInfo, TableName>
+  Policy extends DocumentDecodeErrorPolicy,
+  E = never,
+> implements ConfectQuery<ConfectTableInfo, TableName, Policy, E>
 {
   q: Query<TableInfoFromConfectTableInfo<ConfectTableInfo>>;
-  tableSchema: Schema.Schema<
+  tableCodec: TableCodec<
     ConfectTableInfo["confectDocument"],
     ConfectTableInfo["encodedConfectDocument"]
   >;
   tableName: TableName;
+  policy: Policy;
+  read: ReadRule<ConfectTableInfo["confectDocument"]>;
+  /**
+   * How building the query went: a failure, like a value of the index range which didn't encode, fails the query before it runs.
+   */
+  built: Exit.Exit<void, E>;
   constructor(
     q:
       | Query<TableInfoFromConfectTableInfo<ConfectTableInfo>>
       | OrderedQuery<TableInfoFromConfectTableInfo<ConfectTableInfo>>,
-    tableSchema: Schema.Schema<
+    tableCodec: TableCodec<
       ConfectTableInfo["confectDocument"],
       ConfectTableInfo["encodedConfectDocument"]
     >,
     tableName: TableName,
+    policy: Policy,
+    read: ReadRule<ConfectTableInfo["confectDocument"]>,
+    built: Exit.Exit<void, E>,
   ) {
     // This is some trickery, copied from convex-js. I suspect there's a better way.
     this.q = q as Query<TableInfoFromConfectTableInfo<ConfectTableInfo>>;
-    this.tableSchema = tableSchema;
+    this.tableCodec = tableCodec;
     this.tableName = tableName;
+    this.policy = policy;
+    this.read = read;
+    this.built = built;
   }
   decode(
     convexDocument: ConfectTableInfo["encodedConfectDocument"],
-  ): ConfectTableInfo["confectDocument"] {
-    return decodeDocument(this.tableName, this.tableSchema, convexDocument);
+  ): Effect.Effect<
+    Option.Option<ConfectTableInfo["confectDocument"]>,
+    DocumentDecodeErrorFromPolicy<Policy>
+  > {
+    return pipe(
+      decodeDocument(this.tableName, this.tableCodec, convexDocument),
+      Either.match({
+        onRight: Effect.succeedSome,
+        onLeft: (documentDecodeError) =>
+          Match.value(this.policy as DocumentDecodeErrorPolicy).pipe(
+            Match.when("fail", () => Effect.fail(documentDecodeError)),
+            Match.when("skip", () => Effect.succeedNone),
+            Match.when("die", () => Effect.die(documentDecodeError)),
+            Match.exhaustive,
+          ),
+      }),
+      Effect.flatMap(filterReadable(this.read)),
+    ) as Effect.Effect<
+      Option.Option<ConfectTableInfo["confectDocument"]>,
+      DocumentDecodeErrorFromPolicy<Policy>
+    >;
+  }
+  decodeAll(
+    convexDocuments: ConfectTableInfo["encodedConfectDocument"][],
+  ): Effect.Effect<
+    ConfectTableInfo["confectDocument"][],
+    DocumentDecodeErrorFromPolicy<Policy>
+  > {
+    return pipe(
+      convexDocuments,
+      Effect.forEach((document) => this.decode(document)),
+      Effect.map(Array.getSomes),
+    );
   }
   filter(
     predicate: (
@@ -128,30 +316,51 @@ class ConfectQueryImpl<
   ) {
     return new ConfectQueryImpl(
       this.q.filter(predicate),
-      this.tableSchema,
+      this.tableCodec,
       this.tableName,
+      this.policy,
+      this.read,
+      this.built,
     );
   }
-  order(order: "asc" | "desc"): ConfectQueryImpl<ConfectTableInfo, TableName> {
+  order(
+    order: "asc" | "desc",
+  ): ConfectQueryImpl<ConfectTableInfo, TableName, Policy, E> {
     return new ConfectQueryImpl(
       this.q.order(order),
-      this.tableSchema,
+      this.tableCodec,
       this.tableName,
+      this.policy,
+      this.read,
+      this.built,
+    );
+  }
+  onDecodeError<P extends DocumentDecodeErrorPolicy>(
+    policy: P,
+  ): ConfectQueryImpl<ConfectTableInfo, TableName, P, E> {
+    return new ConfectQueryImpl(
+      this.q,
+      this.tableCodec,
+      this.tableName,
+      policy,
+      this.read,
+      this.built,
     );
   }
   paginate(
     paginationOpts: PaginationOptions,
-  ): Effect.Effect<PaginationResult<ConfectTableInfo["confectDocument"]>> {
+  ): Effect.Effect<
+    PaginationResult<ConfectTableInfo["confectDocument"]>,
+    DocumentDecodeErrorFromPolicy<Policy> | E
+  > {
     return pipe(
-      Effect.Do,
+      this.built,
+      Effect.andThen(Effect.Do),
       Effect.bind("paginationResult", () =>
         Effect.promise(() => this.q.paginate(paginationOpts)),
       ),
-      Effect.let("parsedPage", ({ paginationResult }) =>
-        pipe(
-          paginationResult.page,
-          Array.map((document) => this.decode(document)),
-        ),
+      Effect.bind("parsedPage", ({ paginationResult }) =>
+        this.decodeAll(paginationResult.page),
       ),
       Effect.map(({ paginationResult, parsedPage }) => ({
         page: parsedPage,
@@ -167,13 +376,22 @@ class ConfectQueryImpl<
     );
   }
   // It could be better to implement collect() with stream()
-  collect(): Effect.Effect<ConfectTableInfo["confectDocument"][]> {
+  collect(): Effect.Effect<
+    ConfectTableInfo["confectDocument"][],
+    DocumentDecodeErrorFromPolicy<Policy> | E
+  > {
     return pipe(
-      Effect.promise(() => this.q.collect()),
-      Effect.map(Array.map((document) => this.decode(document))),
+      this.built,
+      Effect.andThen(() => Effect.promise(() => this.q.collect())),
+      Effect.andThen((documents) => this.decodeAll(documents)),
     );
   }
-  take(n: number): Effect.Effect<ConfectTableInfo["confectDocument"][]> {
+  take(
+    n: number,
+  ): Effect.Effect<
+    ConfectTableInfo["confectDocument"][],
+    DocumentDecodeErrorFromPolicy<Policy> | E
+  > {
     return pipe(
       this.stream(),
       Stream.take(n),
@@ -181,12 +399,15 @@ class ConfectQueryImpl<
       Effect.map((chunk) => Chunk.toArray(chunk)),
     );
   }
-  first(): Effect.Effect<Option.Option<ConfectTableInfo["confectDocument"]>> {
+  first(): Effect.Effect<
+    Option.Option<ConfectTableInfo["confectDocument"]>,
+    DocumentDecodeErrorFromPolicy<Policy> | E
+  > {
     return pipe(this.stream(), Stream.runHead);
   }
   unique(): Effect.Effect<
     Option.Option<ConfectTableInfo["confectDocument"]>,
-    NotUniqueError
+    NotUniqueError | DocumentDecodeErrorFromPolicy<Policy> | E
   > {
     return pipe(
       this.stream(),
@@ -204,20 +425,232 @@ class ConfectQueryImpl<
       ),
     );
   }
-  stream(): Stream.Stream<ConfectTableInfo["confectDocument"]> {
+  stream(): Stream.Stream<
+    ConfectTableInfo["confectDocument"],
+    DocumentDecodeErrorFromPolicy<Policy> | E
+  > {
     return pipe(
-      Stream.fromAsyncIterable(this.q, identity),
-      Stream.map((document) => this.decode(document)),
-      Stream.orDie,
+      Stream.fromEffect(this.built),
+      Stream.flatMap(() =>
+        Stream.orDie(Stream.fromAsyncIterable(this.q, identity)),
+      ),
+      Stream.mapEffect((document) => this.decode(document)),
+      Stream.filterMap(identity),
     );
   }
 }
 
+/**
+ * The decoded type of a document's field, given its path.
+ */
+type DecodedFieldType<Document, FieldPath extends string> = Document extends any
+  ? FieldPath extends `${infer First}.${infer Rest}`
+    ? First extends keyof Document
+      ?
+          | DecodedFieldType<NonNullable<Document[First]>, Rest>
+          | (undefined extends Document[First] ? undefined : never)
+      : undefined
+    : FieldPath extends keyof Document
+      ? Document[FieldPath]
+      : undefined
+  : never;
+
+type PlusOne<N extends number> = [
+  1,
+  2,
+  3,
+  4,
+  5,
+  6,
+  7,
+  8,
+  9,
+  10,
+  11,
+  12,
+  13,
+  14,
+  15,
+  16,
+][N];
+
+/**
+ * An index range built with a `ConfectIndexRangeBuilder`: the range Convex built, and how encoding its values went.
+ */
+export interface ConfectIndexRange {
+  readonly q: IndexRange;
+  readonly built: Exit.Exit<void, ParseResult.ParseError>;
+}
+
+/**
+ * Convex's `IndexRangeBuilder`, but typed by the decoded document. Each value is encoded with its field's schema before it is compared.
+ */
+export interface ConfectIndexRangeBuilder<
+  Document,
+  IndexFields extends ReadonlyArray<string>,
+  FieldNum extends number = 0,
+> extends ConfectLowerBoundIndexRangeBuilder<Document, IndexFields[FieldNum]> {
+  eq(
+    fieldName: IndexFields[FieldNum],
+    value: DecodedFieldType<Document, IndexFields[FieldNum]>,
+  ): PlusOne<FieldNum> extends IndexFields["length"]
+    ? ConfectIndexRange
+    : ConfectIndexRangeBuilder<Document, IndexFields, PlusOne<FieldNum>>;
+}
+
+export interface ConfectLowerBoundIndexRangeBuilder<
+  Document,
+  IndexFieldName extends string,
+> extends ConfectUpperBoundIndexRangeBuilder<Document, IndexFieldName> {
+  gt(
+    fieldName: IndexFieldName,
+    value: DecodedFieldType<Document, IndexFieldName>,
+  ): ConfectUpperBoundIndexRangeBuilder<Document, IndexFieldName>;
+  gte(
+    fieldName: IndexFieldName,
+    value: DecodedFieldType<Document, IndexFieldName>,
+  ): ConfectUpperBoundIndexRangeBuilder<Document, IndexFieldName>;
+}
+
+export interface ConfectUpperBoundIndexRangeBuilder<
+  Document,
+  IndexFieldName extends string,
+> extends ConfectIndexRange {
+  lt(
+    fieldName: IndexFieldName,
+    value: DecodedFieldType<Document, IndexFieldName>,
+  ): ConfectIndexRange;
+  lte(
+    fieldName: IndexFieldName,
+    value: DecodedFieldType<Document, IndexFieldName>,
+  ): ConfectIndexRange;
+}
+
+/**
+ * Wraps Convex's index range builder, encoding each value on its way in. Every step returns a new wrapper, which `withIndex` unwraps to the range Convex built. After a value fails to encode, the range is left as it was and the wrapper holds the failure, which fails the query.
+ */
+class ConfectIndexRangeBuilderImpl<
+  Document,
+  IndexFields extends ReadonlyArray<string>,
+  FieldNum extends number = 0,
+> implements ConfectIndexRangeBuilder<Document, IndexFields, FieldNum>
+{
+  q: IndexRangeBuilder<any, any, any>;
+  encodeFieldValue: (
+    fieldPath: string,
+    value: unknown,
+  ) => Exit.Exit<unknown, ParseResult.ParseError>;
+  built: Exit.Exit<void, ParseResult.ParseError>;
+  constructor(
+    q: IndexRangeBuilder<any, any, any>,
+    encodeFieldValue: (
+      fieldPath: string,
+      value: unknown,
+    ) => Exit.Exit<unknown, ParseResult.ParseError>,
+    built: Exit.Exit<void, ParseResult.ParseError> = Exit.void,
+  ) {
+    this.q = q;
+    this.encodeFieldValue = encodeFieldValue;
+    this.built = built;
+  }
+  eq(
+    fieldName: IndexFields[FieldNum],
+    value: DecodedFieldType<Document, IndexFields[FieldNum]>,
+  ): ConfectIndexRangeBuilderImpl<Document, IndexFields, PlusOne<FieldNum>> {
+    return this.next(fieldName, value, (encoded) =>
+      this.q.eq(fieldName, encoded),
+    );
+  }
+  gt(
+    fieldName: IndexFields[FieldNum],
+    value: DecodedFieldType<Document, IndexFields[FieldNum]>,
+  ): ConfectIndexRangeBuilderImpl<Document, IndexFields, FieldNum> {
+    return this.next(fieldName, value, (encoded) =>
+      this.q.gt(fieldName, encoded),
+    );
+  }
+  gte(
+    fieldName: IndexFields[FieldNum],
+    value: DecodedFieldType<Document, IndexFields[FieldNum]>,
+  ): ConfectIndexRangeBuilderImpl<Document, IndexFields, FieldNum> {
+    return this.next(fieldName, value, (encoded) =>
+      this.q.gte(fieldName, encoded),
+    );
+  }
+  lt(
+    fieldName: IndexFields[FieldNum],
+    value: DecodedFieldType<Document, IndexFields[FieldNum]>,
+  ): ConfectIndexRangeBuilderImpl<Document, IndexFields, FieldNum> {
+    return this.next(fieldName, value, (encoded) =>
+      this.q.lt(fieldName, encoded),
+    );
+  }
+  lte(
+    fieldName: IndexFields[FieldNum],
+    value: DecodedFieldType<Document, IndexFields[FieldNum]>,
+  ): ConfectIndexRangeBuilderImpl<Document, IndexFields, FieldNum> {
+    return this.next(fieldName, value, (encoded) =>
+      this.q.lte(fieldName, encoded),
+    );
+  }
+  next<N extends number>(
+    fieldName: string,
+    value: unknown,
+    compare: (encoded: unknown) => IndexRange,
+  ): ConfectIndexRangeBuilderImpl<Document, IndexFields, N> {
+    return Exit.match(
+      Exit.isFailure(this.built)
+        ? this.built
+        : this.encodeFieldValue(fieldName, value),
+      {
+        onFailure: (cause) =>
+          new ConfectIndexRangeBuilderImpl(
+            this.q,
+            this.encodeFieldValue,
+            Exit.failCause(cause),
+          ),
+        onSuccess: (encoded) =>
+          new ConfectIndexRangeBuilderImpl(
+            compare(encoded) as IndexRangeBuilder<any, any, any>,
+            this.encodeFieldValue,
+          ),
+      },
+    );
+  }
+}
+
+/**
+ * `TenantIndexRequiredError` for a table with a tenant field, which a tenant-scoped database only queries through some of its indexes.
+ */
+type TenantIndexError<ConfectTableInfo extends GenericConfectTableInfo> = [
+  ConfectTableInfo["tenantField"],
+] extends [never]
+  ? never
+  : TenantIndexRequiredError;
+
 interface ConfectQueryInitializer<
   ConfectTableInfo extends GenericConfectTableInfo,
   TableName extends string,
-> extends ConfectQuery<ConfectTableInfo, TableName> {
-  fullTableScan(): ConfectQuery<ConfectTableInfo, TableName>;
+  Policy extends DocumentDecodeErrorPolicy = "fail",
+> extends Omit<
+    ConfectQuery<ConfectTableInfo, TableName, Policy>,
+    "onDecodeError"
+  > {
+  onDecodeError<P extends DocumentDecodeErrorPolicy>(
+    policy: P,
+  ): ConfectQueryInitializer<ConfectTableInfo, TableName, P>;
+  /**
+   * Include the documents of a soft-delete table which have been deleted.
+   */
+  includeDeleted(): ConfectQueryInitializer<
+    ConfectTableInfo,
+    TableName,
+    Policy
+  >;
+  fullTableScan(): ConfectQuery<ConfectTableInfo, TableName, Policy>;
+  /**
+   * Query by an index, whose range compares decoded values: each is encoded with its field's schema, so a `Schema.DateFromNumber` field takes a `Date`. A value which fails to encode fails the query with its `ParseError`.
+   */
   withIndex<
     IndexName extends keyof Indexes<
       TableInfoFromConfectTableInfo<ConfectTableInfo>
@@ -226,17 +659,21 @@ interface ConfectQueryInitializer<
     indexName: IndexName,
     indexRange?:
       | ((
-          q: IndexRangeBuilder<
-            DocumentByInfo<TableInfoFromConfectTableInfo<ConfectTableInfo>>,
+          q: ConfectIndexRangeBuilder<
+            ConfectTableInfo["confectDocument"],
             NamedIndex<
               TableInfoFromConfectTableInfo<ConfectTableInfo>,
               IndexName
-            >,
-            0
+            >
           >,
-        ) => IndexRange)
+        ) => ConfectIndexRange)
       | undefined,
-  ): ConfectQuery<ConfectTableInfo, TableName>;
+  ): ConfectQuery<
+    ConfectTableInfo,
+    TableName,
+    Policy,
+    ParseResult.ParseError | TenantIndexError<ConfectTableInfo>
+  >;
   withSearchIndex<
     IndexName extends keyof SearchIndexes<
       TableInfoFromConfectTableInfo<ConfectTableInfo>
@@ -252,43 +689,148 @@ interface ConfectQueryInitializer<
         >
       >,
     ) => SearchFilter,
-  ): ConfectOrderedQuery<ConfectTableInfo, TableName>;
+  ): ConfectOrderedQuery<
+    ConfectTableInfo,
+    TableName,
+    Policy,
+    TenantIndexError<ConfectTableInfo>
+  >;
 }
 
 class ConfectQueryInitializerImpl<
   ConfectTableInfo extends GenericConfectTableInfo,
   TableName extends string,
-> implements ConfectQueryInitializer<ConfectTableInfo, TableName>
+  Policy extends DocumentDecodeErrorPolicy,
+> implements ConfectQueryInitializer<ConfectTableInfo, TableName, Policy>
 {
   q: QueryInitializer<TableInfoFromConfectTableInfo<ConfectTableInfo>>;
-  tableSchema: Schema.Schema<
+  tableCodec: TableCodec<
     ConfectTableInfo["confectDocument"],
     ConfectTableInfo["encodedConfectDocument"]
   >;
   tableName: TableName;
+  policy: Policy;
+  excludeDeleted: boolean;
+  read: ReadRule<ConfectTableInfo["confectDocument"]>;
+  tenantScope: Option.Option<TenantScope>;
   constructor(
     q: QueryInitializer<TableInfoFromConfectTableInfo<ConfectTableInfo>>,
-    tableSchema: Schema.Schema<
+    tableCodec: TableCodec<
       ConfectTableInfo["confectDocument"],
       ConfectTableInfo["encodedConfectDocument"]
     >,
     tableName: TableName,
+    policy: Policy,
+    excludeDeleted: boolean,
+    read: ReadRule<ConfectTableInfo["confectDocument"]>,
+    tenantScope: Option.Option<TenantScope>,
   ) {
     this.q = q;
-    this.tableSchema = tableSchema;
+    this.tableCodec = tableCodec;
     this.tableName = tableName;
+    this.policy = policy;
+    this.excludeDeleted = excludeDeleted;
+    this.read = read;
+    this.tenantScope = tenantScope;
+  }
+  onDecodeError<P extends DocumentDecodeErrorPolicy>(
+    policy: P,
+  ): ConfectQueryInitializer<ConfectTableInfo, TableName, P> {
+    return new ConfectQueryInitializerImpl(
+      this.q,
+      this.tableCodec,
+      this.tableName,
+      policy,
+      this.excludeDeleted,
+      this.read,
+      this.tenantScope,
+    );
+  }
+  includeDeleted(): ConfectQueryInitializer<
+    ConfectTableInfo,
+    TableName,
+    Policy
+  > {
+    return new ConfectQueryInitializerImpl(
+      this.q,
+      this.tableCodec,
+      this.tableName,
+      this.policy,
+      false,
+      this.read,
+      this.tenantScope,
+    );
   }
-  fullTableScan(): ConfectQuery<ConfectTableInfo, TableName> {
+  fullTableScan(): ConfectQuery<ConfectTableInfo, TableName, Policy> {
     return new ConfectQueryImpl(
-      this.q.fullTableScan(),
-      this.tableSchema,
+      this.restrict(this.tenantIndexQuery()),
+      this.tableCodec,
       this.tableName,
+      this.policy,
+      this.read,
+      Exit.void,
     );
   }
   withIndex<
     IndexName extends keyof Indexes<
       TableInfoFromConfectTableInfo<ConfectTableInfo>
     >,
+  >(
+    indexName: IndexName,
+    indexRange?:
+      | ((
+          q: ConfectIndexRangeBuilder<
+            ConfectTableInfo["confectDocument"],
+            NamedIndex<
+              TableInfoFromConfectTableInfo<ConfectTableInfo>,
+              IndexName
+            >
+          >,
+        ) => ConfectIndexRange)
+      | undefined,
+  ): ConfectQuery<
+    ConfectTableInfo,
+    TableName,
+    Policy,
+    ParseResult.ParseError | TenantIndexError<ConfectTableInfo>
+  > {
+    // Convex builds the range as the query is defined, so this is set by the time the query is returned.
+    let built: Exit.Exit<
+      void,
+      ParseResult.ParseError | TenantIndexError<ConfectTableInfo>
+    > = Exit.void;
+    const query = this.withEncodedIndex(
+      indexName,
+      indexRange &&
+        ((q) => {
+          const range = indexRange(
+            new ConfectIndexRangeBuilderImpl(
+              q,
+              this.tableCodec.encodeFieldValue,
+            ),
+          );
+          built = range.built;
+
+          return range.q;
+        }),
+    );
+
+    return new ConfectQueryImpl(
+      query.q,
+      this.tableCodec,
+      this.tableName,
+      this.policy,
+      this.read,
+      Exit.isFailure(query.built) ? query.built : built,
+    );
+  }
+  /**
+   * `withIndex` with Convex's own index range builder, whose values are as stored.
+   */
+  withEncodedIndex<
+    IndexName extends keyof Indexes<
+      TableInfoFromConfectTableInfo<ConfectTableInfo>
+    >,
   >(
     indexName: IndexName,
     indexRange?:
@@ -303,11 +845,38 @@ class ConfectQueryInitializerImpl<
           >,
         ) => IndexRange)
       | undefined,
-  ): ConfectQuery<ConfectTableInfo, TableName> {
+  ): ConfectQueryImpl<
+    ConfectTableInfo,
+    TableName,
+    Policy,
+    TenantIndexError<ConfectTableInfo>
+  > {
+    const built = this.requireTenantIndex(
+      indexName as string,
+      ({ indexNames }) => indexNames,
+    );
+    const query = Option.match(this.tenantScope, {
+      onNone: () => this.q.withIndex(indexName, indexRange),
+      onSome: ({ fieldName, tenantId }) =>
+        Exit.isFailure(built)
+          ? this.tenantIndexQuery()
+          : // A range which leaves out the tenant field is limited to the tenant's documents.
+            this.q.withIndex(indexName, (q) => {
+              const range = indexRange === undefined ? q : indexRange(q);
+
+              return range === q
+                ? q.eq(fieldName as any, tenantId as any)
+                : range;
+            }),
+    });
+
     return new ConfectQueryImpl(
-      this.q.withIndex(indexName, indexRange),
-      this.tableSchema,
+      this.restrict(query),
+      this.tableCodec,
       this.tableName,
+      this.policy,
+      this.read,
+      built,
     );
   }
   withSearchIndex<
@@ -325,46 +894,136 @@ class ConfectQueryInitializerImpl<
         >
       >,
     ) => SearchFilter,
-  ): ConfectOrderedQuery<ConfectTableInfo, TableName> {
+  ): ConfectOrderedQuery<
+    ConfectTableInfo,
+    TableName,
+    Policy,
+    TenantIndexError<ConfectTableInfo>
+  > {
+    const built = this.requireTenantIndex(
+      indexName as string,
+      ({ searchIndexNames }) => searchIndexNames,
+    );
+    const query = Option.match(this.tenantScope, {
+      onNone: () => this.q.withSearchIndex(indexName, searchFilter),
+      onSome: ({ fieldName, tenantId }) =>
+        Exit.isFailure(built)
+          ? this.tenantIndexQuery()
+          : this.q.withSearchIndex(indexName, (q) =>
+              (searchFilter(q) as SearchFilterFinalizer<any, any>).eq(
+                fieldName,
+                tenantId,
+              ),
+            ),
+    });
+
     return new ConfectQueryImpl(
-      this.q.withSearchIndex(indexName, searchFilter),
-      this.tableSchema,
+      this.restrict(query),
+      this.tableCodec,
       this.tableName,
+      this.policy,
+      this.read,
+      built,
+    );
+  }
+  /**
+   * Fail with `TenantIndexRequiredError` when the table is scoped to a tenant and `indexName` isn't among the indexes which `indexNamesOf` picks from its scope.
+   */
+  requireTenantIndex(
+    indexName: string,
+    indexNamesOf: (tenantScope: TenantScope) => ReadonlyArray<string>,
+  ): Exit.Exit<void, TenantIndexError<ConfectTableInfo>> {
+    return Option.match(
+      Option.filter(
+        this.tenantScope,
+        (tenantScope) => !Array.contains(indexNamesOf(tenantScope), indexName),
+      ),
+      {
+        onNone: () => Exit.void,
+        onSome: ({ fieldName }) =>
+          Exit.fail(
+            new TenantIndexRequiredError({
+              tableName: this.tableName,
+              indexName,
+              fieldName,
+            }) as TenantIndexError<ConfectTableInfo>,
+          ),
+      },
     );
   }
+  /**
+   * The tenant's documents, through the tenant's index.
+   */
+  tenantIndexQuery(): Query<TableInfoFromConfectTableInfo<ConfectTableInfo>> {
+    return Option.match(this.tenantScope, {
+      onNone: () => this.q.fullTableScan(),
+      onSome: ({ fieldName, indexName, tenantId }) =>
+        this.q.withIndex(indexName, indexKeyRange({ [fieldName]: tenantId })),
+    });
+  }
+  /**
+   * Leave out the documents which are soft-deleted or belong to another tenant.
+   */
+  restrict<
+    Q extends OrderedQuery<TableInfoFromConfectTableInfo<ConfectTableInfo>>,
+  >(query: Q): Q {
+    const undeleted = this.excludeDeleted ? query.filter(isNotDeleted) : query;
+
+    return Option.match(this.tenantScope, {
+      onNone: () => undeleted,
+      onSome: (tenantScope) => undeleted.filter(isInTenant(tenantScope)),
+    });
+  }
   filter(
     predicate: (
       q: FilterBuilder<TableInfoFromConfectTableInfo<ConfectTableInfo>>,
     ) => Expression<boolean>,
-  ): ConfectQuery<ConfectTableInfo, TableName> {
+  ): ConfectQuery<ConfectTableInfo, TableName, Policy> {
     return this.fullTableScan().filter(predicate);
   }
   order(
     order: "asc" | "desc",
-  ): ConfectOrderedQuery<ConfectTableInfo, TableName> {
+  ): ConfectOrderedQuery<ConfectTableInfo, TableName, Policy> {
     return this.fullTableScan().order(order);
   }
   paginate(
     paginationOpts: PaginationOptions,
-  ): Effect.Effect<PaginationResult<ConfectTableInfo["confectDocument"]>> {
+  ): Effect.Effect<
+    PaginationResult<ConfectTableInfo["confectDocument"]>,
+    DocumentDecodeErrorFromPolicy<Policy>
+  > {
     return this.fullTableScan().paginate(paginationOpts);
   }
-  collect(): Effect.Effect<ConfectTableInfo["confectDocument"][]> {
+  collect(): Effect.Effect<
+    ConfectTableInfo["confectDocument"][],
+    DocumentDecodeErrorFromPolicy<Policy>
+  > {
     return this.fullTableScan().collect();
   }
-  take(n: number): Effect.Effect<ConfectTableInfo["confectDocument"][]> {
+  take(
+    n: number,
+  ): Effect.Effect<
+    ConfectTableInfo["confectDocument"][],
+    DocumentDecodeErrorFromPolicy<Policy>
+  > {
     return this.fullTableScan().take(n);
   }
-  first(): Effect.Effect<Option.Option<ConfectTableInfo["confectDocument"]>> {
+  first(): Effect.Effect<
+    Option.Option<ConfectTableInfo["confectDocument"]>,
+    DocumentDecodeErrorFromPolicy<Policy>
+  > {
     return this.fullTableScan().first();
   }
   unique(): Effect.Effect<
     Option.Option<ConfectTableInfo["confectDocument"]>,
-    NotUniqueError
+    NotUniqueError | DocumentDecodeErrorFromPolicy<Policy>
   > {
     return this.fullTableScan().unique();
   }
-  stream(): Stream.Stream<ConfectTableInfo["confectDocument"]> {
+  stream(): Stream.Stream<
+    ConfectTableInfo["confectDocument"],
+    DocumentDecodeErrorFromPolicy<Policy>
+  > {
     return this.fullTableScan().stream();
   }
 }
@@ -378,12 +1037,201 @@ export type DatabaseSchemasFromConfectDataModel<
   >;
 };
 
+export type DatabaseCodecsFromConfectDataModel<
+  ConfectDataModel extends GenericConfectDataModel,
+> = {
+  [TableName in keyof ConfectDataModel & string]: TableCodec<
+    ConfectDataModel[TableName]["confectDocument"],
+    ConfectDataModel[TableName]["encodedConfectDocument"]
+  >;
+};
+
 export interface ConfectDatabaseReader<
   ConfectDataModel extends GenericConfectDataModel,
-> extends ConfectBaseDatabaseReader<ConfectDataModel> {
+> extends Omit<ConfectBaseDatabaseReader<ConfectDataModel>, "get">,
+    ConfectRelationshipReader<ConfectDataModel>,
+    ConfectHistoryReader<ConfectDataModel>,
+    ConfectVersionReader<ConfectDataModel> {
   system: ConfectBaseDatabaseReader<ConfectSystemDataModel>;
+  /**
+   * Get a document. Through a tenant-scoped database, a document of a tenant table which belongs to another tenant fails with `TenantMismatch`.
+   */
+  get<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    id: GenericId<TableName>,
+  ): Effect.Effect<
+    Option.Option<ConfectDataModel[TableName]["confectDocument"]>,
+    DocumentDecodeError | TenantMismatch
+  >;
+  get<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    tableName: TableName,
+    id: GenericId<TableName>,
+  ): Effect.Effect<
+    Option.Option<ConfectDataModel[TableName]["confectDocument"]>,
+    DocumentDecodeError | TenantMismatch
+  >;
+}
+
+/**
+ * Read the writes recorded for the tables with history. See `defineSchema`.
+ */
+export interface ConfectHistoryReader<
+  ConfectDataModel extends GenericConfectDataModel,
+> {
+  /**
+   * The writes recorded for a document, oldest first. Empty unless its table has history. Entries with a version of the document which `get` wouldn't return, because the table's `read` rule refuses it, are left out.
+   */
+  history(
+    id: GenericId<TableNamesInConfectDataModel<ConfectDataModel>>,
+  ): Effect.Effect<ReadonlyArray<HistoryEntryDocument>, TenantMismatch>;
+}
+
+/**
+ * Find the documents still stored as an old version of their table's schema. See `TableOptions.versions`.
+ */
+export interface ConfectVersionReader<
+  ConfectDataModel extends GenericConfectDataModel,
+> {
+  /**
+   * How many of a table's documents are upcast from each of its old versions, in the order of its `versions`. Reads the whole table.
+   */
+  countOldVersions(
+    tableName: TableNamesInConfectDataModel<ConfectDataModel>,
+  ): Effect.Effect<ReadonlyArray<number>>;
+}
+
+/**
+ * Load documents related through `Id` fields.
+ */
+export interface ConfectRelationshipReader<
+  ConfectDataModel extends GenericConfectDataModel,
+> {
+  /**
+   * Get the only document whose index's first field is `value`.
+   */
+  getOneFrom<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    IndexName extends UserIndexNames<ConfectDataModel[TableName]>,
+  >(
+    table: TableName,
+    indexName: IndexName,
+    value: FirstIndexFieldValue<ConfectDataModel[TableName], IndexName>,
+  ): Effect.Effect<
+    Option.Option<ConfectDataModel[TableName]["confectDocument"]>,
+    | ParseResult.ParseError
+    | NotUniqueError
+    | DocumentDecodeError
+    | TenantIndexError<ConfectDataModel[TableName]>
+  >;
+  /**
+   * Get every document whose index's first field is `value`.
+   */
+  getManyFrom<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    IndexName extends UserIndexNames<ConfectDataModel[TableName]>,
+  >(
+    table: TableName,
+    indexName: IndexName,
+    value: FirstIndexFieldValue<ConfectDataModel[TableName], IndexName>,
+  ): Effect.Effect<
+    ReadonlyArray<ConfectDataModel[TableName]["confectDocument"]>,
+    | ParseResult.ParseError
+    | DocumentDecodeError
+    | TenantIndexError<ConfectDataModel[TableName]>
+  >;
+  /**
+   * Get the documents referred to by the `toField` of every row in a join table whose index's first field is `value`. Rows referring to missing documents are skipped.
+   */
+  getManyVia<
+    JoinTableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    ToField extends IdFieldName<
+      ConfectDataModel[JoinTableName]["confectDocument"]
+    >,
+    IndexName extends UserIndexNames<ConfectDataModel[JoinTableName]>,
+  >(
+    joinTable: JoinTableName,
+    toField: ToField,
+    indexName: IndexName,
+    value: FirstIndexFieldValue<ConfectDataModel[JoinTableName], IndexName>,
+  ): Effect.Effect<
+    ReadonlyArray<
+      ConfectDataModel[RelatedTableName<
+        ConfectDataModel,
+        ConfectDataModel[JoinTableName]["confectDocument"],
+        ToField
+      >]["confectDocument"]
+    >,
+    | ParseResult.ParseError
+    | DocumentDecodeError
+    | TenantMismatch
+    | TenantIndexError<ConfectDataModel[JoinTableName]>
+  >;
+  /**
+   * Get the document which an `Id` field of `document` refers to. The table is read from the field's `Id` schema.
+   */
+  related<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    FieldName extends IdFieldName<
+      ConfectDataModel[TableName]["confectDocument"]
+    >,
+  >(
+    document: ConfectDataModel[TableName]["confectDocument"] & {
+      readonly _id: GenericId<TableName>;
+    },
+    fieldName: FieldName,
+  ): Effect.Effect<
+    Option.Option<
+      ConfectDataModel[RelatedTableName<
+        ConfectDataModel,
+        ConfectDataModel[TableName]["confectDocument"],
+        FieldName
+      >]["confectDocument"]
+    >,
+    DocumentDecodeError | TenantMismatch
+  >;
 }
 
+/**
+ * The indexes defined on a table, leaving out the system indexes.
+ */
+export type UserIndexNames<ConfectTableInfo extends GenericConfectTableInfo> =
+  Exclude<
+    keyof Indexes<TableInfoFromConfectTableInfo<ConfectTableInfo>>,
+    "by_id" | "by_creation_time"
+  >;
+
+/**
+ * A decoded value of an index's first field, which is encoded with the field's schema before it is compared.
+ */
+export type FirstIndexFieldValue<
+  ConfectTableInfo extends GenericConfectTableInfo,
+  IndexName extends UserIndexNames<ConfectTableInfo>,
+> = DecodedFieldType<
+  ConfectTableInfo["confectDocument"],
+  Indexes<TableInfoFromConfectTableInfo<ConfectTableInfo>>[IndexName][0]
+>;
+
+/**
+ * The fields of a document which hold an `Id`.
+ */
+export type IdFieldName<Document> = {
+  [FieldName in keyof Document & string]-?: FieldName extends "_id"
+    ? never
+    : NonNullable<Document[FieldName]> extends GenericId<string>
+      ? FieldName
+      : never;
+}[keyof Document & string];
+
+/**
+ * The table which an `Id` field refers to.
+ */
+export type RelatedTableName<
+  ConfectDataModel extends GenericConfectDataModel,
+  Document,
+  FieldName extends keyof Document,
+> = NonNullable<Document[FieldName]> extends GenericId<infer TableName>
+  ? Extract<TableName, TableNamesInConfectDataModel<ConfectDataModel>>
+  : never;
+
 export interface ConfectBaseDatabaseReader<
   ConfectDataModel extends GenericConfectDataModel,
 > {
@@ -393,7 +1241,15 @@ export interface ConfectBaseDatabaseReader<
   get<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
     id: GenericId<TableName>,
   ): Effect.Effect<
-    Option.Option<ConfectDataModel[TableName]["confectDocument"]>
+    Option.Option<ConfectDataModel[TableName]["confectDocument"]>,
+    DocumentDecodeError
+  >;
+  get<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    tableName: TableName,
+    id: GenericId<TableName>,
+  ): Effect.Effect<
+    Option.Option<ConfectDataModel[TableName]["confectDocument"]>,
+    DocumentDecodeError
   >;
   normalizeId<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
     tableName: TableName,
@@ -406,30 +1262,42 @@ export class ConfectBaseDatabaseReaderImpl<
 > implements ConfectBaseDatabaseReader<ConfectDataModel>
 {
   db: BaseDatabaseReader<DataModelFromConfectDataModel<ConfectDataModel>>;
-  databaseSchemas: DatabaseSchemasFromConfectDataModel<ConfectDataModel>;
+  confectSchemaDefinition: GenericConfectSchemaDefinition;
+  tableCodecs: DatabaseCodecsFromConfectDataModel<ConfectDataModel>;
+  tableNameResolver: TableNameResolver<
+    TableNamesInConfectDataModel<ConfectDataModel>
+  >;
   constructor(
     db: BaseDatabaseReader<DataModelFromConfectDataModel<ConfectDataModel>>,
-    databaseSchemas: DatabaseSchemasFromConfectDataModel<ConfectDataModel>,
+    confectSchemaDefinition: GenericConfectSchemaDefinition,
   ) {
     this.db = db;
-    this.databaseSchemas = databaseSchemas;
+    this.confectSchemaDefinition = confectSchemaDefinition;
+    this.tableCodecs = databaseCodecsFromConfectSchemaDefinition(
+      confectSchemaDefinition,
+    );
+    this.tableNameResolver = new TableNameResolver(
+      tableNamesInConfectSchemaDefinition(confectSchemaDefinition),
+      (tableName, id) => this.normalizeId(tableName, id),
+    );
   }
   decode<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
     tableName: TableName,
     convexDocument: ConfectDataModel[TableName]["encodedConfectDocument"],
-  ): ConfectDataModel[TableName]["confectDocument"] {
+  ): Either.Either<
+    ConfectDataModel[TableName]["confectDocument"],
+    DocumentDecodeError
+  > {
     return decodeDocument(
       tableName,
-      this.databaseSchemas[tableName],
+      this.tableCodecs[tableName],
       convexDocument,
     );
   }
   tableName(
     id: GenericId<TableNamesInConfectDataModel<ConfectDataModel>>,
   ): Option.Option<TableNamesInConfectDataModel<ConfectDataModel>> {
-    return Array.findFirst(Record.keys(this.databaseSchemas), (tableName) =>
-      Option.isSome(this.normalizeId(tableName, id)),
-    );
+    return this.tableNameResolver.resolve(id);
   }
   normalizeId<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
     tableName: TableName,
@@ -440,16 +1308,42 @@ export class ConfectBaseDatabaseReaderImpl<
   get<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
     id: GenericId<TableName>,
   ): Effect.Effect<
-    Option.Option<ConfectDataModel[TableName]["confectDocument"]>
+    Option.Option<ConfectDataModel[TableName]["confectDocument"]>,
+    DocumentDecodeError
+  >;
+  get<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    tableName: TableName,
+    id: GenericId<TableName>,
+  ): Effect.Effect<
+    Option.Option<ConfectDataModel[TableName]["confectDocument"]>,
+    DocumentDecodeError
+  >;
+  get<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    ...args:
+      | [id: GenericId<TableName>]
+      | [tableName: TableName, id: GenericId<TableName>]
+  ): Effect.Effect<
+    Option.Option<ConfectDataModel[TableName]["confectDocument"]>,
+    DocumentDecodeError
   > {
     return Effect.gen(this, function* () {
+      const id = args.length === 1 ? args[0] : args[1];
       const optionConvexDoc = yield* Effect.promise(() => this.db.get(id)).pipe(
         Effect.map(Option.fromNullable),
       );
-      const tableName = yield* this.tableName(id).pipe(Effect.orDie);
-      return pipe(
+      const tableName = yield* (
+        args.length === 1
+          ? this.tableName(id)
+          : this.tableNameResolver.resolveIn(args[0], id)
+      ).pipe(Effect.orDie);
+      return yield* pipe(
         optionConvexDoc,
+        Option.filter(
+          (convexDoc) =>
+            !isSoftDeleted(this.confectSchemaDefinition, tableName, convexDoc),
+        ),
         Option.map((convexDoc) => this.decode(tableName, convexDoc)),
+        Effect.transposeOption,
       );
     });
   }
@@ -458,8 +1352,12 @@ export class ConfectBaseDatabaseReaderImpl<
   ): ConfectQueryInitializer<ConfectDataModel[TableName], TableName> {
     return new ConfectQueryInitializerImpl(
       this.db.query(tableName),
-      this.databaseSchemas[tableName],
+      this.tableCodecs[tableName],
       tableName,
+      "fail",
+      softDeletes(this.confectSchemaDefinition, tableName),
+      undefined,
+      Option.none(),
     );
   }
 }
@@ -469,37 +1367,58 @@ export class ConfectDatabaseReaderImpl<
 > implements ConfectDatabaseReader<ConfectDataModel>
 {
   db: GenericDatabaseReader<DataModelFromConfectDataModel<ConfectDataModel>>;
-  databaseSchemas: DatabaseSchemasFromConfectDataModel<ConfectDataModel>;
+  confectSchemaDefinition: GenericConfectSchemaDefinition;
+  tableCodecs: DatabaseCodecsFromConfectDataModel<ConfectDataModel>;
   system: ConfectBaseDatabaseReader<ConfectSystemDataModel>;
+  tableNameResolver: TableNameResolver<
+    TableNamesInConfectDataModel<ConfectDataModel>
+  >;
+  rules: DatabaseRules;
+  tenantId: Option.Option<string>;
   constructor(
     db: GenericDatabaseReader<DataModelFromConfectDataModel<ConfectDataModel>>,
-    databaseSchemas: DatabaseSchemasFromConfectDataModel<ConfectDataModel>,
+    confectSchemaDefinition: GenericConfectSchemaDefinition,
+    tableNameResolver?: TableNameResolver<
+      TableNamesInConfectDataModel<ConfectDataModel>
+    >,
+    rules: DatabaseRules = {},
+    tenantId: Option.Option<string> = Option.none(),
   ) {
     this.db = db;
-    this.databaseSchemas = databaseSchemas;
+    this.confectSchemaDefinition = confectSchemaDefinition;
+    this.rules = rules;
+    this.tenantId = tenantId;
+    this.tableCodecs = databaseCodecsFromConfectSchemaDefinition(
+      confectSchemaDefinition,
+    );
+    this.tableNameResolver =
+      tableNameResolver ??
+      new TableNameResolver(
+        tableNamesInConfectSchemaDefinition(confectSchemaDefinition),
+        (tableName, id) => this.normalizeId(tableName, id),
+      );
     this.system = new ConfectBaseDatabaseReaderImpl<ConfectSystemDataModel>(
       this.db.system,
-      databaseSchemasFromConfectSchema(
-        confectSystemSchemaDefinition.confectSchema,
-      ),
+      confectSystemSchemaDefinition,
     );
   }
   decode<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
     tableName: TableName,
     convexDocument: ConfectDataModel[TableName]["encodedConfectDocument"],
-  ): ConfectDataModel[TableName]["confectDocument"] {
+  ): Either.Either<
+    ConfectDataModel[TableName]["confectDocument"],
+    DocumentDecodeError
+  > {
     return decodeDocument(
       tableName,
-      this.databaseSchemas[tableName],
+      this.tableCodecs[tableName],
       convexDocument,
     );
   }
   tableName(
     id: GenericId<TableNamesInConfectDataModel<ConfectDataModel>>,
   ): Option.Option<TableNamesInConfectDataModel<ConfectDataModel>> {
-    return Array.findFirst(Record.keys(this.databaseSchemas), (tableName) =>
-      Option.isSome(this.normalizeId(tableName, id)),
-    );
+    return this.tableNameResolver.resolve(id);
   }
   normalizeId<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
     tableName: TableName,
@@ -510,40 +1429,503 @@ export class ConfectDatabaseReaderImpl<
   get<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
     id: GenericId<TableName>,
   ): Effect.Effect<
-    Option.Option<ConfectDataModel[TableName]["confectDocument"]>
-  > {
-    return Effect.gen(this, function* () {
-      const optionConvexDoc = yield* Effect.promise(() => this.db.get(id)).pipe(
-        Effect.map(Option.fromNullable),
-      );
-      const tableName = yield* this.tableName(id).pipe(Effect.orDie);
-      return pipe(
+    Option.Option<ConfectDataModel[TableName]["confectDocument"]>,
+    DocumentDecodeError | TenantMismatch
+  >;
+  get<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    tableName: TableName,
+    id: GenericId<TableName>,
+  ): Effect.Effect<
+    Option.Option<ConfectDataModel[TableName]["confectDocument"]>,
+    DocumentDecodeError | TenantMismatch
+  >;
+  get<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    ...args:
+      | [id: GenericId<TableName>]
+      | [tableName: TableName, id: GenericId<TableName>]
+  ): Effect.Effect<
+    Option.Option<ConfectDataModel[TableName]["confectDocument"]>,
+    DocumentDecodeError | TenantMismatch
+  > {
+    return Effect.gen(this, function* () {
+      const id = args.length === 1 ? args[0] : args[1];
+      const optionConvexDoc = yield* Effect.promise(() => this.db.get(id)).pipe(
+        Effect.map(Option.fromNullable),
+      );
+      const tableName = yield* (
+        args.length === 1
+          ? this.tableName(id)
+          : this.tableNameResolver.resolveIn(args[0], id)
+      ).pipe(Effect.orDie);
+      return yield* pipe(
         optionConvexDoc,
-        Option.map((convexDoc) => this.decode(tableName, convexDoc)),
+        Option.filter(
+          (convexDoc) =>
+            !isSoftDeleted(this.confectSchemaDefinition, tableName, convexDoc),
+        ),
+        Option.map((convexDoc) =>
+          pipe(
+            checkTenant(
+              tenantScope(
+                this.confectSchemaDefinition,
+                tableName,
+                this.tenantId,
+              ),
+              tableName,
+              id,
+              convexDoc,
+            ),
+            Effect.andThen(this.decode(tableName, convexDoc)),
+          ),
+        ),
+        Effect.transposeOption,
+        Effect.flatMap(filterReadable(this.rules[tableName]?.read)),
       );
     });
   }
   query<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
     tableName: TableName,
-  ): ConfectQueryInitializer<ConfectDataModel[TableName], TableName> {
+  ): ConfectQueryInitializerImpl<
+    ConfectDataModel[TableName],
+    TableName,
+    "fail"
+  > {
     return new ConfectQueryInitializerImpl(
       this.db.query(tableName),
-      this.databaseSchemas[tableName],
+      this.tableCodecs[tableName],
       tableName,
+      "fail",
+      softDeletes(this.confectSchemaDefinition, tableName),
+      this.rules[tableName]?.read,
+      tenantScope(this.confectSchemaDefinition, tableName, this.tenantId),
+    );
+  }
+  history(
+    id: GenericId<TableNamesInConfectDataModel<ConfectDataModel>>,
+  ): Effect.Effect<ReadonlyArray<HistoryEntryDocument>, TenantMismatch> {
+    return Array.isEmptyReadonlyArray(
+      this.confectSchemaDefinition.historyTableNames,
+    )
+      ? Effect.succeed([])
+      : pipe(
+          Effect.promise(() =>
+            this.db
+              .query(historyTableName)
+              .withIndex("by_documentId", indexKeyRange({ documentId: id }))
+              .collect(),
+          ),
+          Effect.andThen(decodeHistoryEntries),
+          Effect.orDie,
+          Effect.flatMap(
+            Effect.filter((entry) => this.isReadableHistoryEntry(entry)),
+          ),
+        );
+  }
+  /**
+   * Whether both versions of the document in a history entry pass the tenant check and `read` rule which `get` applies. A version which no longer decodes can only be read without a `read` rule.
+   */
+  isReadableHistoryEntry(
+    entry: HistoryEntryDocument,
+  ): Effect.Effect<boolean, TenantMismatch> {
+    const tableName =
+      entry.tableName as TableNamesInConfectDataModel<ConfectDataModel>;
+    const read = this.rules[tableName]?.read;
+
+    return pipe(
+      Array.filter([entry.before, entry.after], Predicate.isNotUndefined),
+      Array.map((fields) => historyEntryVersion(entry, fields)),
+      Effect.forEach((convexDoc) =>
+        pipe(
+          checkTenant(
+            tenantScope(this.confectSchemaDefinition, tableName, this.tenantId),
+            tableName,
+            entry.documentId as GenericId<string>,
+            convexDoc,
+          ),
+          Effect.andThen(
+            read === undefined
+              ? Effect.succeed(true)
+              : Either.match(
+                  this.tableCodecs[tableName].decodeDocument(convexDoc),
+                  {
+                    onLeft: () => Effect.succeed(false),
+                    onRight: read,
+                  },
+                ),
+          ),
+        ),
+      ),
+      Effect.map(Array.every(identity)),
+    );
+  }
+  countOldVersions(
+    tableName: TableNamesInConfectDataModel<ConfectDataModel>,
+  ): Effect.Effect<ReadonlyArray<number>> {
+    const { oldVersion } = this.tableCodecs[tableName];
+    const versions =
+      this.confectSchemaDefinition.confectSchema[tableName]?.versions ?? [];
+
+    return Array.isEmptyReadonlyArray(versions)
+      ? Effect.succeed([])
+      : pipe(
+          Effect.promise(() => this.db.query(tableName).collect()),
+          Effect.map(Array.filterMap(oldVersion)),
+          Effect.map((oldVersions) =>
+            Array.map(
+              versions,
+              (_, index) =>
+                Array.filter(oldVersions, (version) => version === index)
+                  .length,
+            ),
+          ),
+        );
+  }
+  getOneFrom<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    IndexName extends UserIndexNames<ConfectDataModel[TableName]>,
+  >(
+    table: TableName,
+    indexName: IndexName,
+    value: FirstIndexFieldValue<ConfectDataModel[TableName], IndexName>,
+  ): Effect.Effect<
+    Option.Option<ConfectDataModel[TableName]["confectDocument"]>,
+    | ParseResult.ParseError
+    | NotUniqueError
+    | DocumentDecodeError
+    | TenantIndexError<ConfectDataModel[TableName]>
+  > {
+    return this.queryByFirstIndexField(table, indexName, value).unique();
+  }
+  getManyFrom<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    IndexName extends UserIndexNames<ConfectDataModel[TableName]>,
+  >(
+    table: TableName,
+    indexName: IndexName,
+    value: FirstIndexFieldValue<ConfectDataModel[TableName], IndexName>,
+  ): Effect.Effect<
+    ReadonlyArray<ConfectDataModel[TableName]["confectDocument"]>,
+    | ParseResult.ParseError
+    | DocumentDecodeError
+    | TenantIndexError<ConfectDataModel[TableName]>
+  > {
+    return this.queryByFirstIndexField(table, indexName, value).collect();
+  }
+  queryByFirstIndexField<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    IndexName extends UserIndexNames<ConfectDataModel[TableName]>,
+  >(
+    table: TableName,
+    indexName: IndexName,
+    value: FirstIndexFieldValue<ConfectDataModel[TableName], IndexName>,
+  ): ConfectQuery<
+    ConfectDataModel[TableName],
+    TableName,
+    "fail",
+    ParseResult.ParseError | TenantIndexError<ConfectDataModel[TableName]>
+  > {
+    const [firstFieldPath] =
+      this.confectSchemaDefinition.confectSchema[table]?.indexFields[
+        indexName as string
+      ] ?? [];
+
+    return this.query(table).withIndex(
+      indexName,
+      decodedIndexKeyRange(
+        firstFieldPath === undefined ? {} : { [firstFieldPath]: value },
+      ),
+    );
+  }
+  getManyVia<
+    JoinTableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    ToField extends IdFieldName<
+      ConfectDataModel[JoinTableName]["confectDocument"]
+    >,
+    IndexName extends UserIndexNames<ConfectDataModel[JoinTableName]>,
+  >(
+    joinTable: JoinTableName,
+    toField: ToField,
+    indexName: IndexName,
+    value: FirstIndexFieldValue<ConfectDataModel[JoinTableName], IndexName>,
+  ): Effect.Effect<
+    ReadonlyArray<
+      ConfectDataModel[RelatedTableName<
+        ConfectDataModel,
+        ConfectDataModel[JoinTableName]["confectDocument"],
+        ToField
+      >]["confectDocument"]
+    >,
+    | ParseResult.ParseError
+    | DocumentDecodeError
+    | TenantMismatch
+    | TenantIndexError<ConfectDataModel[JoinTableName]>
+  > {
+    return pipe(
+      this.getManyFrom(joinTable, indexName, value),
+      Effect.andThen(
+        Effect.forEach((row) => this.relatedIn(joinTable, row, toField)),
+      ),
+      Effect.map(Array.getSomes),
+    );
+  }
+  related<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    FieldName extends IdFieldName<
+      ConfectDataModel[TableName]["confectDocument"]
+    >,
+  >(
+    document: ConfectDataModel[TableName]["confectDocument"] & {
+      readonly _id: GenericId<TableName>;
+    },
+    fieldName: FieldName,
+  ): Effect.Effect<
+    Option.Option<
+      ConfectDataModel[RelatedTableName<
+        ConfectDataModel,
+        ConfectDataModel[TableName]["confectDocument"],
+        FieldName
+      >]["confectDocument"]
+    >,
+    DocumentDecodeError | TenantMismatch
+  > {
+    return pipe(
+      this.tableName(document._id),
+      Effect.orDie,
+      Effect.andThen((tableName) =>
+        this.relatedIn(tableName as TableName, document, fieldName),
+      ),
     );
   }
+  relatedIn<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    FieldName extends IdFieldName<
+      ConfectDataModel[TableName]["confectDocument"]
+    >,
+  >(
+    tableName: TableName,
+    document: ConfectDataModel[TableName]["confectDocument"],
+    fieldName: FieldName,
+  ): Effect.Effect<
+    Option.Option<
+      ConfectDataModel[RelatedTableName<
+        ConfectDataModel,
+        ConfectDataModel[TableName]["confectDocument"],
+        FieldName
+      >]["confectDocument"]
+    >,
+    DocumentDecodeError | TenantMismatch
+  > {
+    return Effect.gen(this, function* () {
+      const relatedTableName = yield* pipe(
+        Option.fromNullable(
+          this.confectSchemaDefinition.confectSchema[tableName],
+        ),
+        Option.flatMap(({ tableSchema }) =>
+          referencedTableNameOfField(tableSchema, fieldName),
+        ),
+        Effect.orDie,
+      );
+      const id: GenericId<string> | undefined = document[fieldName];
+
+      return id === undefined
+        ? Option.none()
+        : yield* this.get(
+            relatedTableName as RelatedTableName<
+              ConfectDataModel,
+              ConfectDataModel[TableName]["confectDocument"],
+              FieldName
+            >,
+            id,
+          );
+    });
+  }
 }
 
-export interface ConfectDatabaseWriter<
+/**
+ * The Convex database underneath a Confect database, for internal functions which work on documents as they are stored.
+ */
+export const convexDatabaseReader = (
+  db: ConfectDatabaseReader<any>,
+): Effect.Effect<GenericDatabaseReader<any>> =>
+  db instanceof ConfectDatabaseReaderImpl
+    ? Effect.succeed(db.db)
+    : Effect.dieMessage(
+        "Expected a database from the context of a Confect function",
+      );
+
+/**
+ * The value of each field of an index, except its `_creationTime` tiebreaker. Values are decoded, and encoded with their field's schema before they are compared.
+ */
+export type IndexKey<
+  ConfectTableInfo extends GenericConfectTableInfo,
+  IndexName extends keyof Indexes<
+    TableInfoFromConfectTableInfo<ConfectTableInfo>
+  >,
+> = {
+  [FieldPath in Exclude<
+    Indexes<TableInfoFromConfectTableInfo<ConfectTableInfo>>[IndexName][number],
+    "_creationTime"
+  >]: DecodedFieldType<ConfectTableInfo["confectDocument"], FieldPath>;
+};
+
+export interface UpsertResult<TableName extends string> {
+  id: GenericId<TableName>;
+  /**
+   * Whether the document was inserted, rather than patched.
+   */
+  created: boolean;
+}
+
+/**
+ * A write to a document, as told to the triggers of its table. The document is `None` before it's inserted and after it's deleted.
+ */
+export interface TableChange<
   ConfectDataModel extends GenericConfectDataModel,
+  TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+  Document = ConfectDocumentByName<ConfectDataModel, TableName>,
 > {
+  operation: "insert" | "patch" | "replace" | "delete";
+  id: GenericId<TableName>;
+  oldDocument: Option.Option<Document>;
+  newDocument: Option.Option<Document>;
+}
+
+/**
+ * A `TableChange` with its documents as stored in Convex.
+ */
+export type EncodedTableChange<
+  ConfectDataModel extends GenericConfectDataModel,
+  TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+> = TableChange<
+  ConfectDataModel,
+  TableName,
+  ConfectDataModel[TableName]["encodedConfectDocument"]
+>;
+
+/**
+ * The triggers of each table, with everything they need already provided. They're given documents as stored, so that tables whose triggers don't decode them can still be written to when a document fails to decode.
+ */
+export type TableTriggers<ConfectDataModel extends GenericConfectDataModel> =
+  Record.ReadonlyRecord<
+    string,
+    ReadonlyArray<
+      (
+        change: EncodedTableChange<
+          ConfectDataModel,
+          TableNamesInConfectDataModel<ConfectDataModel>
+        >,
+      ) => Effect.Effect<void>
+    >
+  >;
+
+/**
+ * Decode the documents of a change.
+ */
+export const decodeTableChange = <
+  ConfectDataModel extends GenericConfectDataModel,
+  TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+>(
+  confectSchemaDefinition: GenericConfectSchemaDefinition,
+  tableName: TableName,
+  {
+    oldDocument,
+    newDocument,
+    ...change
+  }: EncodedTableChange<ConfectDataModel, TableName>,
+): Effect.Effect<
+  TableChange<ConfectDataModel, TableName>,
+  DocumentDecodeError
+> => {
+  const tableCodec =
+    databaseCodecsFromConfectSchemaDefinition<ConfectDataModel>(
+      confectSchemaDefinition,
+    )[tableName];
+  const decode = (
+    document: Option.Option<
+      ConfectDataModel[TableName]["encodedConfectDocument"]
+    >,
+  ) =>
+    pipe(
+      document,
+      Option.map((convexDocument) =>
+        decodeDocument(tableName, tableCodec, convexDocument),
+      ),
+      Effect.transposeOption,
+    );
+
+  return Effect.all({
+    oldDocument: decode(oldDocument),
+    newDocument: decode(newDocument),
+  }).pipe(Effect.map((documents) => ({ ...change, ...documents })));
+};
+
+/**
+ * The fields to change in a document. Nested struct fields can be set by their dot-separated path (like `"author.name"`), and any field can be given a function of its current value instead of a new value. `undefined` removes an optional field.
+ */
+export type ConfectPatch<ConfectTableInfo extends GenericConfectTableInfo> = {
+  [FieldPath in ConfectTableInfo["fieldPaths"] as FieldPath extends
+    | "_id"
+    | "_creationTime"
+    ? never
+    : FieldPath]?:
+    | FieldPathValue<ConfectTableInfo["confectDocument"], FieldPath>
+    | ((
+        current: CurrentFieldPathValue<
+          ConfectTableInfo["confectDocument"],
+          FieldPath
+        >,
+      ) => FieldPathValue<ConfectTableInfo["confectDocument"], FieldPath>);
+};
+
+type FieldPathValue<
+  Document,
+  FieldPath extends string,
+> = Document extends unknown
+  ? FieldPath extends keyof Document
+    ? Document[FieldPath]
+    : FieldPath extends `${infer Key}.${infer Rest}`
+      ? Key extends keyof Document
+        ? FieldPathValue<Exclude<Document[Key], undefined>, Rest>
+        : never
+      : never
+  : never;
+
+// A nested field is `undefined` when any of the structs containing it are.
+type CurrentFieldPathValue<
+  Document,
+  FieldPath extends string,
+> = Document extends unknown
+  ? FieldPath extends keyof Document
+    ? Document[FieldPath]
+    : FieldPath extends `${infer Key}.${infer Rest}`
+      ? Key extends keyof Document
+        ?
+            | CurrentFieldPathValue<Exclude<Document[Key], undefined>, Rest>
+            | (undefined extends Document[Key] ? undefined : never)
+        : never
+      : never
+  : never;
+
+export interface ConfectDatabaseWriter<
+  ConfectDataModel extends GenericConfectDataModel,
+> extends ConfectRelationshipReader<ConfectDataModel>,
+    ConfectHistoryReader<ConfectDataModel>,
+    ConfectVersionReader<ConfectDataModel> {
   query<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
     tableName: TableName,
   ): ConfectQueryInitializer<ConfectDataModel[TableName], TableName>;
   get<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
     id: GenericId<TableName>,
   ): Effect.Effect<
-    Option.Option<ConfectDataModel[TableName]["confectDocument"]>
+    Option.Option<ConfectDataModel[TableName]["confectDocument"]>,
+    DocumentDecodeError | TenantMismatch
+  >;
+  get<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    tableName: TableName,
+    id: GenericId<TableName>,
+  ): Effect.Effect<
+    Option.Option<ConfectDataModel[TableName]["confectDocument"]>,
+    DocumentDecodeError | TenantMismatch
   >;
   normalizeId<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
     tableName: TableName,
@@ -554,55 +1936,426 @@ export interface ConfectDatabaseWriter<
     value: WithoutSystemFields<
       ConfectDocumentByName<ConfectDataModel, TableName>
     >,
-  ): Effect.Effect<GenericId<TableName>, ParseResult.ParseError>;
+  ): Effect.Effect<
+    GenericId<TableName>,
+    | ParseResult.ParseError
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+  >;
+  /**
+   * Patch a document. Naming its table, as with `get`, saves looking up which table `id` belongs to in every table; an `id` of another table dies.
+   */
   patch<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
     id: GenericId<TableName>,
-    value: Partial<
-      WithoutSystemFields<ConfectDocumentByName<ConfectDataModel, TableName>>
+    value: ConfectPatch<ConfectDataModel[TableName]>,
+  ): Effect.Effect<
+    void,
+    | ParseResult.ParseError
+    | Cause.NoSuchElementException
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+  >;
+  patch<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    tableName: TableName,
+    id: GenericId<TableName>,
+    value: ConfectPatch<ConfectDataModel[TableName]>,
+  ): Effect.Effect<
+    void,
+    | ParseResult.ParseError
+    | Cause.NoSuchElementException
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+  >;
+  /**
+   * Replace a document. Its table can be named, as with `patch`.
+   */
+  replace<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    id: GenericId<TableName>,
+    value: WithOptionalSystemFields<
+      ConfectDocumentByName<ConfectDataModel, TableName>
     >,
-  ): Effect.Effect<void, ParseResult.ParseError | Cause.NoSuchElementException>;
+  ): Effect.Effect<
+    void,
+    | ParseResult.ParseError
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+  >;
   replace<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    tableName: TableName,
     id: GenericId<TableName>,
     value: WithOptionalSystemFields<
       ConfectDocumentByName<ConfectDataModel, TableName>
     >,
-  ): Effect.Effect<void>;
-  delete(id: GenericId<string>): Effect.Effect<void>;
+  ): Effect.Effect<
+    void,
+    | ParseResult.ParseError
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+  >;
+  /**
+   * Delete a document, applying the referential actions of the documents which refer to it. A document in a soft-delete table is only marked as deleted, and the documents which refer to it are left alone. Its table can be named, as with `patch`.
+   */
+  delete(
+    id: GenericId<string>,
+  ): Effect.Effect<
+    void,
+    ReferencedDocumentError | AccessDenied | TenantMismatch
+  >;
+  delete<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    tableName: TableName,
+    id: GenericId<TableName>,
+  ): Effect.Effect<
+    void,
+    ReferencedDocumentError | AccessDenied | TenantMismatch
+  >;
+  /**
+   * Undelete a document in a soft-delete table. Fails with `UniqueConstraintViolation` if another document has taken one of its unique keys since it was deleted.
+   */
+  restore(
+    id: GenericId<string>,
+  ): Effect.Effect<
+    void,
+    UniqueConstraintViolation | AccessDenied | TenantMismatch
+  >;
+  /**
+   * Delete a document for good, even in a soft-delete table, applying the referential actions of the documents which refer to it. Cascades purge the documents they reach.
+   */
+  purge(
+    id: GenericId<string>,
+  ): Effect.Effect<
+    void,
+    ReferencedDocumentError | AccessDenied | TenantMismatch
+  >;
+  /**
+   * Insert a document, or patch the document with the same index key if there is one. Fails with `NotUniqueError` if more than one document has that index key.
+   */
+  upsert<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    IndexName extends UserIndexNames<ConfectDataModel[TableName]>,
+  >(
+    table: TableName,
+    indexName: IndexName,
+    indexKey: IndexKey<ConfectDataModel[TableName], IndexName>,
+    value: WithoutSystemFields<
+      ConfectDocumentByName<ConfectDataModel, TableName>
+    >,
+  ): Effect.Effect<
+    UpsertResult<TableName>,
+    | ParseResult.ParseError
+    | NotUniqueError
+    | DocumentDecodeError
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+    | TenantIndexError<ConfectDataModel[TableName]>
+  >;
+  /**
+   * Insert many documents. Nothing is inserted unless every value encodes, but documents inserted before a unique constraint violation are only undone if the mutation fails.
+   */
+  insertMany<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    table: TableName,
+    values: ReadonlyArray<
+      WithoutSystemFields<ConfectDocumentByName<ConfectDataModel, TableName>>
+    >,
+  ): Effect.Effect<
+    ReadonlyArray<GenericId<TableName>>,
+    BatchWriteError | UniqueConstraintViolation | AccessDenied | TenantMismatch
+  >;
+  /**
+   * Apply the same patch to many documents. Nothing is patched unless the patch encodes for every document, but documents patched before a unique constraint violation are only undone if the mutation fails.
+   */
+  patchMany<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    ids: ReadonlyArray<GenericId<TableName>>,
+    value: ConfectPatch<ConfectDataModel[TableName]>,
+  ): Effect.Effect<
+    void,
+    BatchWriteError | UniqueConstraintViolation | AccessDenied | TenantMismatch
+  >;
+  deleteMany(
+    ids: ReadonlyArray<GenericId<string>>,
+  ): Effect.Effect<
+    void,
+    ReferencedDocumentError | AccessDenied | TenantMismatch
+  >;
+  /**
+   * Delete every document a query returns, succeeding with how many were deleted.
+   */
+  deleteWhere<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    Policy extends DocumentDecodeErrorPolicy,
+    E = never,
+  >(
+    query: ConfectOrderedQuery<
+      ConfectDataModel[TableName],
+      TableName,
+      Policy,
+      E
+    >,
+  ): Effect.Effect<
+    number,
+    | DocumentDecodeErrorFromPolicy<Policy>
+    | E
+    | ReferencedDocumentError
+    | AccessDenied
+    | TenantMismatch
+  >;
+  /**
+   * Put a document back as a history entry recorded it: as the write left it or, for a delete, as it was before. A deleted document is inserted again, with a new `Id`. Succeeds with the document's `Id`.
+   */
+  restoreVersion(
+    entry: HistoryEntryDocument,
+  ): Effect.Effect<
+    GenericId<TableNamesInConfectDataModel<ConfectDataModel>>,
+    | ParseResult.ParseError
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+  >;
+}
+
+/**
+ * A value to write to a table through a tenant-scoped database, which may leave out the tenant field. See `withTenant`.
+ */
+export type TenantScopedValue<
+  ConfectTableInfo extends GenericConfectTableInfo,
+  Value,
+> = [ConfectTableInfo["tenantField"]] extends [never]
+  ? Value
+  : Expand<
+      BetterOmit<Value, Extract<keyof Value, ConfectTableInfo["tenantField"]>> &
+        Partial<
+          Pick<Value, Extract<keyof Value, ConfectTableInfo["tenantField"]>>
+        >
+    >;
+
+/**
+ * A database writer scoped to one tenant, which fills in the tenant field of the documents it inserts. See `withTenant`.
+ */
+export interface ConfectTenantDatabaseWriter<
+  ConfectDataModel extends GenericConfectDataModel,
+> extends Omit<
+    ConfectDatabaseWriter<ConfectDataModel>,
+    "insert" | "upsert" | "insertMany"
+  > {
+  insert<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    table: TableName,
+    value: TenantScopedValue<
+      ConfectDataModel[TableName],
+      WithoutSystemFields<ConfectDocumentByName<ConfectDataModel, TableName>>
+    >,
+  ): Effect.Effect<
+    GenericId<TableName>,
+    | ParseResult.ParseError
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+  >;
+  upsert<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    IndexName extends UserIndexNames<ConfectDataModel[TableName]>,
+  >(
+    table: TableName,
+    indexName: IndexName,
+    indexKey: IndexKey<ConfectDataModel[TableName], IndexName>,
+    value: TenantScopedValue<
+      ConfectDataModel[TableName],
+      WithoutSystemFields<ConfectDocumentByName<ConfectDataModel, TableName>>
+    >,
+  ): Effect.Effect<
+    UpsertResult<TableName>,
+    | ParseResult.ParseError
+    | NotUniqueError
+    | DocumentDecodeError
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+    | TenantIndexError<ConfectDataModel[TableName]>
+  >;
+  insertMany<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    table: TableName,
+    values: ReadonlyArray<
+      TenantScopedValue<
+        ConfectDataModel[TableName],
+        WithoutSystemFields<ConfectDocumentByName<ConfectDataModel, TableName>>
+      >
+    >,
+  ): Effect.Effect<
+    ReadonlyArray<GenericId<TableName>>,
+    BatchWriteError | UniqueConstraintViolation | AccessDenied | TenantMismatch
+  >;
 }
 
 export class ConfectDatabaseWriterImpl<
   ConfectDataModel extends GenericConfectDataModel,
-> implements ConfectDatabaseWriter<ConfectDataModel>
+> implements
+    ConfectDatabaseWriter<ConfectDataModel>,
+    ConfectTenantDatabaseWriter<ConfectDataModel>
 {
-  databaseSchemas: DatabaseSchemasFromConfectDataModel<ConfectDataModel>;
+  confectSchemaDefinition: GenericConfectSchemaDefinition;
+  tableCodecs: DatabaseCodecsFromConfectDataModel<ConfectDataModel>;
   db: GenericDatabaseWriter<DataModelFromConfectDataModel<ConfectDataModel>>;
-  reader: ConfectDatabaseReader<ConfectDataModel>;
+  reader: ConfectDatabaseReaderImpl<ConfectDataModel>;
+  triggers: TableTriggers<ConfectDataModel>;
+  rules: DatabaseRules;
+  tenantId: Option.Option<string>;
+  tableNameResolver: TableNameResolver<
+    TableNamesInConfectDataModel<ConfectDataModel>
+  >;
   constructor(
     db: GenericDatabaseWriter<DataModelFromConfectDataModel<ConfectDataModel>>,
-    databaseSchemas: DatabaseSchemasFromConfectDataModel<ConfectDataModel>,
+    confectSchemaDefinition: GenericConfectSchemaDefinition,
+    triggers: TableTriggers<ConfectDataModel> = {},
+    rules: DatabaseRules = {},
+    tenantId: Option.Option<string> = Option.none(),
   ) {
     this.db = db;
-    this.databaseSchemas = databaseSchemas;
-    this.reader = new ConfectDatabaseReaderImpl(db, databaseSchemas);
+    this.confectSchemaDefinition = confectSchemaDefinition;
+    this.triggers = triggers;
+    this.rules = rules;
+    this.tenantId = tenantId;
+    this.tableCodecs = databaseCodecsFromConfectSchemaDefinition(
+      confectSchemaDefinition,
+    );
+    this.tableNameResolver = new TableNameResolver(
+      tableNamesInConfectSchemaDefinition(confectSchemaDefinition),
+      (tableName, id) => this.normalizeId(tableName, id),
+    );
+    this.reader = new ConfectDatabaseReaderImpl(
+      db,
+      confectSchemaDefinition,
+      this.tableNameResolver,
+      rules,
+      tenantId,
+    );
   }
   tableName(
     id: GenericId<TableNamesInConfectDataModel<ConfectDataModel>>,
   ): Option.Option<TableNamesInConfectDataModel<ConfectDataModel>> {
-    return Array.findFirst(Record.keys(this.databaseSchemas), (tableName) =>
-      Option.isSome(this.normalizeId(tableName, id)),
-    );
+    return this.tableNameResolver.resolve(id);
   }
   query<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
     tableName: TableName,
   ): ConfectQueryInitializer<ConfectDataModel[TableName], TableName> {
     return this.reader.query(tableName);
   }
+  getOneFrom<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    IndexName extends UserIndexNames<ConfectDataModel[TableName]>,
+  >(
+    table: TableName,
+    indexName: IndexName,
+    value: FirstIndexFieldValue<ConfectDataModel[TableName], IndexName>,
+  ): Effect.Effect<
+    Option.Option<ConfectDataModel[TableName]["confectDocument"]>,
+    | ParseResult.ParseError
+    | NotUniqueError
+    | DocumentDecodeError
+    | TenantIndexError<ConfectDataModel[TableName]>
+  > {
+    return this.reader.getOneFrom(table, indexName, value);
+  }
+  getManyFrom<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    IndexName extends UserIndexNames<ConfectDataModel[TableName]>,
+  >(
+    table: TableName,
+    indexName: IndexName,
+    value: FirstIndexFieldValue<ConfectDataModel[TableName], IndexName>,
+  ): Effect.Effect<
+    ReadonlyArray<ConfectDataModel[TableName]["confectDocument"]>,
+    | ParseResult.ParseError
+    | DocumentDecodeError
+    | TenantIndexError<ConfectDataModel[TableName]>
+  > {
+    return this.reader.getManyFrom(table, indexName, value);
+  }
+  getManyVia<
+    JoinTableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    ToField extends IdFieldName<
+      ConfectDataModel[JoinTableName]["confectDocument"]
+    >,
+    IndexName extends UserIndexNames<ConfectDataModel[JoinTableName]>,
+  >(
+    joinTable: JoinTableName,
+    toField: ToField,
+    indexName: IndexName,
+    value: FirstIndexFieldValue<ConfectDataModel[JoinTableName], IndexName>,
+  ): Effect.Effect<
+    ReadonlyArray<
+      ConfectDataModel[RelatedTableName<
+        ConfectDataModel,
+        ConfectDataModel[JoinTableName]["confectDocument"],
+        ToField
+      >]["confectDocument"]
+    >,
+    | ParseResult.ParseError
+    | DocumentDecodeError
+    | TenantMismatch
+    | TenantIndexError<ConfectDataModel[JoinTableName]>
+  > {
+    return this.reader.getManyVia(joinTable, toField, indexName, value);
+  }
+  related<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    FieldName extends IdFieldName<
+      ConfectDataModel[TableName]["confectDocument"]
+    >,
+  >(
+    document: ConfectDataModel[TableName]["confectDocument"] & {
+      readonly _id: GenericId<TableName>;
+    },
+    fieldName: FieldName,
+  ): Effect.Effect<
+    Option.Option<
+      ConfectDataModel[RelatedTableName<
+        ConfectDataModel,
+        ConfectDataModel[TableName]["confectDocument"],
+        FieldName
+      >]["confectDocument"]
+    >,
+    DocumentDecodeError | TenantMismatch
+  > {
+    return this.reader.related(document, fieldName);
+  }
+  history(
+    id: GenericId<TableNamesInConfectDataModel<ConfectDataModel>>,
+  ): Effect.Effect<ReadonlyArray<HistoryEntryDocument>, TenantMismatch> {
+    return this.reader.history(id);
+  }
+  countOldVersions(
+    tableName: TableNamesInConfectDataModel<ConfectDataModel>,
+  ): Effect.Effect<ReadonlyArray<number>> {
+    return this.reader.countOldVersions(tableName);
+  }
+  get<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    id: GenericId<TableName>,
+  ): Effect.Effect<
+    Option.Option<ConfectDataModel[TableName]["confectDocument"]>,
+    DocumentDecodeError | TenantMismatch
+  >;
   get<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    tableName: TableName,
     id: GenericId<TableName>,
   ): Effect.Effect<
-    Option.Option<ConfectDataModel[TableName]["confectDocument"]>
+    Option.Option<ConfectDataModel[TableName]["confectDocument"]>,
+    DocumentDecodeError | TenantMismatch
+  >;
+  get<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    ...args:
+      | [id: GenericId<TableName>]
+      | [tableName: TableName, id: GenericId<TableName>]
+  ): Effect.Effect<
+    Option.Option<ConfectDataModel[TableName]["confectDocument"]>,
+    DocumentDecodeError | TenantMismatch
   > {
-    return this.reader.get(id);
+    return args.length === 1
+      ? this.reader.get(args[0])
+      : this.reader.get(args[0], args[1]);
   }
   normalizeId<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
     tableName: TableName,
@@ -612,17 +2365,463 @@ export class ConfectDatabaseWriterImpl<
   }
   insert<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
     table: TableName,
-    value: WithoutSystemFields<
-      ConfectDocumentByName<ConfectDataModel, TableName>
+    value: TenantScopedValue<
+      ConfectDataModel[TableName],
+      WithoutSystemFields<ConfectDocumentByName<ConfectDataModel, TableName>>
     >,
-  ): Effect.Effect<GenericId<TableName>, ParseResult.ParseError> {
+  ): Effect.Effect<
+    GenericId<TableName>,
+    | ParseResult.ParseError
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+  > {
     return pipe(
-      value,
-      Schema.encode(this.databaseSchemas[table]),
+      this.assignTenant(table, value),
+      Effect.tap((value) => this.checkInsertRule(table, value)),
+      Effect.andThen(this.tableCodecs[table].encodeFields),
+      Effect.tap((encodedValue) =>
+        this.checkUniqueConstraints(table, encodedValue),
+      ),
       Effect.andThen((encodedValue) =>
+        this.withTriggers(
+          table,
+          "insert",
+          Effect.promise(() =>
+            this.db.insert(
+              table,
+              encodedValue as Expand<
+                BetterOmit<
+                  DocumentByName<
+                    DataModelFromConfectDataModel<ConfectDataModel>,
+                    TableName
+                  >,
+                  "_creationTime" | "_id"
+                >
+              >,
+            ),
+          ).pipe(
+            Effect.tap((id) => this.tableNameResolver.remember(id, table)),
+          ),
+        ),
+      ),
+    );
+  }
+  patch<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    id: GenericId<TableName>,
+    value: ConfectPatch<ConfectDataModel[TableName]>,
+  ): Effect.Effect<
+    void,
+    | ParseResult.ParseError
+    | Cause.NoSuchElementException
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+  >;
+  patch<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    tableName: TableName,
+    id: GenericId<TableName>,
+    value: ConfectPatch<ConfectDataModel[TableName]>,
+  ): Effect.Effect<
+    void,
+    | ParseResult.ParseError
+    | Cause.NoSuchElementException
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+  >;
+  patch<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    ...args:
+      | [
+          id: GenericId<TableName>,
+          value: ConfectPatch<ConfectDataModel[TableName]>,
+        ]
+      | [
+          tableName: TableName,
+          id: GenericId<TableName>,
+          value: ConfectPatch<ConfectDataModel[TableName]>,
+        ]
+  ): Effect.Effect<
+    void,
+    | ParseResult.ParseError
+    | Cause.NoSuchElementException
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+  > {
+    return args.length === 2
+      ? this.preparePatch(args[0], args[1]).pipe(Effect.flatten)
+      : this.resolveNamedTable(args[0], args[1]).pipe(
+          Effect.andThen(this.preparePatch(args[1], args[2])),
+          Effect.flatten,
+        );
+  }
+  /**
+   * Remember that `id` belongs to the table a write named, so that the write doesn't look it up. Dies if it belongs to another table.
+   */
+  resolveNamedTable(
+    tableName: TableNamesInConfectDataModel<ConfectDataModel>,
+    id: GenericId<string>,
+  ): Effect.Effect<void> {
+    return this.tableNameResolver
+      .resolveIn(tableName, id)
+      .pipe(Effect.orDie, Effect.asVoid);
+  }
+  /**
+   * Encode a patch without writing it, so that many patches can all be checked before any of them are written. Succeeds with the write.
+   */
+  preparePatch<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+  >(
+    id: GenericId<TableName>,
+    value: ConfectPatch<ConfectDataModel[TableName]>,
+  ): Effect.Effect<
+    Effect.Effect<
+      void,
+      UniqueConstraintViolation | AccessDenied | TenantMismatch
+    >,
+    ParseResult.ParseError | Cause.NoSuchElementException
+  > {
+    return Effect.gen(this, function* () {
+      const tableName = yield* this.tableName(id);
+      const tableCodec = this.tableCodecs[tableName];
+      const patch: Record.ReadonlyRecord<string, unknown> = value;
+      const checkRule = pipe(
+        this.checkTenant(tableName, id, patch),
+        Effect.andThen(this.checkDocumentRule(tableName, "modify", id)),
+      );
+
+      return yield* Option.match(tableCodec.encodePatch, {
+        onSome: (encodePatch) =>
+          pipe(
+            isShallowPatch(patch)
+              ? Effect.succeed(patch)
+              : this.readFields(id, tableCodec).pipe(
+                  Effect.map((fields) => resolvePatch(fields, patch)),
+                ),
+            Effect.andThen(encodePatch),
+            Effect.map((encodedPatch) =>
+              pipe(
+                checkRule,
+                Effect.andThen(
+                  this.checkModifiedDocumentRule(
+                    tableName,
+                    id,
+                    (convexDocument) =>
+                      Record.filter(
+                        { ...convexDocument, ...encodedPatch },
+                        Predicate.isNotUndefined,
+                      ),
+                  ),
+                ),
+                Effect.andThen(
+                  this.checkPatchUniqueConstraints(tableName, id, encodedPatch),
+                ),
+                Effect.andThen(
+                  this.withTriggers(
+                    tableName,
+                    "patch",
+                    Effect.promise(() =>
+                      this.db.patch(
+                        id,
+                        encodedPatch as Partial<
+                          DocumentByName<
+                            DataModelFromConfectDataModel<ConfectDataModel>,
+                            TableName
+                          >
+                        >,
+                      ),
+                    ).pipe(Effect.as(id)),
+                    id,
+                  ),
+                ),
+              ),
+            ),
+          ),
+        // Fields can only be encoded together, so the whole document is re-encoded and replaced.
+        onNone: () =>
+          pipe(
+            this.readFields(id, tableCodec),
+            Effect.map((fields) =>
+              Record.reduce(
+                resolvePatch(fields, patch),
+                fields,
+                (acc, value, key) =>
+                  value === undefined
+                    ? Record.remove(acc, key)
+                    : Record.set(acc, key, value),
+              ),
+            ),
+            Effect.andThen(tableCodec.encodeFields),
+            Effect.map((encodedFields) =>
+              pipe(
+                checkRule,
+                Effect.andThen(
+                  this.checkModifiedDocumentRule(
+                    tableName,
+                    id,
+                    withSystemFieldsOf(encodedFields),
+                  ),
+                ),
+                Effect.andThen(
+                  this.checkUniqueConstraints(tableName, encodedFields, id),
+                ),
+                Effect.andThen(
+                  this.withTriggers(
+                    tableName,
+                    "patch",
+                    Effect.promise(() =>
+                      this.db.replace(
+                        id,
+                        encodedFields as Expand<
+                          BetterOmit<
+                            DocumentByName<
+                              DataModelFromConfectDataModel<ConfectDataModel>,
+                              TableName
+                            >,
+                            "_creationTime" | "_id"
+                          >
+                        >,
+                      ),
+                    ).pipe(Effect.as(id)),
+                    id,
+                  ),
+                ),
+              ),
+            ),
+          ),
+      });
+    });
+  }
+  /**
+   * Fail if another document in the table has the same values as `fields` for every field of one of the table's unique constraints. Soft-deleted documents don't hold their keys, and keys of tenant tables are only unique within the document's tenant.
+   */
+  checkUniqueConstraints<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+  >(
+    tableName: TableName,
+    fields: Record.ReadonlyRecord<string, unknown>,
+    id?: GenericId<TableName>,
+  ): Effect.Effect<void, UniqueConstraintViolation> {
+    const tableDefinition =
+      this.confectSchemaDefinition.confectSchema[tableName];
+
+    return Effect.forEach(
+      tableDefinition?.uniqueConstraints ?? [],
+      (constraintName) => {
+        const key = Record.fromIterableWith(
+          tableDefinition?.indexFields[constraintName] ?? [],
+          (fieldPath) => [fieldPath, fieldPathValue(fields, fieldPath)],
+        );
+
+        return Record.some(key, Predicate.isUndefined)
+          ? Effect.void
+          : pipe(
+              Effect.promise(() => {
+                const query = this.db
+                  .query(tableName)
+                  .withIndex(constraintName, indexKeyRange(key));
+
+                const undeleted = softDeletes(
+                  this.confectSchemaDefinition,
+                  tableName,
+                )
+                  ? query.filter(isNotDeleted)
+                  : query;
+
+                return Option.match(
+                  Record.get(this.confectSchemaDefinition.tenants, tableName),
+                  {
+                    onNone: () => undeleted,
+                    onSome: ({ fieldName }) =>
+                      undeleted.filter((q) =>
+                        q.eq(q.field(fieldName), fields[fieldName] as any),
+                      ),
+                  },
+                ).take(2);
+              }),
+              Effect.map(Array.findFirst(({ _id }) => _id !== id)),
+              Effect.flatMap(
+                Option.match({
+                  onNone: () => Effect.void,
+                  onSome: ({ _id }) =>
+                    Effect.fail(
+                      new UniqueConstraintViolation({
+                        tableName,
+                        constraintName,
+                        conflictingId: _id as GenericId<TableName>,
+                      }),
+                    ),
+                }),
+              ),
+            );
+      },
+      { discard: true },
+    );
+  }
+  /**
+   * Check the table's unique constraints against a document as it will be once `encodedPatch` is applied, unless the patch leaves every constrained field alone.
+   */
+  checkPatchUniqueConstraints<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+  >(
+    tableName: TableName,
+    id: GenericId<TableName>,
+    encodedPatch: Record.ReadonlyRecord<string, unknown>,
+  ): Effect.Effect<void, UniqueConstraintViolation> {
+    const tableDefinition =
+      this.confectSchemaDefinition.confectSchema[tableName];
+    const patchesConstrainedField = Array.some(
+      tableDefinition?.uniqueConstraints ?? [],
+      (constraintName) =>
+        Array.some(
+          tableDefinition?.indexFields[constraintName] ?? [],
+          (fieldPath) =>
+            Record.has(encodedPatch, String.split(fieldPath, ".")[0]),
+        ),
+    );
+
+    return patchesConstrainedField
+      ? pipe(
+          Effect.promise(() => this.db.get(id)),
+          Effect.map((doc) =>
+            Record.reduce(
+              encodedPatch,
+              (doc ?? {}) as Record.ReadonlyRecord<string, unknown>,
+              (acc, value, key) =>
+                value === undefined
+                  ? Record.remove(acc, key)
+                  : Record.set(acc, key, value),
+            ),
+          ),
+          Effect.andThen((fields) =>
+            this.checkUniqueConstraints(tableName, fields, id),
+          ),
+        )
+      : Effect.void;
+  }
+  /**
+   * Read and decode the fields of a document which is about to be patched.
+   */
+  readFields<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    id: GenericId<TableName>,
+    tableCodec: TableCodec<
+      ConfectDataModel[TableName]["confectDocument"],
+      ConfectDataModel[TableName]["encodedConfectDocument"]
+    >,
+  ): Effect.Effect<
+    Record.ReadonlyRecord<string, unknown>,
+    ParseResult.ParseError
+  > {
+    return Effect.promise(() => this.db.get(id)).pipe(
+      Effect.andThen(
+        (
+          doc: DocumentByName<
+            DataModelFromConfectDataModel<ConfectDataModel>,
+            TableName
+          > | null,
+        ) =>
+          doc
+            ? Effect.succeed(doc)
+            : Effect.die(new InvalidIdProvidedForPatch()),
+      ),
+      Effect.andThen(tableCodec.decodeFields),
+    );
+  }
+  replace<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    id: GenericId<TableName>,
+    value: WithOptionalSystemFields<
+      ConfectDocumentByName<ConfectDataModel, TableName>
+    >,
+  ): Effect.Effect<
+    void,
+    | ParseResult.ParseError
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+  >;
+  replace<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    tableName: TableName,
+    id: GenericId<TableName>,
+    value: WithOptionalSystemFields<
+      ConfectDocumentByName<ConfectDataModel, TableName>
+    >,
+  ): Effect.Effect<
+    void,
+    | ParseResult.ParseError
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+  >;
+  replace<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    ...args:
+      | [
+          id: GenericId<TableName>,
+          value: WithOptionalSystemFields<
+            ConfectDocumentByName<ConfectDataModel, TableName>
+          >,
+        ]
+      | [
+          tableName: TableName,
+          id: GenericId<TableName>,
+          value: WithOptionalSystemFields<
+            ConfectDocumentByName<ConfectDataModel, TableName>
+          >,
+        ]
+  ): Effect.Effect<
+    void,
+    | ParseResult.ParseError
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+  > {
+    return args.length === 2
+      ? this.replaceDocument(args[0], args[1])
+      : this.resolveNamedTable(args[0], args[1]).pipe(
+          Effect.andThen(this.replaceDocument(args[1], args[2])),
+        );
+  }
+  replaceDocument<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+  >(
+    id: GenericId<TableName>,
+    value: WithOptionalSystemFields<
+      ConfectDocumentByName<ConfectDataModel, TableName>
+    >,
+  ): Effect.Effect<
+    void,
+    | ParseResult.ParseError
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+  > {
+    return Effect.gen(this, function* () {
+      const tableName = yield* this.tableName(id).pipe(Effect.orDie);
+
+      yield* this.checkTenant(tableName, id);
+      yield* this.checkDocumentRule(tableName, "modify", id);
+
+      const encodedValue = yield* pipe(
+        this.assignTenant(
+          tableName,
+          Struct.omit(value, "_id", "_creationTime"),
+        ),
+        Effect.andThen(this.tableCodecs[tableName].encodeFields),
+      );
+
+      yield* this.checkModifiedDocumentRule(
+        tableName,
+        id,
+        withSystemFieldsOf(encodedValue),
+      );
+      yield* this.checkUniqueConstraints(tableName, encodedValue, id);
+
+      yield* this.withTriggers(
+        tableName,
+        "replace",
         Effect.promise(() =>
-          this.db.insert(
-            table,
+          this.db.replace(
+            id,
             encodedValue as Expand<
               BetterOmit<
                 DocumentByName<
@@ -633,109 +2832,1065 @@ export class ConfectDatabaseWriterImpl<
               >
             >,
           ),
-        ),
-      ),
-    );
+        ).pipe(Effect.as(id)),
+        id,
+      );
+    });
   }
-  patch<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+  delete(
+    id: GenericId<string>,
+  ): Effect.Effect<
+    void,
+    ReferencedDocumentError | AccessDenied | TenantMismatch
+  >;
+  delete<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    tableName: TableName,
     id: GenericId<TableName>,
-    value: Partial<
-      WithoutSystemFields<ConfectDocumentByName<ConfectDataModel, TableName>>
-    >,
   ): Effect.Effect<
     void,
-    ParseResult.ParseError | Cause.NoSuchElementException
+    ReferencedDocumentError | AccessDenied | TenantMismatch
+  >;
+  delete<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    ...args:
+      | [id: GenericId<string>]
+      | [tableName: TableName, id: GenericId<TableName>]
+  ): Effect.Effect<
+    void,
+    ReferencedDocumentError | AccessDenied | TenantMismatch
+  > {
+    return args.length === 1
+      ? this.deleteDocument(args[0])
+      : this.resolveNamedTable(args[0], args[1]).pipe(
+          Effect.andThen(this.deleteDocument(args[1])),
+        );
+  }
+  deleteDocument(
+    id: GenericId<string>,
+  ): Effect.Effect<
+    void,
+    ReferencedDocumentError | AccessDenied | TenantMismatch
+  > {
+    return Record.isEmptyRecord(this.rules) &&
+      Option.isNone(this.tenantId) &&
+      !Record.some(
+        this.confectSchemaDefinition.confectSchema,
+        (tableDefinition) => tableDefinition.softDeletes,
+      )
+      ? this.purgeDocument(id)
+      : Effect.gen(this, function* () {
+          const tableName = yield* this.tableName(id).pipe(Effect.orDie);
+
+          yield* this.checkTenant(tableName, id);
+          yield* this.checkDocumentRule(tableName, "delete", id);
+          yield* softDeletes(this.confectSchemaDefinition, tableName)
+            ? this.setDeletedAt(tableName, id, yield* Clock.currentTimeMillis)
+            : this.purgeDocument(id);
+        });
+  }
+  restore(
+    id: GenericId<string>,
+  ): Effect.Effect<
+    void,
+    UniqueConstraintViolation | AccessDenied | TenantMismatch
   > {
     return Effect.gen(this, function* () {
-      const tableName = yield* this.tableName(id);
-      const tableSchema = this.databaseSchemas[tableName];
-
-      const originalConvexDoc = yield* Effect.promise(() =>
-        this.db.get(id),
-      ).pipe(
-        Effect.andThen(
-          (
-            doc: DocumentByName<
-              DataModelFromConfectDataModel<ConfectDataModel>,
-              TableName
-            > | null,
-          ) =>
-            doc
-              ? Effect.succeed(doc)
-              : Effect.die(new InvalidIdProvidedForPatch()),
+      const tableName = yield* this.tableName(id).pipe(Effect.orDie);
+
+      if (!softDeletes(this.confectSchemaDefinition, tableName)) {
+        return yield* Effect.dieMessage(
+          `Documents in table "${tableName}" can't be restored because it doesn't soft-delete`,
+        );
+      }
+
+      yield* this.checkTenant(tableName, id);
+      yield* this.checkDocumentRule(tableName, "modify", id);
+      yield* pipe(
+        this.writtenDocument(id),
+        Effect.flatMap(
+          Option.match({
+            onNone: () => Effect.void,
+            onSome: (document) =>
+              this.checkUniqueConstraints(tableName, document, id),
+          }),
         ),
       );
+      yield* this.setDeletedAt(tableName, id, undefined);
+    });
+  }
+  /**
+   * Mark a document in a soft-delete table as deleted at `deletedAt`, or as not deleted.
+   */
+  setDeletedAt<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+  >(
+    tableName: TableName,
+    id: GenericId<TableName>,
+    deletedAt: number | undefined,
+  ): Effect.Effect<void> {
+    return this.withTriggers(
+      tableName,
+      "patch",
+      Effect.promise(() =>
+        this.db.patch(id, { deletedAt } as Partial<
+          DocumentByName<
+            DataModelFromConfectDataModel<ConfectDataModel>,
+            TableName
+          >
+        >),
+      ).pipe(Effect.as(id)),
+      id,
+    );
+  }
+  purge(
+    id: GenericId<string>,
+  ): Effect.Effect<
+    void,
+    ReferencedDocumentError | AccessDenied | TenantMismatch
+  > {
+    return Record.isEmptyRecord(this.rules) && Option.isNone(this.tenantId)
+      ? this.purgeDocument(id)
+      : Effect.gen(this, function* () {
+          const tableName = yield* this.tableName(id).pipe(Effect.orDie);
+
+          yield* this.checkTenant(tableName, id);
+          yield* this.checkDocumentRule(tableName, "delete", id);
+          yield* this.purgeDocument(id);
+        });
+  }
+  /**
+   * Delete a document for good, without checking its own rules. Every other document the delete cascades to or unsets a field of is checked against the tenant and its table's rules.
+   */
+  purgeDocument(
+    id: GenericId<string>,
+  ): Effect.Effect<
+    void,
+    ReferencedDocumentError | AccessDenied | TenantMismatch
+  > {
+    const references = this.confectSchemaDefinition.references;
+
+    return Record.isEmptyRecord(references) &&
+      Record.isEmptyRecord(this.triggers)
+      ? Effect.promise(() => this.db.delete(id))
+      : Effect.gen(this, function* () {
+          const tableName = yield* this.tableName(id).pipe(Effect.orDie);
+          const { deletions, unsets } = yield* this.deletionPlan(tableName, id);
+          const deletedIds = new Set<string>(
+            Array.map(deletions, (deletion) => deletion.id),
+          );
+
+          // Every `restrict` reference in the cascade is checked before anything is written, so a failed delete leaves nothing half-done.
+          yield* Effect.forEach(
+            deletions,
+            (deletion) =>
+              Effect.forEach(
+                Array.filter(
+                  references[deletion.tableName] ?? [],
+                  ({ onDelete }) => onDelete === "restrict",
+                ),
+                (reference) =>
+                  pipe(
+                    this.referringIds(reference, deletion.id),
+                    Effect.map(
+                      Array.findFirst(
+                        (referringId) => !deletedIds.has(referringId),
+                      ),
+                    ),
+                    Effect.flatMap(
+                      Option.match({
+                        onNone: () => Effect.void,
+                        onSome: (referringId) =>
+                          Effect.fail(
+                            new ReferencedDocumentError({
+                              tableName: deletion.tableName,
+                              id: deletion.id,
+                              referringTableName: reference.tableName,
+                              referringId,
+                              fieldName: reference.fieldName,
+                            }),
+                          ),
+                      }),
+                    ),
+                  ),
+                { discard: true },
+              ),
+            { discard: true },
+          );
+
+          const patchedUnsets = Array.filter(
+            unsets,
+            (unset) => !deletedIds.has(unset.id),
+          );
+
+          // As are the tenant and the rules of every document the delete reaches.
+          yield* Effect.forEach(
+            Array.drop(deletions, 1),
+            (deletion) =>
+              pipe(
+                this.checkTenant(deletion.tableName, deletion.id),
+                Effect.andThen(
+                  this.checkDocumentRule(
+                    deletion.tableName,
+                    "delete",
+                    deletion.id,
+                  ),
+                ),
+              ),
+            { discard: true },
+          );
+          yield* Effect.forEach(
+            patchedUnsets,
+            ({ reference, id: referringId }) =>
+              pipe(
+                this.checkTenant(reference.tableName, referringId),
+                Effect.andThen(
+                  this.checkDocumentRule(
+                    reference.tableName,
+                    "modify",
+                    referringId,
+                  ),
+                ),
+                Effect.andThen(
+                  this.checkModifiedDocumentRule(
+                    reference.tableName,
+                    referringId,
+                    Record.remove(reference.fieldName),
+                  ),
+                ),
+              ),
+            { discard: true },
+          );
 
-      const originalConfectDoc =
-        yield* Schema.decodeUnknown(tableSchema)(originalConvexDoc);
+          yield* Effect.forEach(
+            deletions,
+            (deletion) =>
+              this.withTriggers(
+                deletion.tableName,
+                "delete",
+                Effect.promise(() => this.db.delete(deletion.id)).pipe(
+                  Effect.as(deletion.id),
+                ),
+                deletion.id,
+              ),
+            { discard: true },
+          );
 
-      const updatedConvexDoc = yield* pipe(
-        value,
-        Record.reduce(originalConfectDoc, (acc, value, key) =>
-          value === undefined
-            ? Record.remove(acc, key)
-            : Record.set(acc, key, value),
+          yield* Effect.forEach(
+            patchedUnsets,
+            ({ reference, id: referringId }) =>
+              this.withTriggers(
+                reference.tableName,
+                "patch",
+                Effect.promise(() =>
+                  this.db.patch(referringId, {
+                    [reference.fieldName]: undefined,
+                  } as Partial<
+                    DocumentByName<
+                      DataModelFromConfectDataModel<ConfectDataModel>,
+                      TableNamesInConfectDataModel<ConfectDataModel>
+                    >
+                  >),
+                ).pipe(Effect.as(referringId)),
+                referringId,
+              ),
+            { discard: true },
+          );
+        });
+  }
+  /**
+   * The documents which deleting `id` deletes, starting with it and following `cascade` references, and the fields of other documents which it unsets.
+   */
+  deletionPlan(
+    tableName: TableNamesInConfectDataModel<ConfectDataModel>,
+    id: GenericId<string>,
+  ): Effect.Effect<{
+    readonly deletions: ReadonlyArray<{
+      readonly tableName: TableNamesInConfectDataModel<ConfectDataModel>;
+      readonly id: GenericId<string>;
+    }>;
+    readonly unsets: ReadonlyArray<{
+      readonly reference: Reference;
+      readonly id: GenericId<TableNamesInConfectDataModel<ConfectDataModel>>;
+    }>;
+  }> {
+    const references = this.confectSchemaDefinition.references;
+
+    return Effect.gen(this, function* () {
+      const deletions = [{ tableName, id }];
+      const unsets: Array<{
+        readonly reference: Reference;
+        readonly id: GenericId<TableNamesInConfectDataModel<ConfectDataModel>>;
+      }> = [];
+      const plannedIds = new Set<string>([id]);
+
+      // Only documents not yet planned are added, so that cascades through cycles of references end.
+      for (const deletion of deletions) {
+        for (const reference of references[deletion.tableName] ?? []) {
+          if (reference.onDelete === "restrict") {
+            continue;
+          }
+
+          for (const referringId of yield* this.referringIds(
+            reference,
+            deletion.id,
+          )) {
+            if (reference.onDelete === "unset") {
+              unsets.push({ reference, id: referringId });
+            } else if (!plannedIds.has(referringId)) {
+              plannedIds.add(referringId);
+              deletions.push({
+                tableName: reference.tableName,
+                id: referringId,
+              });
+            }
+          }
+        }
+      }
+
+      return { deletions, unsets };
+    });
+  }
+  /**
+   * The `Id`s of the documents which refer to `id` through `reference`.
+   */
+  referringIds(
+    reference: Reference,
+    id: GenericId<string>,
+  ): Effect.Effect<
+    ReadonlyArray<GenericId<TableNamesInConfectDataModel<ConfectDataModel>>>
+  > {
+    return pipe(
+      Effect.promise(() =>
+        this.db
+          .query(reference.tableName)
+          .withIndex(
+            reference.indexName,
+            indexKeyRange({ [reference.fieldName]: id }),
+          )
+          .collect(),
+      ),
+      Effect.map(
+        Array.map(
+          (document) =>
+            // biome-ignore lint/complexity/useLiteralKeys:
+            document["_id"] as GenericId<
+              TableNamesInConfectDataModel<ConfectDataModel>
+            >,
         ),
-        Schema.encodeUnknown(tableSchema),
-      );
+      ),
+    );
+  }
+  /**
+   * Run `write`, which succeeds with the `Id` of the document it writes, then the table's triggers. `id` is the document's `Id`, unless it's being inserted.
+   */
+  withTriggers<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    E,
+  >(
+    tableName: TableName,
+    operation: TableChange<ConfectDataModel, TableName>["operation"],
+    write: Effect.Effect<GenericId<TableName>, E>,
+    id?: GenericId<TableName>,
+  ): Effect.Effect<GenericId<TableName>, E> {
+    const triggers = this.triggers[tableName] ?? [];
 
-      yield* Effect.promise(() =>
-        this.db.replace(
-          id,
-          updatedConvexDoc as Expand<
-            BetterOmit<
-              DocumentByName<
-                DataModelFromConfectDataModel<ConfectDataModel>,
-                TableName
-              >,
-              "_creationTime" | "_id"
-            >
-          >,
+    return Array.isEmptyReadonlyArray(triggers)
+      ? write
+      : Effect.gen(this, function* () {
+          const oldDocument =
+            id === undefined ? Option.none() : yield* this.writtenDocument(id);
+          const writtenId = yield* write;
+          const newDocument =
+            operation === "delete"
+              ? Option.none()
+              : yield* this.writtenDocument(writtenId);
+
+          yield* Effect.forEach(
+            triggers,
+            (trigger) =>
+              trigger({ operation, id: writtenId, oldDocument, newDocument }),
+            { discard: true },
+          );
+
+          return writtenId;
+        });
+  }
+  /**
+   * Fail with `AccessDenied` unless the table's `insert` rule allows inserting `value`.
+   */
+  checkInsertRule<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+  >(tableName: TableName, value: unknown): Effect.Effect<void, AccessDenied> {
+    const rule = this.rules[tableName]?.insert;
+
+    return rule === undefined
+      ? Effect.void
+      : rule(value).pipe(
+          Effect.filterOrFail(
+            identity,
+            () => new AccessDenied({ tableName, operation: "insert" }),
+          ),
+          Effect.asVoid,
+        );
+  }
+  /**
+   * Fail with `AccessDenied` unless the table's `modify` or `delete` rule allows writing to the document as it is now. A document which doesn't exist is left to the write to deal with.
+   */
+  checkDocumentRule<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+  >(
+    tableName: TableName,
+    operation: "modify" | "delete",
+    id: GenericId<string>,
+  ): Effect.Effect<void, AccessDenied> {
+    const rule = this.rules[tableName]?.[operation];
+
+    return rule === undefined
+      ? Effect.void
+      : Effect.gen(this, function* () {
+          const convexDocument = yield* Effect.promise(() => this.db.get(id));
+
+          if (convexDocument !== null) {
+            const document = yield* decodeDocument(
+              tableName,
+              this.tableCodecs[tableName],
+              convexDocument,
+            ).pipe(Effect.orDie);
+
+            if (!(yield* rule(document))) {
+              return yield* new AccessDenied({ tableName, operation, id });
+            }
+          }
+        });
+  }
+  /**
+   * Fail with `AccessDenied` unless the table's `modify` rule allows the document as `write` will leave it, so that a write can't turn a document into one the rule refuses.
+   */
+  checkModifiedDocumentRule<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+  >(
+    tableName: TableName,
+    id: GenericId<string>,
+    write: (
+      convexDocument: Record.ReadonlyRecord<string, unknown>,
+    ) => Record.ReadonlyRecord<string, unknown>,
+  ): Effect.Effect<void, AccessDenied> {
+    const rule = this.rules[tableName]?.modify;
+
+    return rule === undefined
+      ? Effect.void
+      : Effect.gen(this, function* () {
+          const convexDocument = yield* Effect.promise(() => this.db.get(id));
+
+          if (convexDocument !== null) {
+            const document = yield* decodeDocument(
+              tableName,
+              this.tableCodecs[tableName],
+              write(convexDocument) as GenericEncodedConfectDocument,
+            ).pipe(Effect.orDie);
+
+            if (!(yield* rule(document))) {
+              return yield* new AccessDenied({
+                tableName,
+                operation: "modify",
+                id,
+              });
+            }
+          }
+        });
+  }
+  /**
+   * Fill in the tenant field of a document about to be written to a tenant table, failing with `TenantMismatch` if it names another tenant.
+   */
+  assignTenant<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    Value,
+  >(
+    tableName: TableName,
+    value: Value,
+  ): Effect.Effect<Record.ReadonlyRecord<string, unknown>, TenantMismatch> {
+    const fields = value as Record.ReadonlyRecord<string, unknown>;
+
+    return Option.match(
+      tenantScope(this.confectSchemaDefinition, tableName, this.tenantId),
+      {
+        onNone: () => Effect.succeed(fields),
+        onSome: ({ fieldName, tenantId }) =>
+          fields[fieldName] === undefined || fields[fieldName] === tenantId
+            ? Effect.succeed({ ...fields, [fieldName]: tenantId })
+            : Effect.fail(new TenantMismatch({ tableName, tenantId })),
+      },
+    );
+  }
+  /**
+   * Fail with `TenantMismatch` if a document of a tenant table belongs to another tenant, or if `fields` would move it to another tenant. A document which doesn't exist is left to the write to deal with.
+   */
+  checkTenant<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    tableName: TableName,
+    id: GenericId<string>,
+    fields: Record.ReadonlyRecord<string, unknown> = {},
+  ): Effect.Effect<void, TenantMismatch> {
+    const scope = tenantScope(
+      this.confectSchemaDefinition,
+      tableName,
+      this.tenantId,
+    );
+
+    return Option.match(scope, {
+      onNone: () => Effect.void,
+      onSome: ({ fieldName, tenantId }) =>
+        pipe(
+          checkTenant(scope, tableName, id, fields),
+          Effect.andThen(Effect.promise(() => this.db.get(id))),
+          Effect.flatMap((convexDocument) =>
+            convexDocument === null
+              ? Effect.void
+              : checkTenant(scope, tableName, id, {
+                  [fieldName]: convexDocument[fieldName] ?? tenantId,
+                }),
+          ),
         ),
-      );
     });
   }
-  replace<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+  /**
+   * Read a document, as stored, for the triggers of its table.
+   */
+  writtenDocument<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+  >(
     id: GenericId<TableName>,
-    value: WithOptionalSystemFields<
-      ConfectDocumentByName<ConfectDataModel, TableName>
+  ): Effect.Effect<
+    Option.Option<ConfectDataModel[TableName]["encodedConfectDocument"]>
+  > {
+    return Effect.promise(() => this.db.get(id)).pipe(
+      Effect.map(Option.fromNullable),
+    );
+  }
+
+  upsert<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    IndexName extends UserIndexNames<ConfectDataModel[TableName]>,
+  >(
+    table: TableName,
+    indexName: IndexName,
+    indexKey: IndexKey<ConfectDataModel[TableName], IndexName>,
+    value: TenantScopedValue<
+      ConfectDataModel[TableName],
+      WithoutSystemFields<ConfectDocumentByName<ConfectDataModel, TableName>>
     >,
-  ): Effect.Effect<void> {
-    return Effect.promise(() => this.db.replace(id, value));
+  ): Effect.Effect<
+    UpsertResult<TableName>,
+    | ParseResult.ParseError
+    | NotUniqueError
+    | DocumentDecodeError
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+    | TenantIndexError<ConfectDataModel[TableName]>
+  > {
+    return pipe(
+      Option.fromNullable(
+        this.confectSchemaDefinition.confectSchema[table]?.indexFields[
+          indexName as string
+        ],
+      ),
+      Option.filter(Array.isNonEmptyReadonlyArray),
+      Effect.orElse(() =>
+        Effect.dieMessage(
+          `upsert needs the fields of index "${indexName as string}" of table "${table}"`,
+        ),
+      ),
+      Effect.andThen((indexFields) =>
+        this.reader
+          .query(table)
+          .withIndex(
+            indexName,
+            decodedIndexKeyRange(
+              Record.fromIterableWith(indexFields, (fieldPath) => [
+                fieldPath,
+                (indexKey as Record.ReadonlyRecord<string, unknown>)[fieldPath],
+              ]),
+            ),
+          )
+          .unique(),
+      ),
+      Effect.andThen(
+        Option.match({
+          onNone: () =>
+            this.insert(table, value).pipe(
+              Effect.map((id) => ({ id, created: true })),
+            ),
+          onSome: ({ _id }) =>
+            this.patch(
+              table,
+              _id,
+              value as ConfectPatch<ConfectDataModel[TableName]>,
+            ).pipe(
+              Effect.catchTag("NoSuchElementException", Effect.die),
+              Effect.as({ id: _id, created: false }),
+            ),
+        }),
+      ),
+    );
   }
-  delete(id: GenericId<string>): Effect.Effect<void> {
-    return Effect.promise(() => this.db.delete(id));
+  insertMany<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    table: TableName,
+    values: ReadonlyArray<
+      TenantScopedValue<
+        ConfectDataModel[TableName],
+        WithoutSystemFields<ConfectDocumentByName<ConfectDataModel, TableName>>
+      >
+    >,
+  ): Effect.Effect<
+    ReadonlyArray<GenericId<TableName>>,
+    BatchWriteError | UniqueConstraintViolation | AccessDenied | TenantMismatch
+  > {
+    return pipe(
+      Effect.forEach(values, (value) => this.assignTenant(table, value)),
+      Effect.tap((values) =>
+        Effect.forEach(values, (value) => this.checkInsertRule(table, value), {
+          discard: true,
+        }),
+      ),
+      Effect.andThen((values) =>
+        validateBatch(values, this.tableCodecs[table].encodeFields),
+      ),
+      Effect.andThen((encodedValues) =>
+        Effect.forEach(encodedValues, (encodedValue) =>
+          pipe(
+            this.checkUniqueConstraints(table, encodedValue),
+            Effect.andThen(
+              this.withTriggers(
+                table,
+                "insert",
+                Effect.promise(() =>
+                  this.db.insert(
+                    table,
+                    encodedValue as Expand<
+                      BetterOmit<
+                        DocumentByName<
+                          DataModelFromConfectDataModel<ConfectDataModel>,
+                          TableName
+                        >,
+                        "_creationTime" | "_id"
+                      >
+                    >,
+                  ),
+                ).pipe(
+                  Effect.tap((id) =>
+                    this.tableNameResolver.remember(id, table),
+                  ),
+                ),
+              ),
+            ),
+          ),
+        ),
+      ),
+    );
   }
+  patchMany<TableName extends TableNamesInConfectDataModel<ConfectDataModel>>(
+    ids: ReadonlyArray<GenericId<TableName>>,
+    value: ConfectPatch<ConfectDataModel[TableName]>,
+  ): Effect.Effect<
+    void,
+    BatchWriteError | UniqueConstraintViolation | AccessDenied | TenantMismatch
+  > {
+    return pipe(
+      validateBatch(ids, (id) =>
+        this.preparePatch(id, value).pipe(
+          Effect.catchTag("NoSuchElementException", Effect.die),
+        ),
+      ),
+      Effect.andThen(Effect.all),
+    );
+  }
+  deleteMany(
+    ids: ReadonlyArray<GenericId<string>>,
+  ): Effect.Effect<
+    void,
+    ReferencedDocumentError | AccessDenied | TenantMismatch
+  > {
+    return Effect.forEach(ids, (id) => this.delete(id), { discard: true });
+  }
+  deleteWhere<
+    TableName extends TableNamesInConfectDataModel<ConfectDataModel>,
+    Policy extends DocumentDecodeErrorPolicy,
+    E = never,
+  >(
+    query: ConfectOrderedQuery<
+      ConfectDataModel[TableName],
+      TableName,
+      Policy,
+      E
+    >,
+  ): Effect.Effect<
+    number,
+    | DocumentDecodeErrorFromPolicy<Policy>
+    | E
+    | ReferencedDocumentError
+    | AccessDenied
+    | TenantMismatch
+  > {
+    return pipe(
+      query.stream(),
+      Stream.runFoldEffect(0, (deleted, { _id }) =>
+        this.delete(_id).pipe(Effect.as(deleted + 1)),
+      ),
+    );
+  }
+  restoreVersion(
+    entry: HistoryEntryDocument,
+  ): Effect.Effect<
+    GenericId<TableNamesInConfectDataModel<ConfectDataModel>>,
+    | ParseResult.ParseError
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch
+  > {
+    const tableName =
+      entry.tableName as TableNamesInConfectDataModel<ConfectDataModel>;
+
+    return Effect.gen(this, function* () {
+      const fields = yield* this.tableCodecs[tableName].decodeFields(
+        entry.after ?? entry.before,
+      );
+      const existingId = yield* pipe(
+        this.normalizeId(tableName, entry.documentId),
+        Option.map((id) =>
+          Effect.promise(() => this.db.get(id)).pipe(
+            Effect.map((document) =>
+              document === null ? Option.none() : Option.some(id),
+            ),
+          ),
+        ),
+        Effect.transposeOption,
+        Effect.map(Option.flatten),
+      );
+
+      const value = fields as WithoutSystemFields<
+        ConfectDocumentByName<ConfectDataModel, typeof tableName>
+      >;
+
+      return yield* Option.match(existingId, {
+        onNone: () => this.insert(tableName, value),
+        onSome: (id) => this.replace(tableName, id, value).pipe(Effect.as(id)),
+      });
+    });
+  }
+}
+
+/**
+ * The Convex database underneath a Confect database writer, for internal functions which write documents as they are stored.
+ */
+export const convexDatabaseWriter = (
+  db: ConfectDatabaseWriter<any>,
+): Effect.Effect<GenericDatabaseWriter<any>> =>
+  db instanceof ConfectDatabaseWriterImpl
+    ? Effect.succeed(db.db)
+    : Effect.dieMessage(
+        "Expected a database from the context of a Confect function",
+      );
+
+/**
+ * Which of a table's documents may be read and written. A document which can't be read is left out of queries and `get`, and a write which isn't allowed fails with `AccessDenied`. `delete` is given the document as it is before the write, and `modify` is given it both before and after the write, so that a write can't turn a document into one the rule refuses.
+ */
+export interface TableRules<Document, Value, R = never> {
+  read?: (document: Document) => Effect.Effect<boolean, never, R>;
+  insert?: (value: Value) => Effect.Effect<boolean, never, R>;
+  modify?: (document: Document) => Effect.Effect<boolean, never, R>;
+  delete?: (document: Document) => Effect.Effect<boolean, never, R>;
+}
+
+/**
+ * The rules of each table, with everything they need already provided.
+ */
+export type DatabaseRules = Record.ReadonlyRecord<string, TableRules<any, any>>;
+
+type ReadRule<Document> =
+  | ((document: Document) => Effect.Effect<boolean>)
+  | undefined;
+
+const filterReadable =
+  <Document>(read: ReadRule<Document>) =>
+  (document: Option.Option<Document>): Effect.Effect<Option.Option<Document>> =>
+    read === undefined
+      ? Effect.succeed(document)
+      : Option.match(document, {
+          onNone: () => Effect.succeedNone,
+          onSome: (value) =>
+            read(value).pipe(
+              Effect.map((readable) => (readable ? document : Option.none())),
+            ),
+        });
+
+/**
+ * Whether `delete` only marks the table's documents as deleted.
+ */
+const softDeletes = (
+  confectSchemaDefinition: GenericConfectSchemaDefinition,
+  tableName: string,
+): boolean =>
+  confectSchemaDefinition.confectSchema[tableName]?.softDeletes ?? false;
+
+const isSoftDeleted = (
+  confectSchemaDefinition: GenericConfectSchemaDefinition,
+  tableName: string,
+  convexDocument: Record.ReadonlyRecord<string, unknown>,
+): boolean =>
+  softDeletes(confectSchemaDefinition, tableName) &&
+  // biome-ignore lint/complexity/useLiteralKeys:
+  convexDocument["deletedAt"] !== undefined;
+
+const isNotDeleted = (q: FilterBuilder<any>): Expression<boolean> =>
+  q.eq(q.field("deletedAt"), undefined);
+
+/**
+ * A tenant table, as read and written by a database scoped to `tenantId`.
+ */
+interface TenantScope extends Tenant {
+  tenantId: string;
 }
 
-export const databaseSchemasFromConfectSchema = <
-  ConfectSchema extends GenericConfectSchema,
+const tenantScope = (
+  confectSchemaDefinition: GenericConfectSchemaDefinition,
+  tableName: string,
+  tenantId: Option.Option<string>,
+): Option.Option<TenantScope> =>
+  Option.flatMap(tenantId, (tenantId) =>
+    Option.map(
+      Record.get(confectSchemaDefinition.tenants, tableName),
+      (tenant) => ({ ...tenant, tenantId }),
+    ),
+  );
+
+const isInTenant =
+  ({ fieldName, tenantId }: TenantScope) =>
+  (q: FilterBuilder<any>): Expression<boolean> =>
+    q.eq(q.field(fieldName), tenantId);
+
+/**
+ * Fail with `TenantMismatch` if `fields` hold a tenant other than the scope's.
+ */
+const checkTenant = (
+  tenantScope: Option.Option<TenantScope>,
+  tableName: string,
+  id: GenericId<string>,
+  fields: Record.ReadonlyRecord<string, unknown>,
+): Effect.Effect<void, TenantMismatch> =>
+  Option.match(tenantScope, {
+    onNone: () => Effect.void,
+    onSome: ({ fieldName, tenantId }) =>
+      fields[fieldName] === undefined || fields[fieldName] === tenantId
+        ? Effect.void
+        : Effect.fail(new TenantMismatch({ tableName, tenantId, id })),
+  });
+
+/**
+ * A version of the document recorded in a history entry, with the system fields it was recorded without: the entry's `documentId`, and its `timestamp` for the creation time, which isn't recorded.
+ */
+const historyEntryVersion = (
+  entry: HistoryEntryDocument,
+  fields: Record.ReadonlyRecord<string, unknown>,
+) => ({
+  ...fields,
+  _id: entry.documentId,
+  _creationTime: entry.timestamp,
+});
+
+const decodeHistoryEntries = Schema.decodeUnknown(
+  Schema.Array(extendWithSystemFields(historyTableName, HistoryEntry)),
+);
+
+const databaseCodecsFromConfectSchemaDefinition = <
+  ConfectDataModel extends GenericConfectDataModel,
+>(
+  confectSchemaDefinition: GenericConfectSchemaDefinition,
+) =>
+  confectSchemaDefinition.tableCodecs as unknown as DatabaseCodecsFromConfectDataModel<ConfectDataModel>;
+
+const tableNamesInConfectSchemaDefinition = <
+  ConfectDataModel extends GenericConfectDataModel,
 >(
-  confectSchema: ConfectSchema,
+  confectSchemaDefinition: GenericConfectSchemaDefinition,
 ) =>
-  Record.map(
-    confectSchema,
-    ({ tableSchema }) => tableSchema,
-  ) as DatabaseSchemasFromConfectDataModel<
-    ConfectDataModelFromConfectSchema<ConfectSchema>
+  Record.keys(confectSchemaDefinition.confectSchema) as ReadonlyArray<
+    TableNamesInConfectDataModel<ConfectDataModel>
   >;
 
+/**
+ * Convex can only tell us whether an `Id` belongs to a given table, so finding
+ * the table of an unseen `Id` costs one `normalizeId` call per table. Resolved
+ * `Id`s are remembered, and callers which already know the table (like
+ * `get(tableName, id)`, `patch(tableName, id, value)` and `insert`) skip the
+ * search entirely.
+ */
+export class TableNameResolver<TableName extends string> {
+  private readonly tableNames: ReadonlyArray<TableName>;
+  private readonly normalizeId: (
+    tableName: TableName,
+    id: string,
+  ) => Option.Option<GenericId<TableName>>;
+  private readonly tableNamesById = new Map<string, TableName>();
+  constructor(
+    tableNames: ReadonlyArray<TableName>,
+    normalizeId: (
+      tableName: TableName,
+      id: string,
+    ) => Option.Option<GenericId<TableName>>,
+  ) {
+    this.tableNames = tableNames;
+    this.normalizeId = normalizeId;
+  }
+  remember(id: string, tableName: TableName): void {
+    this.tableNamesById.set(id, tableName);
+  }
+  resolve(id: string): Option.Option<TableName> {
+    return pipe(
+      Option.fromNullable(this.tableNamesById.get(id)),
+      Option.orElse(() =>
+        pipe(
+          Array.findFirst(this.tableNames, (tableName) =>
+            Option.isSome(this.normalizeId(tableName, id)),
+          ),
+          Option.tap((tableName) => {
+            this.remember(id, tableName);
+            return Option.some(tableName);
+          }),
+        ),
+      ),
+    );
+  }
+  resolveIn(tableName: TableName, id: string): Option.Option<TableName> {
+    return this.tableNamesById.get(id) === tableName
+      ? Option.some(tableName)
+      : pipe(
+          this.normalizeId(tableName, id),
+          Option.as(tableName),
+          Option.tap(() => {
+            this.remember(id, tableName);
+            return Option.some(tableName);
+          }),
+        );
+  }
+}
+
+/**
+ * An index range which is equal to `key` on each of its fields, in order.
+ */
+export const indexKeyRange =
+  (key: Record.ReadonlyRecord<string, unknown>) =>
+  (q: IndexRangeBuilder<any, any, any>): IndexRange =>
+    Record.reduce(key, q as any, (range, value, fieldPath) =>
+      range.eq(fieldPath, value),
+    );
+
+/**
+ * `indexKeyRange` for a `ConfectIndexRangeBuilder`, whose values are decoded.
+ */
+const decodedIndexKeyRange =
+  (key: Record.ReadonlyRecord<string, unknown>) =>
+  (q: ConfectIndexRangeBuilder<any, any>): ConfectIndexRange =>
+    Record.reduce(key, q as ConfectIndexRange, (range, value, fieldPath) =>
+      (range as typeof q).eq(fieldPath, value),
+    );
+
+const fieldPathValue = (
+  fields: Record.ReadonlyRecord<string, unknown>,
+  fieldPath: string,
+): unknown =>
+  Array.reduce(String.split(fieldPath, "."), fields as unknown, (value, key) =>
+    Predicate.isRecord(value) ? value[key] : undefined,
+  );
+
+/**
+ * A write which replaces every field of a document but its system fields.
+ */
+const withSystemFieldsOf =
+  (encodedFields: Record.ReadonlyRecord<string, unknown>) =>
+  ({ _id, _creationTime }: Record.ReadonlyRecord<string, unknown>) => ({
+    ...encodedFields,
+    _id,
+    _creationTime,
+  });
+
 class InvalidIdProvidedForPatch extends Data.TaggedError(
   "InvalidIdProvidedForPatch",
 ) {}
 
-const decodeDocument = <
-  TableName extends string,
-  ConvexDocument extends GenericEncodedConfectDocument,
-  ConfectDocument extends GenericConfectDocument,
->(
+/**
+ * Encode every item of a batch, failing with all of the items which could not be encoded.
+ */
+const validateBatch = <A, B>(
+  items: ReadonlyArray<A>,
+  encode: (item: A) => Effect.Effect<B, ParseResult.ParseError>,
+): Effect.Effect<Array<B>, BatchWriteError> =>
+  pipe(
+    Effect.validateAll(items, (item, index) =>
+      encode(item).pipe(
+        Effect.mapError((parseError) => ({ index, parseError })),
+      ),
+    ),
+    Effect.mapError((failures) => new BatchWriteError({ failures })),
+  );
+
+const isShallowPatch = (patch: Record.ReadonlyRecord<string, unknown>) =>
+  !Record.some(
+    patch,
+    (update, fieldPath) =>
+      Predicate.isFunction(update) || String.includes(".")(fieldPath),
+  );
+
+/**
+ * Apply field path updates and functional updaters to a document's current fields, producing a patch of its top-level fields.
+ */
+const resolvePatch = (
+  fields: Record.ReadonlyRecord<string, unknown>,
+  patch: Record.ReadonlyRecord<string, unknown>,
+): Record.ReadonlyRecord<string, unknown> =>
+  Record.reduce(
+    patch,
+    Record.empty<string, unknown>(),
+    (acc, update, fieldPath) => {
+      const [key, ...path] = String.split(fieldPath, ".");
+      const current = Record.has(acc, key) ? acc[key] : fields[key];
+      return Record.set(acc, key, updateFieldPath(current, path, update));
+    },
+  );
+
+const updateFieldPath = (
+  current: unknown,
+  path: ReadonlyArray<string>,
+  update: unknown,
+): unknown => {
+  if (!Array.isNonEmptyReadonlyArray(path)) {
+    return Predicate.isFunction(update) ? update(current) : update;
+  }
+
+  const [key, ...rest] = path;
+  const record = (current ?? {}) as Record.ReadonlyRecord<string, unknown>;
+  const next = updateFieldPath(record[key], rest, update);
+
+  return next === undefined
+    ? Record.remove(record, key)
+    : Record.set(record, key, next);
+};
+
+const decodeDocument = <TableName extends string, ConfectDocument>(
   tableName: TableName,
-  tableSchema: Schema.Schema<ConfectDocument, ConvexDocument>,
-  convexDocument: ConvexDocument,
-): ConfectDocument =>
-  Schema.decodeUnknownSync(extendWithSystemFields(tableName, tableSchema), {
-    onExcessProperty: "error",
-  })(convexDocument);
+  tableCodec: TableCodec<ConfectDocument, unknown>,
+  convexDocument: GenericEncodedConfectDocument,
+): Either.Either<ConfectDocument, DocumentDecodeError> =>
+  pipe(
+    tableCodec.decodeDocument(convexDocument),
+    Either.mapLeft(
+      (parseError) =>
+        new DocumentDecodeError({
+          tableName,
+          // biome-ignore lint/complexity/useLiteralKeys:
+          id: convexDocument["_id"] as GenericId<TableName>,
+          parseError,
+        }),
+    ),
+  );
 
 // Would be better if this were exported from `convex/server`
 type BaseDatabaseReader<DataModel extends GenericDataModel> = Omit<
@@ -13,12 +13,14 @@ import {
   mutationGeneric,
   queryGeneric,
 } from "convex/server";
-import { Effect, Option, Schema, pipe } from "effect";
+import { ConvexError, type Value } from "convex/values";
+import { Cause, Effect, Exit, Option, Runtime, Schema, pipe } from "effect";
 
 import {
   ConfectActionCtx,
   ConfectMutationCtx,
   ConfectQueryCtx,
+  type Triggers,
   makeConfectActionCtx,
   makeConfectMutationCtx,
   makeConfectQueryCtx,
@@ -27,19 +29,18 @@ import type {
   DataModelFromConfectDataModel,
   GenericConfectDataModel,
 } from "~/src/server/data-model";
-import {
-  type DatabaseSchemasFromConfectDataModel,
-  databaseSchemasFromConfectSchema,
-} from "~/src/server/database";
+import type { Rules } from "~/src/server/rules";
 import type {
   ConfectDataModelFromConfectSchema,
   ConfectSchemaDefinition,
   GenericConfectSchema,
+  GenericConfectSchemaDefinition,
 } from "~/src/server/schema";
 import {
   compileArgsSchema,
   compileReturnsSchema,
 } from "~/src/server/schema-to-validator";
+import * as ArgsValidationError from "~/src/server/schemas/ArgsValidationError";
 
 // Export types for custom function creation
 export type ConfectQueryHandler<
@@ -71,24 +72,37 @@ export type ConfectActionHandler<
 
 export const makeFunctions = <ConfectSchema extends GenericConfectSchema>(
   confectSchemaDefinition: ConfectSchemaDefinition<ConfectSchema>,
+  {
+    triggers = {},
+    rules = {},
+  }: {
+    /**
+     * Run by every mutation's writes to the table they're keyed by.
+     */
+    triggers?: Triggers<ConfectDataModelFromConfectSchema<ConfectSchema>>;
+    /**
+     * Checked by every query's and mutation's `db`, for the identity calling it. Triggers aren't checked. See `withRules`.
+     */
+    rules?: Rules<ConfectDataModelFromConfectSchema<ConfectSchema>>;
+  } = {},
 ) => {
-  const databaseSchemas = databaseSchemasFromConfectSchema(
-    confectSchemaDefinition.confectSchema,
-  );
-
   const query = <
     ConvexArgs extends DefaultFunctionArgs,
     ConfectArgs,
     ConvexReturns,
     ConfectReturns,
+    ConvexErrors,
+    ConfectErrors,
     E,
   >({
     args,
     returns,
+    errors,
     handler,
   }: {
     args: Schema.Schema<ConfectArgs, ConvexArgs>;
     returns: Schema.Schema<ConfectReturns, ConvexReturns>;
+    errors?: Schema.Schema<ConfectErrors, ConvexErrors>;
     handler: (
       a: ConfectArgs,
     ) => Effect.Effect<
@@ -98,7 +112,14 @@ export const makeFunctions = <ConfectSchema extends GenericConfectSchema>(
     >;
   }): RegisteredQuery<"public", ConvexArgs, Promise<ConvexReturns>> =>
     queryGeneric(
-      confectQueryFunction({ databaseSchemas, args, returns, handler }),
+      confectQueryFunction({
+        confectSchemaDefinition,
+        rules,
+        args,
+        returns,
+        errors,
+        handler,
+      }),
     );
 
   const internalQuery = <
@@ -106,14 +127,18 @@ export const makeFunctions = <ConfectSchema extends GenericConfectSchema>(
     ConfectArgs,
     ConvexReturns,
     ConfectReturns,
+    ConvexErrors,
+    ConfectErrors,
     E,
   >({
     args,
-    handler,
     returns,
+    errors,
+    handler,
   }: {
     args: Schema.Schema<ConfectArgs, ConvexArgs>;
     returns: Schema.Schema<ConfectReturns, ConvexReturns>;
+    errors?: Schema.Schema<ConfectErrors, ConvexErrors>;
     handler: (
       a: ConfectArgs,
     ) => Effect.Effect<
@@ -123,7 +148,14 @@ export const makeFunctions = <ConfectSchema extends GenericConfectSchema>(
     >;
   }): RegisteredQuery<"internal", ConvexArgs, Promise<ConvexReturns>> =>
     internalQueryGeneric(
-      confectQueryFunction({ databaseSchemas, args, returns, handler }),
+      confectQueryFunction({
+        confectSchemaDefinition,
+        rules,
+        args,
+        returns,
+        errors,
+        handler,
+      }),
     );
 
   const mutation = <
@@ -131,14 +163,18 @@ export const makeFunctions = <ConfectSchema extends GenericConfectSchema>(
     ConfectValue,
     ConvexReturns,
     ConfectReturns,
+    ConvexErrors,
+    ConfectErrors,
     E,
   >({
     args,
     returns,
+    errors,
     handler,
   }: {
     args: Schema.Schema<ConfectValue, ConvexValue>;
     returns: Schema.Schema<ConfectReturns, ConvexReturns>;
+    errors?: Schema.Schema<ConfectErrors, ConvexErrors>;
     handler: (
       a: ConfectValue,
     ) => Effect.Effect<
@@ -148,7 +184,15 @@ export const makeFunctions = <ConfectSchema extends GenericConfectSchema>(
     >;
   }): RegisteredMutation<"public", ConvexValue, Promise<ConvexReturns>> =>
     mutationGeneric(
-      confectMutationFunction({ databaseSchemas, args, returns, handler }),
+      confectMutationFunction({
+        confectSchemaDefinition,
+        triggers,
+        rules,
+        args,
+        returns,
+        errors,
+        handler,
+      }),
     );
 
   const internalMutation = <
@@ -156,14 +200,18 @@ export const makeFunctions = <ConfectSchema extends GenericConfectSchema>(
     ConfectValue,
     ConvexReturns,
     ConfectReturns,
+    ConvexErrors,
+    ConfectErrors,
     E,
   >({
     args,
     returns,
+    errors,
     handler,
   }: {
     args: Schema.Schema<ConfectValue, ConvexValue>;
     returns: Schema.Schema<ConfectReturns, ConvexReturns>;
+    errors?: Schema.Schema<ConfectErrors, ConvexErrors>;
     handler: (
       a: ConfectValue,
     ) => Effect.Effect<
@@ -173,7 +221,15 @@ export const makeFunctions = <ConfectSchema extends GenericConfectSchema>(
     >;
   }): RegisteredMutation<"internal", ConvexValue, Promise<ConvexReturns>> =>
     internalMutationGeneric(
-      confectMutationFunction({ databaseSchemas, args, returns, handler }),
+      confectMutationFunction({
+        confectSchemaDefinition,
+        triggers,
+        rules,
+        args,
+        returns,
+        errors,
+        handler,
+      }),
     );
 
   const action = <
@@ -181,14 +237,18 @@ export const makeFunctions = <ConfectSchema extends GenericConfectSchema>(
     ConfectValue,
     ConvexReturns,
     ConfectReturns,
+    ConvexErrors,
+    ConfectErrors,
     E,
   >({
     args,
     returns,
+    errors,
     handler,
   }: {
     args: Schema.Schema<ConfectValue, ConvexValue>;
     returns: Schema.Schema<ConfectReturns, ConvexReturns>;
+    errors?: Schema.Schema<ConfectErrors, ConvexErrors>;
     handler: (
       a: ConfectValue,
     ) => Effect.Effect<
@@ -197,21 +257,25 @@ export const makeFunctions = <ConfectSchema extends GenericConfectSchema>(
       ConfectActionCtx<ConfectDataModelFromConfectSchema<ConfectSchema>>
     >;
   }): RegisteredAction<"public", ConvexValue, Promise<ConvexReturns>> =>
-    actionGeneric(confectActionFunction({ args, returns, handler }));
+    actionGeneric(confectActionFunction({ args, returns, errors, handler }));
 
   const internalAction = <
     ConvexValue extends DefaultFunctionArgs,
     ConfectValue,
     ConvexReturns,
     ConfectReturns,
+    ConvexErrors,
+    ConfectErrors,
     E,
   >({
     args,
     returns,
+    errors,
     handler,
   }: {
     args: Schema.Schema<ConfectValue, ConvexValue>;
     returns: Schema.Schema<ConfectReturns, ConvexReturns>;
+    errors?: Schema.Schema<ConfectErrors, ConvexErrors>;
     handler: (
       a: ConfectValue,
     ) => Effect.Effect<
@@ -220,7 +284,9 @@ export const makeFunctions = <ConfectSchema extends GenericConfectSchema>(
       ConfectActionCtx<ConfectDataModelFromConfectSchema<ConfectSchema>>
     >;
   }): RegisteredAction<"internal", ConvexValue, Promise<ConvexReturns>> =>
-    internalActionGeneric(confectActionFunction({ args, returns, handler }));
+    internalActionGeneric(
+      confectActionFunction({ args, returns, errors, handler }),
+    );
 
   return {
     query,
@@ -237,10 +303,6 @@ export const makeGenericFunctions = <
 >(
   confectSchemaDefinition: ConfectSchemaDefinition<ConfectSchema>,
 ) => {
-  const databaseSchemas = databaseSchemasFromConfectSchema(
-    confectSchemaDefinition.confectSchema,
-  );
-
   type DataModel = ConfectDataModelFromConfectSchema<ConfectSchema>;
 
   // Type-preserving query builder
@@ -249,14 +311,17 @@ export const makeGenericFunctions = <
     ConfectArgs,
     ConvexReturns,
     ConfectReturns,
+    ConvexErrors = never,
+    ConfectErrors = never,
     E = never,
   >(params: {
     args: Schema.Schema<ConfectArgs, ConvexArgs>;
     returns: Schema.Schema<ConfectReturns, ConvexReturns>;
+    errors?: Schema.Schema<ConfectErrors, ConvexErrors>;
     handler: (
       a: ConfectArgs,
     ) => Effect.Effect<ConfectReturns, E, ConfectQueryCtx<DataModel>>;
-  }) => confectQueryFunction({ ...params, databaseSchemas });
+  }) => confectQueryFunction({ ...params, confectSchemaDefinition });
 
   // Type-preserving mutation builder
   const buildMutation = <
@@ -264,14 +329,17 @@ export const makeGenericFunctions = <
     ConfectArgs,
     ConvexReturns,
     ConfectReturns,
+    ConvexErrors = never,
+    ConfectErrors = never,
     E = never,
   >(params: {
     args: Schema.Schema<ConfectArgs, ConvexArgs>;
     returns: Schema.Schema<ConfectReturns, ConvexReturns>;
+    errors?: Schema.Schema<ConfectErrors, ConvexErrors>;
     handler: (
       a: ConfectArgs,
     ) => Effect.Effect<ConfectReturns, E, ConfectMutationCtx<DataModel>>;
-  }) => confectMutationFunction({ ...params, databaseSchemas });
+  }) => confectMutationFunction({ ...params, confectSchemaDefinition });
 
   // Type-preserving action builder
   const buildAction = <
@@ -279,10 +347,13 @@ export const makeGenericFunctions = <
     ConfectArgs,
     ConvexReturns,
     ConfectReturns,
+    ConvexErrors = never,
+    ConfectErrors = never,
     E = never,
   >(params: {
     args: Schema.Schema<ConfectArgs, ConvexArgs>;
     returns: Schema.Schema<ConfectReturns, ConvexReturns>;
+    errors?: Schema.Schema<ConfectErrors, ConvexErrors>;
     handler: (
       a: ConfectArgs,
     ) => Effect.Effect<ConfectReturns, E, ConfectActionCtx<DataModel>>;
@@ -492,16 +563,22 @@ const confectQueryFunction = <
   ConfectArgs,
   ConvexReturns,
   ConfectReturns,
+  ConvexErrors,
+  ConfectErrors,
   E,
 >({
-  databaseSchemas,
+  confectSchemaDefinition,
+  rules,
   args,
   returns,
+  errors,
   handler,
 }: {
-  databaseSchemas: DatabaseSchemasFromConfectDataModel<ConfectDataModel>;
+  confectSchemaDefinition: GenericConfectSchemaDefinition;
+  rules?: Rules<ConfectDataModel>;
   args: Schema.Schema<ConfectArgs, ConvexArgs>;
   returns: Schema.Schema<ConfectReturns, ConvexReturns>;
+  errors?: Schema.Schema<ConfectErrors, ConvexErrors> | undefined;
   handler: (
     a: ConfectArgs,
   ) => Effect.Effect<ConfectReturns, E, ConfectQueryCtx<ConfectDataModel>>;
@@ -514,20 +591,20 @@ const confectQueryFunction = <
   ): Promise<ConvexReturns> =>
     pipe(
       actualArgs,
-      Schema.decode(args),
-      Effect.orDie,
+      decodeArgs(args),
       Effect.andThen((decodedArgs) =>
         handler(decodedArgs).pipe(
           Effect.provideService(
             ConfectQueryCtx<ConfectDataModel>(),
-            makeConfectQueryCtx(ctx, databaseSchemas),
+            makeConfectQueryCtx(ctx, confectSchemaDefinition, rules),
           ),
+          Effect.catchAll(encodeError(errors)),
         ),
       ),
       Effect.andThen((convexReturns) =>
         Schema.encodeUnknown(returns)(convexReturns),
       ),
-      Effect.runPromise,
+      runHandlerPromise,
     ),
 });
 
@@ -537,16 +614,24 @@ const confectMutationFunction = <
   ConfectValue,
   ConvexReturns,
   ConfectReturns,
+  ConvexErrors,
+  ConfectErrors,
   E,
 >({
-  databaseSchemas,
+  confectSchemaDefinition,
+  triggers,
+  rules,
   args,
   returns,
+  errors,
   handler,
 }: {
-  databaseSchemas: DatabaseSchemasFromConfectDataModel<ConfectDataModel>;
+  confectSchemaDefinition: GenericConfectSchemaDefinition;
+  triggers?: Triggers<ConfectDataModel>;
+  rules?: Rules<ConfectDataModel>;
   args: Schema.Schema<ConfectValue, ConvexValue>;
   returns: Schema.Schema<ConfectReturns, ConvexReturns>;
+  errors?: Schema.Schema<ConfectErrors, ConvexErrors> | undefined;
   handler: (
     a: ConfectValue,
   ) => Effect.Effect<ConfectReturns, E, ConfectMutationCtx<ConfectDataModel>>;
@@ -559,20 +644,25 @@ const confectMutationFunction = <
   ): Promise<ConvexReturns> =>
     pipe(
       actualArgs,
-      Schema.decode(args),
-      Effect.orDie,
+      decodeArgs(args),
       Effect.andThen((decodedArgs) =>
         handler(decodedArgs).pipe(
           Effect.provideService(
             ConfectMutationCtx<ConfectDataModel>(),
-            makeConfectMutationCtx(ctx, databaseSchemas),
+            makeConfectMutationCtx(
+              ctx,
+              confectSchemaDefinition,
+              triggers,
+              rules,
+            ),
           ),
+          Effect.catchAll(encodeError(errors)),
         ),
       ),
       Effect.andThen((convexReturns) =>
         Schema.encodeUnknown(returns)(convexReturns),
       ),
-      Effect.runPromise,
+      runHandlerPromise,
     ),
 });
 
@@ -582,14 +672,18 @@ const confectActionFunction = <
   ConfectValue,
   ConvexReturns,
   ConfectReturns,
+  ConvexErrors,
+  ConfectErrors,
   E,
 >({
   args,
   returns,
+  errors,
   handler,
 }: {
   args: Schema.Schema<ConfectValue, ConvexValue>;
   returns: Schema.Schema<ConfectReturns, ConvexReturns>;
+  errors?: Schema.Schema<ConfectErrors, ConvexErrors> | undefined;
   handler: (
     a: ConfectValue,
   ) => Effect.Effect<ConfectReturns, E, ConfectActionCtx<ConfectDataModel>>;
@@ -602,19 +696,68 @@ const confectActionFunction = <
   ): Promise<ConvexReturns> =>
     pipe(
       actualArgs,
-      Schema.decode(args),
-      Effect.orDie,
+      decodeArgs(args),
       Effect.andThen((decodedArgs) =>
         handler(decodedArgs).pipe(
           Effect.provideService(
             ConfectActionCtx<ConfectDataModel>(),
             makeConfectActionCtx(ctx),
           ),
+          Effect.catchAll(encodeError(errors)),
         ),
       ),
       Effect.andThen((convexReturns) =>
         Schema.encodeUnknown(returns)(convexReturns),
       ),
-      Effect.runPromise,
+      runHandlerPromise,
     ),
 });
+
+/**
+ * Args which fail to decode are reported to the client as an `ArgsValidationError`, with an issue for every invalid field.
+ */
+const decodeArgs =
+  <ConfectArgs, ConvexArgs>(args: Schema.Schema<ConfectArgs, ConvexArgs>) =>
+  (actualArgs: ConvexArgs): Effect.Effect<ConfectArgs, ConvexError<Value>> =>
+    pipe(
+      actualArgs,
+      Schema.decode(args, { errors: "all" }),
+      Effect.catchAll((parseError) =>
+        encodeError(ArgsValidationError.ArgsValidationError)(
+          ArgsValidationError.fromParseError(parseError),
+        ),
+      ),
+    );
+
+/**
+ * Failures which match the function's `errors` schema are encoded and sent to the client as the data of a `ConvexError`. All other failures become defects.
+ */
+const encodeError =
+  <ConfectErrors, ConvexErrors>(
+    errors: Schema.Schema<ConfectErrors, ConvexErrors> | undefined,
+  ) =>
+  (error: unknown): Effect.Effect<never, ConvexError<Value>> =>
+    errors !== undefined && Schema.is(errors)(error)
+      ? pipe(
+          error,
+          Schema.encode(errors),
+          Effect.orDie,
+          Effect.flatMap((encodedError) =>
+            Effect.fail(new ConvexError(encodedError as Value)),
+          ),
+        )
+      : Effect.die(error);
+
+/**
+ * Like `Effect.runPromise`, except that `ConvexError` failures are thrown as-is so that Convex can forward their data to the client.
+ */
+const runHandlerPromise = <A, E>(effect: Effect.Effect<A, E>): Promise<A> =>
+  Effect.runPromiseExit(effect).then(
+    Exit.getOrElse((cause) => {
+      throw pipe(
+        Cause.failureOption(cause),
+        Option.filter((error) => error instanceof ConvexError),
+        Option.getOrElse(() => Runtime.makeFiberFailure(cause)),
+      );
+    }),
+  );
@@ -0,0 +1,38 @@
+import { Clock, Effect, Option, Struct, pipe } from "effect";
+
+import type { ConfectMutationCtx } from "~/src/server/ctx";
+import type { EncodedTableChange } from "~/src/server/database";
+import { historyTableName } from "~/src/server/schema";
+
+/**
+ * Record a write to a table with history in the `confectHistory` table. The versions of the document are recorded without their system fields, since Convex doesn't allow nested field names starting with `_`.
+ */
+export const recordHistory = (
+  { db, auth }: Pick<ConfectMutationCtx<any>, "db" | "auth">,
+  tableName: string,
+  { operation, id, oldDocument, newDocument }: EncodedTableChange<any, any>,
+): Effect.Effect<void> =>
+  Effect.gen(function* () {
+    yield* db
+      .insert(historyTableName, {
+        tableName,
+        documentId: id,
+        operation,
+        before: Option.getOrUndefined(
+          Option.map(oldDocument, withoutSystemFields),
+        ),
+        after: Option.getOrUndefined(
+          Option.map(newDocument, withoutSystemFields),
+        ),
+        timestamp: yield* Clock.currentTimeMillis,
+        subject: pipe(
+          yield* auth.getUserIdentity(),
+          Option.map(({ subject }) => subject),
+          Option.getOrUndefined,
+        ),
+      })
+      .pipe(Effect.orDie);
+  });
+
+const withoutSystemFields = (document: Record<string, unknown>) =>
+  Struct.omit(document, "_id", "_creationTime");
@@ -1,7 +1,19 @@
+export { ConfectAuth } from "~/src/server/auth";
+
+export {
+  checkSchemaCompatibility,
+  type Compatibility,
+  type SchemaChange,
+  type SchemaChangeKind,
+  type SchemaCompatibilityReport,
+} from "~/src/server/compatibility";
+
 export {
   ConfectActionCtx,
   ConfectMutationCtx,
   ConfectQueryCtx,
+  type Trigger,
+  type Triggers,
 } from "~/src/server/ctx";
 
 export type {
@@ -9,7 +21,21 @@ export type {
   ConfectDoc,
 } from "~/src/server/data-model";
 
-export { NotUniqueError } from "~/src/server/database";
+export {
+  AccessDenied,
+  BatchWriteError,
+  type ConfectIndexRange,
+  type ConfectIndexRangeBuilder,
+  DocumentDecodeError,
+  type DocumentDecodeErrorPolicy,
+  NotUniqueError,
+  ReferencedDocumentError,
+  type TableChange,
+  type TableRules,
+  TenantIndexRequiredError,
+  TenantMismatch,
+  UniqueConstraintViolation,
+} from "~/src/server/database";
 
 export {
   makeFunctions,
@@ -19,12 +45,43 @@ export {
   type ConfectActionHandler,
 } from "~/src/server/functions";
 
+export {
+  makeReferentialIntegrityCheck,
+  DanglingReference,
+  TableReport,
+} from "~/src/server/integrity";
+
+export {
+  makeMigrations,
+  type Migration,
+  MigrationPreview,
+  MigrationStatus,
+} from "~/src/server/migrations";
+
+export { withRules, type Rules } from "~/src/server/rules";
+
 export {
   defineSchema,
   defineTable,
   type ConfectDataModelFromConfectSchemaDefinition,
+  HistoryEntry,
+  type HistoryEntryDocument,
+  type SchemaOptions,
+  type ReferentialAction,
+  type TableOptions,
+  tableVersion,
+  type TableVersion,
 } from "~/src/server/schema";
 
+export { withTenant } from "~/src/server/tenant";
+
+export {
+  makeSchemaValidation,
+  InvalidDocument,
+  TableValidationReport,
+} from "~/src/server/validation";
+
+export * as ArgsValidationError from "~/src/server/schemas/ArgsValidationError";
 export * as Id from "~/src/server/schemas/Id";
 export * as PaginationResult from "~/src/server/schemas/PaginationResult";
 
@@ -0,0 +1,294 @@
+import {
+  type GenericDataModel,
+  type GenericDatabaseReader,
+  makeFunctionReference,
+} from "convex/server";
+import {
+  Array,
+  Effect,
+  Option,
+  Predicate,
+  Record,
+  Schema,
+  type SchemaAST,
+  String,
+  pipe,
+} from "effect";
+
+import { ConfectActionCtx, ConfectQueryCtx } from "~/src/server/ctx";
+import { convexDatabaseReader } from "~/src/server/database";
+import { makeFunctions } from "~/src/server/functions";
+import type {
+  ConfectDataModelFromConfectSchema,
+  ConfectSchemaDefinition,
+  GenericConfectSchema,
+  TableNamesInConfectSchema,
+} from "~/src/server/schema";
+import * as Id from "~/src/server/schemas/Id";
+
+/**
+ * An `Id` which refers to a document that doesn't exist.
+ */
+export const DanglingReference = Schema.Struct({
+  id: Schema.String,
+  fieldPath: Schema.String,
+  referencedId: Schema.String,
+  referencedTableNames: Schema.Array(Schema.String),
+});
+export type DanglingReference = typeof DanglingReference.Type;
+
+export const TableReport = Schema.Struct({
+  tableName: Schema.String,
+  documentsChecked: Schema.Number,
+  danglingReferences: Schema.Array(DanglingReference),
+});
+export type TableReport = typeof TableReport.Type;
+
+const TablePageReport = Schema.Struct({
+  documentsChecked: Schema.Number,
+  danglingReferences: Schema.Array(DanglingReference),
+  isDone: Schema.Boolean,
+  continueCursor: Schema.String,
+});
+
+/**
+ * Internal functions which find `Id`s referring to documents that don't exist, wherever they are in a document: nested structs, arrays and unions included. Documents are checked as they are stored, so those which fail to decode are checked too.
+ *
+ * `checkPage` checks one page of a table, and `check` checks every page of every table (or of `tableNames`), so it can be scheduled as a background job. Export both, with `checkPage` at `checkPagePath` (like `"integrity:checkPage"`).
+ */
+export const makeReferentialIntegrityCheck = <
+  ConfectSchema extends GenericConfectSchema,
+>(
+  confectSchemaDefinition: ConfectSchemaDefinition<ConfectSchema>,
+  {
+    checkPagePath,
+    pageSize = 100,
+  }: { checkPagePath: string; pageSize?: number },
+) => {
+  type ConfectDataModel = ConfectDataModelFromConfectSchema<ConfectSchema>;
+
+  const { internalQuery, internalAction } = makeFunctions(
+    confectSchemaDefinition,
+  );
+
+  const schemaTableNames = Record.keys(
+    confectSchemaDefinition.confectSchema,
+  ) as Array<TableNamesInConfectSchema<ConfectSchema>>;
+  const TableName = Schema.Literal(...schemaTableNames);
+
+  const CheckPageArgs = Schema.Struct({
+    tableName: TableName,
+    cursor: Schema.NullOr(Schema.String),
+    numItems: Schema.Number,
+  });
+
+  const checkPageReference = makeFunctionReference<
+    "query",
+    typeof CheckPageArgs.Encoded,
+    typeof TablePageReport.Encoded
+  >(checkPagePath);
+
+  const checkPage = internalQuery({
+    args: CheckPageArgs,
+    returns: TablePageReport,
+    handler: ({ tableName, cursor, numItems }) =>
+      Effect.gen(function* () {
+        const { db } = yield* ConfectQueryCtx<ConfectDataModel>();
+        const convexDb = yield* convexDatabaseReader(db);
+        const encodedTableSchema = Schema.encodedSchema(
+          confectSchemaDefinition.tableSchemas[tableName].withoutSystemFields,
+        );
+
+        const { page, isDone, continueCursor } = yield* Effect.promise(() =>
+          convexDb.query(tableName).paginate({ cursor, numItems }),
+        );
+
+        const danglingReferences = yield* pipe(
+          page,
+          Array.flatMap(({ _id, ...fields }) =>
+            Array.map(
+              referencesIn(encodedTableSchema.ast, fields, ""),
+              (reference) => ({ id: _id as string, ...reference }),
+            ),
+          ),
+          Effect.filter(({ referencedId, referencedTableNames }) =>
+            isDangling(convexDb, referencedId, referencedTableNames),
+          ),
+        );
+
+        return {
+          documentsChecked: page.length,
+          danglingReferences,
+          isDone,
+          continueCursor,
+        };
+      }),
+  });
+
+  const check = internalAction({
+    args: Schema.Struct({
+      tableNames: Schema.optional(Schema.Array(TableName)),
+    }),
+    returns: Schema.Array(TableReport),
+    handler: ({ tableNames }) =>
+      Effect.gen(function* () {
+        const { runQuery } = yield* ConfectActionCtx<ConfectDataModel>();
+
+        const checkTable = (
+          tableName: TableNamesInConfectSchema<ConfectSchema>,
+          cursor: string | null,
+          report: TableReport,
+        ): Effect.Effect<TableReport> =>
+          pipe(
+            runQuery(checkPageReference, {
+              tableName,
+              cursor,
+              numItems: pageSize,
+            }),
+            Effect.andThen(Schema.decode(TablePageReport)),
+            Effect.orDie,
+            Effect.flatMap((pageReport) => {
+              const nextReport = {
+                tableName,
+                documentsChecked:
+                  report.documentsChecked + pageReport.documentsChecked,
+                danglingReferences: Array.appendAll(
+                  report.danglingReferences,
+                  pageReport.danglingReferences,
+                ),
+              };
+
+              return pageReport.isDone
+                ? Effect.succeed(nextReport)
+                : checkTable(tableName, pageReport.continueCursor, nextReport);
+            }),
+          );
+
+        return yield* Effect.forEach(
+          tableNames ?? schemaTableNames,
+          (tableName) =>
+            checkTable(tableName, null, {
+              tableName,
+              documentsChecked: 0,
+              danglingReferences: [],
+            }),
+        );
+      }),
+  });
+
+  return { checkPage, check };
+};
+
+type Reference = Omit<DanglingReference, "id">;
+
+/**
+ * The `Id`s in the stored `value`, found by walking it alongside its encoded schema.
+ */
+const referencesIn = (
+  ast: SchemaAST.AST,
+  value: unknown,
+  fieldPath: string,
+): ReadonlyArray<Reference> =>
+  Option.match(Id.tableName(ast), {
+    onSome: (tableName) =>
+      Predicate.isString(value)
+        ? [
+            {
+              fieldPath,
+              referencedId: value,
+              referencedTableNames: [tableName],
+            },
+          ]
+        : [],
+    onNone: () => {
+      switch (ast._tag) {
+        case "TypeLiteral":
+          return Predicate.isRecord(value)
+            ? Array.flatMap(ast.propertySignatures, ({ name, type }) =>
+                referencesIn(
+                  type,
+                  value[name as string],
+                  String.isEmpty(fieldPath)
+                    ? (name as string)
+                    : `${fieldPath}.${name as string}`,
+                ),
+              )
+            : [];
+        case "TupleType":
+          return Array.isArray(value)
+            ? Array.flatMap(value, (element, index) =>
+                pipe(
+                  Array.get(ast.elements, index),
+                  Option.orElse(() => Array.head(ast.rest)),
+                  Option.match({
+                    onNone: () => [],
+                    onSome: ({ type }) =>
+                      referencesIn(type, element, `${fieldPath}[${index}]`),
+                  }),
+                ),
+              )
+            : [];
+        // A value may match more than one member, so its `Id`s may belong to any of their tables.
+        case "Union":
+          return pipe(
+            Array.filter(ast.types, (member) =>
+              Schema.is(Schema.make(member))(value),
+            ),
+            Array.flatMap((member) => referencesIn(member, value, fieldPath)),
+            Array.groupBy(
+              ({ fieldPath, referencedId }) => `${fieldPath}:${referencedId}`,
+            ),
+            Record.values,
+            Array.map(
+              ([first, ...rest]): Reference => ({
+                ...first,
+                referencedTableNames: Array.dedupe(
+                  Array.flatMap(
+                    [first, ...rest],
+                    (reference) => reference.referencedTableNames,
+                  ),
+                ),
+              }),
+            ),
+          );
+        case "Refinement":
+          return referencesIn(ast.from, value, fieldPath);
+        case "Transformation":
+          return referencesIn(ast.to, value, fieldPath);
+        case "Suspend":
+          return referencesIn(ast.f(), value, fieldPath);
+        default:
+          return [];
+      }
+    },
+  });
+
+/**
+ * An `Id` dangles unless it refers to a document in one of the tables it may belong to. It is looked up as stored, so documents which fail to decode, belong to another tenant or are soft-deleted still count.
+ */
+const isDangling = (
+  convexDb: GenericDatabaseReader<any>,
+  referencedId: string,
+  referencedTableNames: ReadonlyArray<string>,
+): Effect.Effect<boolean> =>
+  pipe(
+    referencedTableNames,
+    Effect.forEach((tableName) => {
+      const reader: Pick<
+        GenericDatabaseReader<GenericDataModel>,
+        "get" | "normalizeId"
+      > = String.startsWith("_")(tableName) ? convexDb.system : convexDb;
+
+      return Option.match(
+        Option.fromNullable(reader.normalizeId(tableName, referencedId)),
+        {
+          onNone: () => Effect.succeed(false),
+          onSome: (id) =>
+            Effect.promise(() => reader.get(id)).pipe(
+              Effect.map(Predicate.isNotNull),
+            ),
+        },
+      );
+    }),
+    Effect.map(Array.every((exists) => !exists)),
+  );
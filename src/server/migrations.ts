@@ -0,0 +1,426 @@
+import {
+  type GenericDatabaseReader,
+  type GenericDatabaseWriter,
+  type GenericDocument,
+  makeFunctionReference,
+} from "convex/server";
+import type { GenericId } from "convex/values";
+import {
+  Array,
+  Clock,
+  Effect,
+  Option,
+  Order,
+  Predicate,
+  Record,
+  Schema,
+  Struct,
+  pipe,
+} from "effect";
+
+import { ConfectMutationCtx, ConfectQueryCtx } from "~/src/server/ctx";
+import {
+  convexDatabaseReader,
+  convexDatabaseWriter,
+  indexKeyRange,
+} from "~/src/server/database";
+import { makeFunctions } from "~/src/server/functions";
+import type { ConfectScheduler } from "~/src/server/scheduler";
+import {
+  type ConfectDataModelFromConfectSchema,
+  type ConfectSchemaDefinition,
+  type GenericConfectSchema,
+  type MigrationRun,
+  type MigrationsSchema,
+  type TableNamesInConfectSchema,
+  migrationsTableName,
+} from "~/src/server/schema";
+
+/**
+ * A numbered change to the documents of a table, as they are stored. Each of a table's migrations runs over every one of its documents, in order of `version`.
+ */
+export interface Migration<TableName extends string> {
+  table: TableName;
+  version: number;
+  /**
+   * The new fields of a document, given the document as stored. Fields it leaves out are kept, fields it sets to `undefined` are removed, and system fields are left alone.
+   */
+  up: (document: GenericDocument) => GenericDocument;
+  /**
+   * Undo `up`, to roll the migration back. Its fields are applied the same way as those of `up`.
+   */
+  down?: (document: GenericDocument) => GenericDocument;
+}
+
+export const MigrationStatus = Schema.Struct({
+  tableName: Schema.String,
+  version: Schema.Number,
+  status: Schema.Literal(
+    "pending",
+    "running",
+    "applied",
+    "rollingBack",
+    "rolledBack",
+  ),
+  documentsMigrated: Schema.Number,
+});
+export type MigrationStatus = typeof MigrationStatus.Type;
+
+export const MigrationPreview = Schema.Struct({
+  id: Schema.String,
+  before: Schema.Any,
+  after: Schema.Any,
+});
+export type MigrationPreview = typeof MigrationPreview.Type;
+
+const MigrationArgs = Schema.Struct({
+  tableName: Schema.String,
+  version: Schema.Number,
+});
+
+/**
+ * Internal functions which migrate the documents of tables whose schema has changed. The schema must be defined with the `migrations` option, whose `confectMigrations` table records each migration's progress.
+ *
+ * - `run` starts the next migration of every table (or of `tableNames`) which hasn't been applied. A table's migrations run one after the other.
+ * - `runPage` migrates one batch of documents, then schedules itself for the next batch, picking up where the last batch ended. Export it at `runPagePath` (like `"migrations:runPage"`).
+ * - `status` reports the progress of every migration.
+ * - `rollback` runs `down` over the documents of a table's latest applied migration.
+ * - `dryRun` shows what `up` would make of the first documents of a table, without writing them.
+ *
+ * Migrations read and write documents as they are stored, whether or not they decode, and their writes don't run triggers or record history.
+ */
+export const makeMigrations = <
+  ConfectSchema extends GenericConfectSchema & MigrationsSchema,
+>(
+  confectSchemaDefinition: ConfectSchemaDefinition<ConfectSchema>,
+  {
+    migrations,
+    runPagePath,
+    pageSize = 100,
+  }: {
+    migrations: ReadonlyArray<
+      Migration<TableNamesInConfectSchema<ConfectSchema>>
+    >;
+    runPagePath: string;
+    pageSize?: number;
+  },
+) => {
+  type ConfectDataModel = ConfectDataModelFromConfectSchema<ConfectSchema>;
+
+  const { internalQuery, internalMutation } = makeFunctions(
+    confectSchemaDefinition,
+  );
+
+  const runPageReference = makeFunctionReference<
+    "mutation",
+    typeof MigrationArgs.Encoded,
+    null
+  >(runPagePath);
+
+  const migratedTableNames = Array.dedupe(
+    Array.map(migrations, ({ table }): string => table),
+  );
+
+  const migrationsOf = (tableName: string): ReadonlyArray<Migration<string>> =>
+    pipe(
+      migrations as ReadonlyArray<Migration<string>>,
+      Array.filter(({ table }) => table === tableName),
+      Array.sort(
+        Order.mapInput(
+          Order.number,
+          ({ version }: Migration<string>) => version,
+        ),
+      ),
+    );
+
+  const findMigration = (
+    tableName: string,
+    version: number,
+  ): Effect.Effect<Migration<string>> =>
+    pipe(
+      Array.findFirst(
+        migrationsOf(tableName),
+        (migration) => migration.version === version,
+      ),
+      Effect.orElse(() =>
+        Effect.dieMessage(
+          `Table '${tableName}' has no migration with version ${version}`,
+        ),
+      ),
+    );
+
+  const statusesOf = (
+    db: GenericDatabaseReader<any>,
+    tableName: string,
+  ): Effect.Effect<ReadonlyArray<MigrationStatus>> =>
+    Effect.forEach(migrationsOf(tableName), ({ version }) =>
+      pipe(
+        migrationRun(db, tableName, version),
+        Effect.map(
+          Option.match({
+            onNone: (): MigrationStatus => ({
+              tableName,
+              version,
+              status: "pending",
+              documentsMigrated: 0,
+            }),
+            onSome: ({ status, documentsMigrated }) => ({
+              tableName,
+              version,
+              status,
+              documentsMigrated,
+            }),
+          }),
+        ),
+      ),
+    );
+
+  /**
+   * Start the table's first migration which hasn't been applied, unless a migration of the table is already running.
+   */
+  const startNext = (
+    db: GenericDatabaseWriter<any>,
+    scheduler: ConfectScheduler,
+    tableName: string,
+  ): Effect.Effect<void> =>
+    Effect.gen(function* () {
+      const next = Array.findFirst(
+        yield* statusesOf(db, tableName),
+        ({ status }) => status !== "applied",
+      );
+
+      if (
+        Option.isSome(next) &&
+        (next.value.status === "pending" || next.value.status === "rolledBack")
+      ) {
+        yield* startRun(
+          db,
+          scheduler,
+          tableName,
+          next.value.version,
+          "running",
+        );
+      }
+    });
+
+  const startRun = (
+    db: GenericDatabaseWriter<any>,
+    scheduler: ConfectScheduler,
+    tableName: string,
+    version: number,
+    status: "running" | "rollingBack",
+  ): Effect.Effect<void> =>
+    Effect.gen(function* () {
+      const fields: typeof MigrationRun.Encoded = {
+        tableName,
+        version,
+        status,
+        cursor: null,
+        documentsMigrated: 0,
+        updatedAt: yield* Clock.currentTimeMillis,
+      };
+      const run = yield* migrationRun(db, tableName, version);
+
+      yield* Effect.promise(() =>
+        Option.match(run, {
+          onNone: (): Promise<unknown> =>
+            db.insert(migrationsTableName, fields),
+          onSome: ({ _id }) => db.patch(_id, fields),
+        }),
+      );
+      yield* scheduler.runAfter(0, runPageReference, { tableName, version });
+    });
+
+  const runPage = internalMutation({
+    args: MigrationArgs,
+    returns: Schema.Null,
+    handler: ({ tableName, version }) =>
+      Effect.gen(function* () {
+        const { db, scheduler } = yield* ConfectMutationCtx<ConfectDataModel>();
+        const convexDb = yield* convexDatabaseWriter(db);
+        const migration = yield* findMigration(tableName, version);
+        const run = yield* migrationRun(convexDb, tableName, version);
+
+        if (
+          Option.isNone(run) ||
+          (run.value.status !== "running" && run.value.status !== "rollingBack")
+        ) {
+          return null;
+        }
+
+        const { _id, status, cursor, documentsMigrated } = run.value;
+        const transform = status === "running" ? migration.up : migration.down;
+
+        if (transform === undefined) {
+          return yield* Effect.dieMessage(
+            `Migration ${version} of table '${tableName}' has no down`,
+          );
+        }
+
+        const { page, isDone, continueCursor } = yield* Effect.promise(() =>
+          convexDb.query(tableName).paginate({ cursor, numItems: pageSize }),
+        );
+
+        yield* Effect.forEach(
+          page,
+          (document) =>
+            Effect.promise(() =>
+              convexDb.patch(
+                document._id,
+                Struct.omit(transform(document), "_id", "_creationTime"),
+              ),
+            ),
+          { discard: true },
+        );
+
+        const updatedAt = yield* Clock.currentTimeMillis;
+
+        yield* Effect.promise(() =>
+          convexDb.patch(_id, {
+            status: isDone
+              ? status === "running"
+                ? "applied"
+                : "rolledBack"
+              : status,
+            cursor: continueCursor,
+            documentsMigrated: documentsMigrated + page.length,
+            updatedAt,
+          }),
+        );
+
+        if (!isDone) {
+          yield* scheduler.runAfter(0, runPageReference, {
+            tableName,
+            version,
+          });
+        } else if (status === "running") {
+          yield* startNext(convexDb, scheduler, tableName);
+        }
+
+        return null;
+      }),
+  });
+
+  const run = internalMutation({
+    args: Schema.Struct({
+      tableNames: Schema.optional(Schema.Array(Schema.String)),
+    }),
+    returns: Schema.Null,
+    handler: ({ tableNames }) =>
+      Effect.gen(function* () {
+        const { db, scheduler } = yield* ConfectMutationCtx<ConfectDataModel>();
+        const convexDb = yield* convexDatabaseWriter(db);
+
+        yield* Effect.forEach(
+          tableNames ?? migratedTableNames,
+          (tableName) => startNext(convexDb, scheduler, tableName),
+          { discard: true },
+        );
+
+        return null;
+      }),
+  });
+
+  const status = internalQuery({
+    args: Schema.Struct({}),
+    returns: Schema.Array(MigrationStatus),
+    handler: () =>
+      Effect.gen(function* () {
+        const { db } = yield* ConfectQueryCtx<ConfectDataModel>();
+        const convexDb = yield* convexDatabaseReader(db);
+
+        return yield* pipe(
+          migratedTableNames,
+          Effect.forEach((tableName) => statusesOf(convexDb, tableName)),
+          Effect.map(Array.flatten),
+        );
+      }),
+  });
+
+  const rollback = internalMutation({
+    args: MigrationArgs,
+    returns: Schema.Null,
+    handler: ({ tableName, version }) =>
+      Effect.gen(function* () {
+        const { db, scheduler } = yield* ConfectMutationCtx<ConfectDataModel>();
+        const convexDb = yield* convexDatabaseWriter(db);
+        const migration = yield* findMigration(tableName, version);
+        const latestApplied = pipe(
+          yield* statusesOf(convexDb, tableName),
+          Array.takeWhile(({ status }) => status === "applied"),
+          Array.last,
+        );
+
+        if (migration.down === undefined) {
+          return yield* Effect.dieMessage(
+            `Migration ${version} of table '${tableName}' has no down`,
+          );
+        }
+        if (
+          !Option.exists(latestApplied, (latest) => latest.version === version)
+        ) {
+          return yield* Effect.dieMessage(
+            `Migration ${version} of table '${tableName}' is not the table's latest applied migration`,
+          );
+        }
+
+        yield* startRun(convexDb, scheduler, tableName, version, "rollingBack");
+
+        return null;
+      }),
+  });
+
+  const dryRun = internalQuery({
+    args: Schema.Struct({
+      tableName: Schema.String,
+      version: Schema.Number,
+      numItems: Schema.optional(Schema.Number),
+    }),
+    returns: Schema.Array(MigrationPreview),
+    handler: ({ tableName, version, numItems = pageSize }) =>
+      Effect.gen(function* () {
+        const { db } = yield* ConfectQueryCtx<ConfectDataModel>();
+        const { up } = yield* findMigration(tableName, version);
+        const convexDb = yield* convexDatabaseReader(db);
+
+        return Array.map(
+          yield* Effect.promise(() => convexDb.query(tableName).take(numItems)),
+          (document) => ({
+            id: document._id,
+            before: document,
+            after: Record.filter(
+              { ...document, ...up(document) },
+              Predicate.isNotUndefined,
+            ),
+          }),
+        );
+      }),
+  });
+
+  return { run, runPage, status, rollback, dryRun };
+};
+
+type MigrationRunDocument = typeof MigrationRun.Encoded & {
+  _id: GenericId<typeof migrationsTableName>;
+};
+
+/**
+ * The `confectMigrations` row recording a migration's progress, unless it has never been started.
+ */
+const migrationRun = (
+  db: GenericDatabaseReader<any>,
+  tableName: string,
+  version: number,
+): Effect.Effect<Option.Option<MigrationRunDocument>> =>
+  pipe(
+    Effect.promise(() =>
+      db
+        .query(migrationsTableName)
+        .withIndex(
+          "by_tableName_and_version",
+          indexKeyRange({ tableName, version }),
+        )
+        .unique(),
+    ),
+    Effect.map(Option.fromNullable),
+  );
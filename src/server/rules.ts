@@ -0,0 +1,101 @@
+import type { WithoutSystemFields } from "convex/server";
+import { Effect, Record } from "effect";
+
+import { ConfectAuth } from "~/src/server/auth";
+import type {
+  ConfectDocumentByName,
+  GenericConfectDataModel,
+  TableNamesInConfectDataModel,
+} from "~/src/server/data-model";
+import {
+  type ConfectDatabaseReader,
+  ConfectDatabaseReaderImpl,
+  type ConfectDatabaseWriter,
+  ConfectDatabaseWriterImpl,
+  type DatabaseRules,
+  type TableRules,
+} from "~/src/server/database";
+
+/**
+ * The rules of each table. They can use `ConfectAuth` to decide for the current user.
+ */
+export type Rules<ConfectDataModel extends GenericConfectDataModel> = {
+  [TableName in TableNamesInConfectDataModel<ConfectDataModel>]?: TableRules<
+    ConfectDataModel[TableName]["confectDocument"],
+    WithoutSystemFields<ConfectDocumentByName<ConfectDataModel, TableName>>,
+    ConfectAuth
+  >;
+};
+
+/**
+ * Check every read and write made through `db` against `rules`, replacing any rules it was already checked against but keeping its tenant. `db` must come from the context of a Confect function.
+ */
+export const withRules: {
+  <ConfectDataModel extends GenericConfectDataModel>(
+    db: ConfectDatabaseWriter<ConfectDataModel>,
+    rules: Rules<ConfectDataModel>,
+  ): Effect.Effect<ConfectDatabaseWriter<ConfectDataModel>, never, ConfectAuth>;
+  <ConfectDataModel extends GenericConfectDataModel>(
+    db: ConfectDatabaseReader<ConfectDataModel>,
+    rules: Rules<ConfectDataModel>,
+  ): Effect.Effect<ConfectDatabaseReader<ConfectDataModel>, never, ConfectAuth>;
+} = (
+  db: ConfectDatabaseReader<any> | ConfectDatabaseWriter<any>,
+  rules: Rules<any>,
+): Effect.Effect<any, never, ConfectAuth> =>
+  Effect.flatMap(
+    ConfectAuth,
+    (
+      auth,
+    ): Effect.Effect<
+      ConfectDatabaseReader<any> | ConfectDatabaseWriter<any>
+    > => {
+      const databaseRules = provideAuth(rules, auth);
+
+      return db instanceof ConfectDatabaseWriterImpl
+        ? Effect.succeed(
+            new ConfectDatabaseWriterImpl(
+              db.db,
+              db.confectSchemaDefinition,
+              db.triggers,
+              databaseRules,
+              db.tenantId,
+            ),
+          )
+        : db instanceof ConfectDatabaseReaderImpl
+          ? Effect.succeed(
+              new ConfectDatabaseReaderImpl(
+                db.db,
+                db.confectSchemaDefinition,
+                db.tableNameResolver,
+                databaseRules,
+                db.tenantId,
+              ),
+            )
+          : Effect.dieMessage(
+              "withRules needs a database from the context of a Confect function",
+            );
+    },
+  );
+
+/**
+ * Provide `auth` to every rule.
+ */
+export const provideAuth = <ConfectDataModel extends GenericConfectDataModel>(
+  rules: Rules<ConfectDataModel>,
+  auth: ConfectAuth,
+): DatabaseRules =>
+  Record.map(
+    // Each table's rules are mapped alike, whichever operation they're for.
+    rules as unknown as Record.ReadonlyRecord<
+      string,
+      Record.ReadonlyRecord<
+        string,
+        (subject: unknown) => Effect.Effect<boolean, never, ConfectAuth>
+      >
+    >,
+    Record.map(
+      (rule) => (subject: unknown) =>
+        rule(subject).pipe(Effect.provideService(ConfectAuth, auth)),
+    ),
+  );
@@ -14,13 +14,29 @@ import {
   defineSchema as defineConvexSchema,
   defineTable as defineConvexTable,
 } from "convex/server";
-import type { Validator } from "convex/values";
-import { Record, Schema, pipe } from "effect";
+import type { VFloat64, VObject, VUnion, Validator } from "convex/values";
+import {
+  Array,
+  Cause,
+  Data,
+  type Effect,
+  Either,
+  Exit,
+  Option,
+  type ParseResult,
+  Record,
+  Schema,
+  SchemaAST,
+  Struct,
+  pipe,
+} from "effect";
 
+import type { IdFieldName } from "~/src/server/database";
 import {
   type TableSchemaToTableValidator,
   compileTableSchema,
 } from "~/src/server/schema-to-validator";
+import * as Id from "~/src/server/schemas/Id";
 import {
   type ExtendWithSystemFields,
   extendWithSystemFields,
@@ -66,13 +82,259 @@ const tableSchemasFromConfectSchema = <
     })),
   }) as any;
 
+/**
+ * Decoders and encoders for the documents of a single table.
+ */
+export interface TableCodec<Document, EncodedDocument> {
+  /**
+   * Decode a document read from the database, including its system fields. Excess properties are an error.
+   */
+  decodeDocument: (
+    convexDocument: unknown,
+  ) => Either.Either<Document, ParseResult.ParseError>;
+  /**
+   * Decode the fields of a document, ignoring its system fields.
+   */
+  decodeFields: (
+    value: unknown,
+  ) => Effect.Effect<
+    Omit<Document, "_id" | "_creationTime">,
+    ParseResult.ParseError
+  >;
+  /**
+   * Encode the fields of a document, dropping its system fields.
+   */
+  encodeFields: (
+    value: unknown,
+  ) => Effect.Effect<
+    Omit<EncodedDocument, "_id" | "_creationTime">,
+    ParseResult.ParseError
+  >;
+  /**
+   * Encode some of the fields of a document, each on its own. Optional fields may be `undefined`, to unset them.
+   *
+   * `None` when the table schema is not a plain struct (a union, or a struct with refinements or transformations of its own), because then fields can only be encoded together.
+   */
+  encodePatch: Option.Option<
+    (
+      value: unknown,
+    ) => Effect.Effect<
+      Partial<Omit<EncodedDocument, "_id" | "_creationTime">>,
+      ParseResult.ParseError
+    >
+  >;
+  /**
+   * Encode the value of a field, given its path, as an index compares it. System fields are left as they are. Fails with the `ParseError` of a value which doesn't encode, and dies for a field which can't be found in the table schema (like a field of a union).
+   */
+  encodeFieldValue: (
+    fieldPath: string,
+    value: unknown,
+  ) => Exit.Exit<unknown, ParseResult.ParseError>;
+  /**
+   * The index of the old version a document read from the database is upcast from, in the table's `versions`. `None` when it decodes with the table schema, or with none of its versions.
+   */
+  oldVersion: (convexDocument: unknown) => Option.Option<number>;
+}
+
+const makeTableCodec = (
+  tableName: string,
+  tableSchema: Schema.Schema<any, any>,
+  versions: ReadonlyArray<TableVersion> = [],
+): TableCodec<any, any> => {
+  const documentDecoder = makeUpcastingDecoder(
+    tableSchema,
+    versions,
+    (schema) => extendWithSystemFields(tableName, schema),
+    { onExcessProperty: "error" },
+  );
+  const fieldsDecoder = makeUpcastingDecoder(
+    tableSchema,
+    versions,
+    (schema) => schema,
+    {},
+  );
+
+  return {
+    decodeDocument: documentDecoder.decode,
+    decodeFields: fieldsDecoder.decode,
+    encodeFields: Schema.encodeUnknown(tableSchema),
+    encodeFieldValue: (fieldPath, value) =>
+      Option.match(fieldAst(tableSchema.ast, fieldPath), {
+        onNone: () =>
+          fieldPath === "_id" || fieldPath === "_creationTime"
+            ? Exit.succeed(value)
+            : Exit.die(
+                new Cause.RuntimeException(
+                  `Field '${fieldPath}' of table '${tableName}' can't be found in its table schema, to encode a value for its index`,
+                ),
+              ),
+        onSome: (ast) =>
+          Either.match(Schema.encodeUnknownEither(Schema.make(ast))(value), {
+            onLeft: Exit.fail,
+            onRight: Exit.succeed,
+          }),
+      }),
+    // Patching a document on an old version would leave it half upcast, so it is re-encoded and replaced instead.
+    encodePatch: Array.isEmptyReadonlyArray(versions)
+      ? encodePatchOf(tableSchema)
+      : Option.none(),
+    oldVersion: documentDecoder.oldVersion,
+  };
+};
+
+/**
+ * The schema of a field, given its path, looking through nested structs, including optional ones.
+ */
+const fieldAst = (
+  ast: SchemaAST.AST,
+  fieldPath: string,
+): Option.Option<SchemaAST.AST> =>
+  Array.reduce(fieldPath.split("."), Option.some(ast), (parent, name) =>
+    pipe(
+      parent,
+      Option.map(withoutUndefined),
+      Option.flatMap(Option.liftThrowable(SchemaAST.getPropertySignatures)),
+      Option.flatMap(Array.findFirst((signature) => signature.name === name)),
+      Option.map(({ type }) => type),
+    ),
+  );
+
+/**
+ * An optional field's type, without the `undefined` which `Schema.optional` adds.
+ */
+export const withoutUndefined = (ast: SchemaAST.AST): SchemaAST.AST =>
+  SchemaAST.isUnion(ast)
+    ? SchemaAST.Union.make(
+        Array.filter(ast.types, (type) => !SchemaAST.isUndefinedKeyword(type)),
+      )
+    : ast;
+
+interface UpcastingDecoder {
+  decode: (value: unknown) => Either.Either<any, ParseResult.ParseError>;
+  oldVersion: (value: unknown) => Option.Option<number>;
+}
+
+/**
+ * Decode with the table schema or, failing that, with the newest old version which decodes the value, and upcast the result through every later version. The upcast value must still be valid for the table schema.
+ */
+const makeUpcastingDecoder = (
+  tableSchema: Schema.Schema<any, any>,
+  versions: ReadonlyArray<TableVersion>,
+  withSystemFields: (
+    schema: Schema.Schema.AnyNoContext,
+  ) => Schema.Schema.AnyNoContext,
+  parseOptions: SchemaAST.ParseOptions,
+): UpcastingDecoder => {
+  const decode = Schema.decodeUnknownEither(
+    withSystemFields(tableSchema),
+    parseOptions,
+  );
+  const validate = Schema.validateEither(withSystemFields(tableSchema));
+  const versionDecoders = pipe(
+    versions,
+    Array.map(({ schema }, index) => ({
+      index,
+      decode: Schema.decodeUnknownEither(
+        withSystemFields(schema),
+        parseOptions,
+      ),
+      upcasts: Array.drop(versions, index),
+    })),
+    Array.reverse,
+  );
+
+  const decodeOldVersion = (value: unknown) =>
+    Array.findFirst(versionDecoders, ({ index, decode, upcasts }) =>
+      pipe(
+        Either.getRight(decode(value)),
+        Option.map((decoded) => ({ index, decoded, upcasts })),
+      ),
+    );
+
+  return {
+    decode: (value) =>
+      Either.orElse(decode(value), (error) =>
+        Option.match(decodeOldVersion(value), {
+          onNone: () => Either.left(error),
+          onSome: ({ decoded, upcasts }) =>
+            validate({
+              ...Array.reduce(
+                upcasts,
+                Struct.omit(
+                  decoded as Record.ReadonlyRecord<string, unknown>,
+                  "_id",
+                  "_creationTime",
+                ),
+                (fields, { upcast }) =>
+                  upcast(fields) as Record.ReadonlyRecord<string, unknown>,
+              ),
+              ...Struct.pick(decoded, "_id", "_creationTime"),
+            }),
+        }),
+      ),
+    oldVersion: (value) =>
+      Either.isRight(decode(value))
+        ? Option.none()
+        : Option.map(decodeOldVersion(value), ({ index }) => index),
+  };
+};
+
+const encodePatchOf = (
+  tableSchema: Schema.Schema<any, any>,
+): TableCodec<any, any>["encodePatch"] =>
+  pipe(
+    tableSchema.ast,
+    Option.liftPredicate(SchemaAST.isTypeLiteral),
+    Option.map(({ propertySignatures }) =>
+      Schema.encodeUnknown(
+        // Every field becomes optional, but only fields which were already optional may be `undefined`.
+        Schema.make<any, any, never>(
+          new SchemaAST.TypeLiteral(
+            Array.map(
+              propertySignatures,
+              ({ name, type, isOptional, isReadonly, annotations }) =>
+                new SchemaAST.PropertySignature(
+                  name,
+                  isOptional
+                    ? SchemaAST.Union.make([type, SchemaAST.undefinedKeyword])
+                    : type,
+                  true,
+                  isReadonly,
+                  annotations,
+                ),
+            ),
+            [],
+          ),
+        ),
+      ),
+    ),
+  );
+
+// Compiled once and shared by every schema definition.
+const confectSystemTableCodecs = Record.map(
+  confectTableSchemas,
+  (tableSchema, tableName) => makeTableCodec(tableName, tableSchema),
+);
+
+const tableCodecsFromConfectSchema = <
+  ConfectSchema extends GenericConfectSchema,
+>(
+  confectSchema: ConfectSchema,
+): TableCodecsFromConfectSchema<ConfectSchema> =>
+  ({
+    ...Record.map(confectSchema, ({ tableSchema, versions }, tableName) =>
+      makeTableCodec(tableName, tableSchema, versions),
+    ),
+    ...confectSystemTableCodecs,
+  }) as any;
+
 /**
  * A Confect schema is a record of table definitions.
  */
 export type GenericConfectSchema = Record<any, GenericConfectTableDefinition>;
 
 /**
- * A Confect schema definition tracks the Confect schema, its Convex schema definition, and all of its table schemas.
+ * A Confect schema definition tracks the Confect schema, its Convex schema definition, and all of its table schemas and their compiled codecs.
  */
 export type GenericConfectSchemaDefinition =
   ConfectSchemaDefinition<GenericConfectSchema>;
@@ -86,6 +348,19 @@ export interface ConfectSchemaDefinition<
     true
   >;
   tableSchemas: TableSchemasFromConfectSchema<ConfectSchema>;
+  tableCodecs: TableCodecsFromConfectSchema<ConfectSchema>;
+  /**
+   * The references with a referential action to each table, by the name of the table they refer to.
+   */
+  references: Record.ReadonlyRecord<string, ReadonlyArray<Reference>>;
+  /**
+   * The tables whose writes are recorded in the `confectHistory` table.
+   */
+  historyTableNames: ReadonlyArray<string>;
+  /**
+   * The tenant tables, by name.
+   */
+  tenants: Record.ReadonlyRecord<string, Tenant>;
 }
 
 class ConfectSchemaDefinitionImpl<ConfectSchema extends GenericConfectSchema>
@@ -97,8 +372,15 @@ class ConfectSchemaDefinitionImpl<ConfectSchema extends GenericConfectSchema>
     true
   >;
   tableSchemas: TableSchemasFromConfectSchema<ConfectSchema>;
+  tableCodecs: TableCodecsFromConfectSchema<ConfectSchema>;
+  references: Record.ReadonlyRecord<string, ReadonlyArray<Reference>>;
+  historyTableNames: ReadonlyArray<string>;
+  tenants: Record.ReadonlyRecord<string, Tenant>;
 
-  constructor(confectSchema: ConfectSchema) {
+  constructor(
+    confectSchema: ConfectSchema,
+    historyTableNames: ReadonlyArray<string> = [],
+  ) {
     this.confectSchema = confectSchema;
     this.convexSchemaDefinition = pipe(
       confectSchema,
@@ -109,6 +391,10 @@ class ConfectSchemaDefinitionImpl<ConfectSchema extends GenericConfectSchema>
       true
     >;
     this.tableSchemas = tableSchemasFromConfectSchema(confectSchema);
+    this.tableCodecs = tableCodecsFromConfectSchema(confectSchema);
+    this.references = referencesFromConfectSchema(confectSchema);
+    this.historyTableNames = historyTableNames;
+    this.tenants = tenantsFromConfectSchema(confectSchema);
   }
 }
 
@@ -122,16 +408,58 @@ type SchemaDefinitionFromConfectSchemaDefinition<
 /**
  * Define a Confect schema.
  */
-export const defineSchema = <ConfectSchema extends GenericConfectSchema>(
-  confectSchema: ConfectSchema,
-): ConfectSchemaDefinition<ConfectSchema> =>
-  new ConfectSchemaDefinitionImpl<ConfectSchema>(confectSchema);
+export const defineSchema: {
+  <ConfectSchema extends GenericConfectSchema>(
+    confectSchema: ConfectSchema,
+  ): ConfectSchemaDefinition<ConfectSchema>;
+  <
+    ConfectSchema extends GenericConfectSchema,
+    const Options extends SchemaOptions<keyof ConfectSchema & string>,
+  >(
+    confectSchema: ConfectSchema,
+    options: Options,
+  ): ConfectSchemaDefinition<ConfectSchema & GeneratedSchema<Options>>;
+} = (
+  confectSchema: GenericConfectSchema,
+  options?: SchemaOptions<string>,
+): GenericConfectSchemaDefinition =>
+  options === undefined
+    ? new ConfectSchemaDefinitionImpl(confectSchema)
+    : new ConfectSchemaDefinitionImpl<GenericConfectSchema>(
+        {
+          ...confectSchema,
+          ...(options.history === undefined ? {} : historySchema),
+          ...(options.migrations === true ? migrationsSchema : {}),
+        },
+        options.history,
+      );
+
+export interface SchemaOptions<TableName extends string> {
+  /**
+   * The tables whose every write is recorded in a generated `confectHistory` table: the document before and after, when, and by whom.
+   */
+  history?: ReadonlyArray<TableName>;
+  /**
+   * Add a generated `confectMigrations` table, which records the progress of the migrations run by `makeMigrations`.
+   */
+  migrations?: boolean;
+}
+
+/**
+ * The tables generated for the options of a schema.
+ */
+type GeneratedSchema<Options extends SchemaOptions<string>> =
+  // biome-ignore lint/complexity/noBannedTypes:
+  (Options["history"] extends ReadonlyArray<string> ? HistorySchema : {}) &
+    // biome-ignore lint/complexity/noBannedTypes:
+    (Options["migrations"] extends true ? MigrationsSchema : {});
 
 export type GenericConfectTableDefinition = ConfectTableDefinition<
   any,
   any,
   any,
   any,
+  any,
   any
 >;
 
@@ -148,6 +476,7 @@ export interface ConfectTableDefinition<
   SearchIndexes extends GenericTableSearchIndexes = {},
   // biome-ignore lint/complexity/noBannedTypes:
   VectorIndexes extends GenericTableVectorIndexes = {},
+  TenantField extends string = never,
 > {
   tableDefinition: TableDefinition<
     TableValidator,
@@ -156,6 +485,34 @@ export interface ConfectTableDefinition<
     VectorIndexes
   >;
   tableSchema: TableSchema;
+  /**
+   * The fields of each index, in order and without the `_creationTime` tiebreaker.
+   */
+  indexFields: Record.ReadonlyRecord<string, ReadonlyArray<string>>;
+  /**
+   * The filter fields of each search index.
+   */
+  searchIndexFilterFields: Record.ReadonlyRecord<string, ReadonlyArray<string>>;
+  /**
+   * The names of the indexes whose fields must be unique across the table.
+   */
+  uniqueConstraints: ReadonlyArray<string>;
+  /**
+   * What to do with this table's documents when the document one of their `Id` fields refers to is deleted.
+   */
+  onDelete: Record.ReadonlyRecord<string, ReferentialAction>;
+  /**
+   * Whether `delete` only marks this table's documents as deleted. See `softDelete`.
+   */
+  softDeletes: boolean;
+  /**
+   * The field holding the tenant each of this table's documents belongs to. See `withTenant`.
+   */
+  tenantField: Option.Option<TenantField>;
+  /**
+   * The old versions of this table's schema, oldest first, whose documents are upcast as they are read.
+   */
+  versions: ReadonlyArray<TableVersion>;
 
   index<
     IndexName extends string,
@@ -175,7 +532,32 @@ export interface ConfectTableDefinition<
         >
     >,
     SearchIndexes,
-    VectorIndexes
+    VectorIndexes,
+    TenantField
+  >;
+  /**
+   * Define an index whose fields must be unique across the table. Writes which would break it fail with `UniqueConstraintViolation`. Documents without a value for one of the fields, and soft-deleted documents, are not constrained. On a tenant table, the fields only need to be unique within each tenant.
+   */
+  unique<
+    IndexName extends string,
+    FirstFieldPath extends ExtractFieldPaths<TableValidator>,
+    RestFieldPaths extends ExtractFieldPaths<TableValidator>[],
+  >(
+    name: IndexName,
+    fields: [FirstFieldPath, ...RestFieldPaths],
+  ): ConfectTableDefinition<
+    TableSchema,
+    TableValidator,
+    Expand<
+      Indexes &
+        Record<
+          IndexName,
+          [FirstFieldPath, ...RestFieldPaths, IndexTiebreakerField]
+        >
+    >,
+    SearchIndexes,
+    VectorIndexes,
+    TenantField
   >;
   searchIndex<
     IndexName extends string,
@@ -198,7 +580,8 @@ export interface ConfectTableDefinition<
           }
         >
     >,
-    VectorIndexes
+    VectorIndexes,
+    TenantField
   >;
   vectorIndex<
     IndexName extends string,
@@ -222,7 +605,19 @@ export interface ConfectTableDefinition<
             filterFields: FilterFields;
           }
         >
-    >
+    >,
+    TenantField
+  >;
+  /**
+   * Add an optional `deletedAt` field, which `delete` sets to the current time instead of removing the document. Queries and `get` leave out deleted documents, unless a query asks for them with `includeDeleted`. `restore` undeletes a document, and `purge` removes it for good.
+   */
+  softDelete(): ConfectTableDefinition<
+    SoftDeleteTableSchema<TableSchema>,
+    SoftDeleteTableValidator<TableValidator>,
+    Indexes,
+    SearchIndexes,
+    VectorIndexes,
+    TenantField
   >;
 }
 
@@ -254,13 +649,15 @@ class ConfectTableDefinitionImpl<
   SearchIndexes extends GenericTableSearchIndexes = {},
   // biome-ignore lint/complexity/noBannedTypes:
   VectorIndexes extends GenericTableVectorIndexes = {},
+  TenantField extends string = never,
 > implements
     ConfectTableDefinition<
       TableSchema,
       TableValidator,
       Indexes,
       SearchIndexes,
-      VectorIndexes
+      VectorIndexes,
+      TenantField
     >
 {
   tableSchema: TableSchema;
@@ -270,10 +667,31 @@ class ConfectTableDefinitionImpl<
     SearchIndexes,
     VectorIndexes
   >;
+  indexFields: Record.ReadonlyRecord<string, ReadonlyArray<string>>;
+  searchIndexFilterFields: Record.ReadonlyRecord<string, ReadonlyArray<string>>;
+  uniqueConstraints: ReadonlyArray<string>;
+  onDelete: Record.ReadonlyRecord<string, ReferentialAction>;
+  softDeletes: boolean;
+  tenantField: Option.Option<TenantField>;
+  versions: ReadonlyArray<TableVersion>;
 
-  constructor(tableSchema: TableSchema, tableValidator: TableValidator) {
+  constructor(
+    tableSchema: TableSchema,
+    tableValidator: TableValidator,
+    options: TableOptions<TableSchema, TenantField>,
+  ) {
     this.tableSchema = tableSchema;
     this.tableDefinition = defineConvexTable(tableValidator);
+    this.indexFields = {};
+    this.searchIndexFilterFields = {};
+    this.uniqueConstraints = [];
+    this.onDelete = (options.onDelete ?? {}) as Record.ReadonlyRecord<
+      string,
+      ReferentialAction
+    >;
+    this.softDeletes = false;
+    this.tenantField = Option.fromNullable(options.tenantField);
+    this.versions = options.versions ?? [];
   }
 
   index<
@@ -294,13 +712,41 @@ class ConfectTableDefinitionImpl<
         >
     >,
     SearchIndexes,
-    VectorIndexes
+    VectorIndexes,
+    TenantField
   > {
     this.tableDefinition = this.tableDefinition.index(name, fields);
+    this.indexFields = Record.set(this.indexFields, name, fields);
 
     return this;
   }
 
+  unique<
+    IndexName extends string,
+    FirstFieldPath extends ExtractFieldPaths<TableValidator>,
+    RestFieldPaths extends ExtractFieldPaths<TableValidator>[],
+  >(
+    name: IndexName,
+    fields: [FirstFieldPath, ...RestFieldPaths],
+  ): ConfectTableDefinition<
+    TableSchema,
+    TableValidator,
+    Expand<
+      Indexes &
+        Record<
+          IndexName,
+          [FirstFieldPath, ...RestFieldPaths, IndexTiebreakerField]
+        >
+    >,
+    SearchIndexes,
+    VectorIndexes,
+    TenantField
+  > {
+    this.uniqueConstraints = Array.append(this.uniqueConstraints, name);
+
+    return this.index(name, fields);
+  }
+
   searchIndex<
     IndexName extends string,
     SearchField extends ExtractFieldPaths<TableValidator>,
@@ -322,9 +768,15 @@ class ConfectTableDefinitionImpl<
           }
         >
     >,
-    VectorIndexes
+    VectorIndexes,
+    TenantField
   > {
     this.tableDefinition = this.tableDefinition.searchIndex(name, indexConfig);
+    this.searchIndexFilterFields = Record.set(
+      this.searchIndexFilterFields,
+      name,
+      indexConfig.filterFields ?? [],
+    );
 
     return this;
   }
@@ -355,27 +807,370 @@ class ConfectTableDefinitionImpl<
             filterFields: FilterFields;
           }
         >
-    >
+    >,
+    TenantField
   > {
     this.tableDefinition = this.tableDefinition.vectorIndex(name, indexConfig);
 
     return this;
   }
+
+  softDelete(): ConfectTableDefinition<
+    SoftDeleteTableSchema<TableSchema>,
+    SoftDeleteTableValidator<TableValidator>,
+    Indexes,
+    SearchIndexes,
+    VectorIndexes,
+    TenantField
+  > {
+    const tableSchema: Schema.Schema.AnyNoContext = Schema.extend(
+      this.tableSchema as Schema.Schema.AnyNoContext,
+      SoftDeleteFields,
+    );
+
+    this.tableSchema = tableSchema as TableSchema;
+    this.versions = Array.map(this.versions, ({ schema, upcast }) => ({
+      schema: Schema.extend(schema, SoftDeleteFields),
+      upcast: ({ deletedAt, ...fields }) => ({
+        ...(upcast(fields) as Record.ReadonlyRecord<string, unknown>),
+        ...(deletedAt === undefined ? {} : { deletedAt }),
+      }),
+    }));
+    // Replacing the validator keeps the indexes already defined.
+    this.tableDefinition.validator = compileVersionedTableSchema(
+      tableSchema,
+      this.versions,
+    ) as TableValidator;
+    this.softDeletes = true;
+
+    return this as unknown as ConfectTableDefinition<
+      SoftDeleteTableSchema<TableSchema>,
+      SoftDeleteTableValidator<TableValidator>,
+      Indexes,
+      SearchIndexes,
+      VectorIndexes,
+      TenantField
+    >;
+  }
 }
 
+const SoftDeleteFields = Schema.Struct({
+  deletedAt: Schema.optional(Schema.Number),
+});
+
+/**
+ * A table schema with the `deletedAt` field of a soft-delete table.
+ */
+export type SoftDeleteTableSchema<
+  TableSchema extends Schema.Schema.AnyNoContext,
+> = Schema.Schema<
+  Schema.Schema.Type<TableSchema> & typeof SoftDeleteFields.Type,
+  Schema.Schema.Encoded<TableSchema> & typeof SoftDeleteFields.Encoded
+>;
+
+/**
+ * A table validator with the `deletedAt` field of a soft-delete table.
+ */
+export type SoftDeleteTableValidator<TableValidator> =
+  TableValidator extends VObject<
+    infer Type,
+    infer Fields,
+    infer IsOptional,
+    infer FieldPaths
+  >
+    ? VObject<
+        Expand<Type & typeof SoftDeleteFields.Encoded>,
+        Expand<
+          Fields & { deletedAt: VFloat64<number | undefined, "optional"> }
+        >,
+        IsOptional,
+        FieldPaths | "deletedAt"
+      >
+    : TableValidator extends VUnion<
+          infer Type,
+          infer Members,
+          infer IsOptional,
+          infer FieldPaths
+        >
+      ? VUnion<
+          Type & typeof SoftDeleteFields.Encoded,
+          {
+            [Index in keyof Members]: SoftDeleteTableValidator<Members[Index]>;
+          },
+          IsOptional,
+          FieldPaths | "deletedAt"
+        >
+      : never;
+
 /**
  * Define a Confect table.
  */
-export const defineTable = <TableSchema extends Schema.Schema.AnyNoContext>(
+export const defineTable = <
+  TableSchema extends Schema.Schema.AnyNoContext,
+  TenantField extends TenantFieldName<Schema.Schema.Type<TableSchema>> = never,
+>(
   tableSchema: TableSchema,
-): ConfectTableDefinition<TableSchema> => {
-  const tableValidator = compileTableSchema(tableSchema);
+  options: TableOptions<TableSchema, TenantField> = {},
+): ConfectTableDefinition<
+  TableSchema,
+  TableSchemaToTableValidator<TableSchema>,
+  // biome-ignore lint/complexity/noBannedTypes:
+  {},
+  // biome-ignore lint/complexity/noBannedTypes:
+  {},
+  // biome-ignore lint/complexity/noBannedTypes:
+  {},
+  TenantField
+> => {
+  const tableValidator = compileVersionedTableSchema(
+    tableSchema,
+    options.versions ?? [],
+  );
   return new ConfectTableDefinitionImpl(
     tableSchema,
     tableValidator,
-  ) as ConfectTableDefinition<TableSchema>;
+    options,
+  ) as unknown as ConfectTableDefinition<
+    TableSchema,
+    TableSchemaToTableValidator<TableSchema>,
+    // biome-ignore lint/complexity/noBannedTypes:
+    {},
+    // biome-ignore lint/complexity/noBannedTypes:
+    {},
+    // biome-ignore lint/complexity/noBannedTypes:
+    {},
+    TenantField
+  >;
+};
+
+/**
+ * What to do with a document when the document one of its `Id` fields refers to is deleted:
+ * - `"cascade"` deletes it too.
+ * - `"restrict"` fails the delete with `ReferencedDocumentError`.
+ * - `"unset"` removes the field, which must be optional.
+ */
+export type ReferentialAction = "cascade" | "restrict" | "unset";
+
+export interface TableOptions<
+  TableSchema extends Schema.Schema.AnyNoContext,
+  TenantField extends string = never,
+> {
+  /**
+   * The referential action for each `Id` field. The table needs an index whose first field is the `Id` field, to find the documents which refer to a deleted document.
+   */
+  onDelete?: OnDeleteOptions<Schema.Schema.Type<TableSchema>>;
+  /**
+   * The required string field, such as an `Id` of an organizations table, holding the tenant each document belongs to. The table needs an index whose first field is the tenant field, which a tenant-scoped database reads through.
+   */
+  tenantField?: TenantField;
+  /**
+   * The old versions of the table schema, oldest first. A document which doesn't decode with the table schema is decoded with the newest old version it matches, then upcast through each later version. The table's validator accepts every version, while writes always encode with the table schema. The newest version must upcast to the table schema's type.
+   */
+  versions?: readonly [
+    ...ReadonlyArray<TableVersion>,
+    TableVersion<Schema.Schema.AnyNoContext, Schema.Schema.Type<TableSchema>>,
+  ];
+}
+
+/**
+ * An old version of a table schema, and how to upcast the fields it decodes to those of the next version (or of the table schema, for the newest version).
+ */
+export interface TableVersion<
+  VersionSchema extends Schema.Schema.AnyNoContext = Schema.Schema.AnyNoContext,
+  Next = unknown,
+> {
+  schema: VersionSchema;
+  upcast(fields: Schema.Schema.Type<VersionSchema>): Next;
+}
+
+/**
+ * Define an old version of a table schema. See `TableOptions.versions`.
+ */
+export const tableVersion = <
+  VersionSchema extends Schema.Schema.AnyNoContext,
+  Next,
+>(
+  schema: VersionSchema,
+  upcast: (fields: Schema.Schema.Type<VersionSchema>) => Next,
+): TableVersion<VersionSchema, Next> => ({ schema, upcast });
+
+/**
+ * A validator for a table schema, which also accepts the documents of its old versions.
+ */
+const compileVersionedTableSchema = (
+  tableSchema: Schema.Schema.AnyNoContext,
+  versions: ReadonlyArray<TableVersion>,
+) =>
+  Array.isEmptyReadonlyArray(versions)
+    ? compileTableSchema(tableSchema)
+    : compileTableSchema(
+        Schema.Union(
+          tableSchema,
+          ...Array.map(versions, ({ schema }) => schema),
+        ),
+      );
+
+/**
+ * The fields which can hold a document's tenant: required, and stored as strings.
+ */
+export type TenantFieldName<Document> = {
+  [FieldName in keyof Document &
+    string]-?: undefined extends Document[FieldName]
+    ? never
+    : Document[FieldName] extends string
+      ? FieldName
+      : never;
+}[keyof Document & string];
+
+type OnDeleteOptions<Document> = {
+  [FieldName in IdFieldName<Document>]?: undefined extends Document[FieldName]
+    ? ReferentialAction
+    : Exclude<ReferentialAction, "unset">;
 };
 
+/**
+ * A table's `Id` field with a referential action.
+ */
+export interface Reference {
+  tableName: string;
+  fieldName: string;
+  indexName: string;
+  onDelete: ReferentialAction;
+}
+
+/**
+ * Find the index used by each referential action, and group them by the table they refer to.
+ */
+const referencesFromConfectSchema = (
+  confectSchema: GenericConfectSchema,
+): Record.ReadonlyRecord<string, ReadonlyArray<Reference>> =>
+  pipe(
+    Record.toEntries(confectSchema),
+    Array.flatMap(([tableName, { tableSchema, indexFields, onDelete }]) =>
+      Array.map(Record.toEntries(onDelete), ([fieldName, action]) => {
+        const referencedTableName = Option.getOrThrowWith(
+          referencedTableNameOfField(tableSchema, fieldName),
+          () => new NotAnIdFieldError({ tableName, fieldName }),
+        );
+        const indexName = pipe(
+          Record.toEntries(indexFields),
+          Array.findFirst(([, [first]]) => first === fieldName),
+          Option.map(([indexName]) => indexName),
+          Option.getOrThrowWith(
+            () => new ReferenceIndexNotFoundError({ tableName, fieldName }),
+          ),
+        );
+
+        return [
+          referencedTableName,
+          { tableName, fieldName, indexName, onDelete: action },
+        ] as const;
+      }),
+    ),
+    Array.groupBy(([referencedTableName]) => referencedTableName),
+    Record.map(Array.map(([, reference]) => reference)),
+  );
+
+/**
+ * A table's tenant field, and the indexes a tenant-scoped database can read the table through.
+ */
+export interface Tenant {
+  fieldName: string;
+  /**
+   * The index a tenant-scoped database reads the table through when a query names none.
+   */
+  indexName: string;
+  /**
+   * The indexes whose first field is the tenant field.
+   */
+  indexNames: ReadonlyArray<string>;
+  /**
+   * The search indexes with the tenant field as a filter field.
+   */
+  searchIndexNames: ReadonlyArray<string>;
+}
+
+const tenantsFromConfectSchema = (
+  confectSchema: GenericConfectSchema,
+): Record.ReadonlyRecord<string, Tenant> =>
+  Record.filterMap(
+    confectSchema,
+    ({ indexFields, searchIndexFilterFields, tenantField }, tableName) =>
+      Option.map(tenantField, (fieldName) => {
+        const indexNames = pipe(
+          Record.toEntries(indexFields),
+          Array.filter(([, [first]]) => first === fieldName),
+          Array.map(([indexName]) => indexName),
+        );
+
+        return {
+          fieldName,
+          indexName: pipe(
+            Array.head(indexNames),
+            Option.getOrThrowWith(
+              () => new TenantIndexNotFoundError({ tableName, fieldName }),
+            ),
+          ),
+          indexNames,
+          searchIndexNames: pipe(
+            Record.toEntries(searchIndexFilterFields),
+            Array.filter(([, filterFields]) =>
+              Array.contains(filterFields, fieldName),
+            ),
+            Array.map(([indexName]) => indexName),
+          ),
+        };
+      }),
+  );
+
+/**
+ * The table which a field's `Id` schema refers to, looking through `Schema.optional` and other unions.
+ */
+export const referencedTableNameOfField = (
+  tableSchema: Schema.Schema.AnyNoContext,
+  fieldName: string,
+): Option.Option<string> =>
+  pipe(
+    SchemaAST.getPropertySignatures(tableSchema.ast),
+    Array.findFirst(({ name }) => name === fieldName),
+    Option.flatMap(({ type }) =>
+      SchemaAST.isUnion(type)
+        ? Array.findFirst(type.types, (member) => Id.tableName(member))
+        : Id.tableName(type),
+    ),
+  );
+
+export class NotAnIdFieldError extends Data.TaggedError("NotAnIdFieldError")<{
+  readonly tableName: string;
+  readonly fieldName: string;
+}> {
+  override get message() {
+    return `Field '${this.fieldName}' of table '${this.tableName}' has a referential action but is not an Id`;
+  }
+}
+
+export class ReferenceIndexNotFoundError extends Data.TaggedError(
+  "ReferenceIndexNotFoundError",
+)<{
+  readonly tableName: string;
+  readonly fieldName: string;
+}> {
+  override get message() {
+    return `Field '${this.fieldName}' of table '${this.tableName}' has a referential action, so table '${this.tableName}' needs an index whose first field is '${this.fieldName}'`;
+  }
+}
+
+export class TenantIndexNotFoundError extends Data.TaggedError(
+  "TenantIndexNotFoundError",
+)<{
+  readonly tableName: string;
+  readonly fieldName: string;
+}> {
+  override get message() {
+    return `Table '${this.tableName}' has tenant field '${this.fieldName}', so it needs an index whose first field is '${this.fieldName}'`;
+  }
+}
+
 export type TableNamesInConfectSchema<
   ConfectSchema extends GenericConfectSchema,
 > = keyof ConfectSchema & string;
@@ -396,7 +1191,8 @@ export type ConfectDataModelFromConfectSchema<
     infer TableValidator,
     infer Indexes,
     infer SearchIndexes,
-    infer VectorIndexes
+    infer VectorIndexes,
+    infer TenantField
   >
     ? TableSchema extends Schema.Schema<any, any>
       ? {
@@ -413,6 +1209,7 @@ export type ConfectDataModelFromConfectSchema<
           indexes: Expand<Indexes & SystemIndexes>;
           searchIndexes: SearchIndexes;
           vectorIndexes: VectorIndexes;
+          tenantField: TenantField;
         }
       : never
     : never;
@@ -437,6 +1234,57 @@ export const confectSystemSchema = {
 
 export const confectSystemSchemaDefinition = defineSchema(confectSystemSchema);
 
+/**
+ * A write recorded in the `confectHistory` table. `before` and `after` are the fields of the document as stored in Convex, without its system fields, and are missing when there was no document.
+ */
+export const HistoryEntry = Schema.Struct({
+  tableName: Schema.String,
+  documentId: Schema.String,
+  operation: Schema.Literal("insert", "patch", "replace", "delete"),
+  before: Schema.optional(Schema.Any),
+  after: Schema.optional(Schema.Any),
+  timestamp: Schema.Number,
+  subject: Schema.optional(Schema.String),
+});
+
+export const historyTableName = "confectHistory";
+
+const historySchema = {
+  confectHistory: defineTable(HistoryEntry).index("by_documentId", [
+    "documentId",
+  ]),
+};
+
+type HistorySchema = typeof historySchema;
+
+export type HistoryEntryDocument = ExtractConfectDocument<
+  typeof historyTableName,
+  typeof HistoryEntry
+>;
+
+/**
+ * The progress of a migration, recorded in the `confectMigrations` table. `cursor` is where the migration's next batch of documents starts.
+ */
+export const MigrationRun = Schema.Struct({
+  tableName: Schema.String,
+  version: Schema.Number,
+  status: Schema.Literal("running", "applied", "rollingBack", "rolledBack"),
+  cursor: Schema.NullOr(Schema.String),
+  documentsMigrated: Schema.Number,
+  updatedAt: Schema.Number,
+});
+
+export const migrationsTableName = "confectMigrations";
+
+const migrationsSchema = {
+  confectMigrations: defineTable(MigrationRun).index(
+    "by_tableName_and_version",
+    ["tableName", "version"],
+  ),
+};
+
+export type MigrationsSchema = typeof migrationsSchema;
+
 type ConfectSystemSchema = typeof confectSystemSchemaDefinition;
 
 export type ConfectSystemDataModel =
@@ -463,6 +1311,25 @@ type TableSchemasFromConfectSchema<ConfectSchema extends GenericConfectSchema> =
     }
   >;
 
+type TableCodecsFromConfectSchema<ConfectSchema extends GenericConfectSchema> =
+  Expand<
+    {
+      [TableName in keyof ConfectSchema & string]: TableCodec<
+        ConfectDataModelFromConfectSchema<ConfectSchema>[TableName]["confectDocument"],
+        ConfectDataModelFromConfectSchema<ConfectSchema>[TableName]["encodedConfectDocument"]
+      >;
+    } & {
+      [TableName in keyof typeof confectSystemSchema]: TableCodec<
+        ConfectDataModelFromConfectSchema<
+          typeof confectSystemSchema
+        >[TableName]["confectDocument"],
+        ConfectDataModelFromConfectSchema<
+          typeof confectSystemSchema
+        >[TableName]["encodedConfectDocument"]
+      >;
+    }
+  >;
+
 // Vendored types from convex-js, partially modified. Ideally we could use these directly. See https://github.com/get-convex/convex-js/pull/14
 
 /**
@@ -0,0 +1,49 @@
+import { Array, ParseResult, Predicate, Record, Schema, pipe } from "effect";
+
+/**
+ * A single problem found while decoding a Confect function's args, in the shape produced by `ParseResult.ArrayFormatter`.
+ */
+export const Issue = Schema.Struct({
+  _tag: Schema.String,
+  path: Schema.Array(Schema.Union(Schema.String, Schema.Number)),
+  message: Schema.String,
+});
+
+/**
+ * The data of the `ConvexError` thrown when a Confect function's args fail to decode.
+ */
+export class ArgsValidationError extends Schema.TaggedError<ArgsValidationError>()(
+  "ArgsValidationError",
+  { issues: Schema.Array(Issue) },
+) {}
+
+export const fromParseError = (
+  parseError: ParseResult.ParseError,
+): ArgsValidationError =>
+  new ArgsValidationError({
+    issues: Array.map(
+      ParseResult.ArrayFormatter.formatErrorSync(parseError),
+      ({ _tag, path, message }) => ({
+        _tag,
+        path: Array.map(path, (key) =>
+          Predicate.isNumber(key) ? key : key.toString(),
+        ),
+        message,
+      }),
+    ),
+  });
+
+/**
+ * Map each issue to its dot-separated field path, keeping the first message for each field. Useful for displaying errors next to form fields.
+ */
+export const fieldErrors = (
+  argsValidationError: ArgsValidationError,
+): Record<string, string> =>
+  pipe(
+    argsValidationError.issues,
+    Array.reduce({} as Record<string, string>, (acc, { path, message }) => {
+      const field = path.join(".");
+
+      return Record.has(acc, field) ? acc : Record.set(acc, field, message);
+    }),
+  );
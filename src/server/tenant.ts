@@ -0,0 +1,52 @@
+import { Effect, Option } from "effect";
+
+import type { GenericConfectDataModel } from "~/src/server/data-model";
+import {
+  type ConfectDatabaseReader,
+  ConfectDatabaseReaderImpl,
+  type ConfectDatabaseWriter,
+  ConfectDatabaseWriterImpl,
+  type ConfectTenantDatabaseWriter,
+} from "~/src/server/database";
+
+/**
+ * Scope every read and write made through `db` to the tenant `tenantId`, replacing any tenant it was already scoped to but keeping its rules. `db` must come from the context of a Confect function.
+ *
+ * Only the tables with a `tenantField` are scoped. Queries read only the tenant's documents: through the table's first index on the tenant field by default, and otherwise through an index whose first field is the tenant field, limited to the tenant unless the range compares that field itself, or a search index which filters on it. A query through any other index fails with `TenantIndexRequiredError`. `insert` fills in the tenant field, and `get`, `patch`, `replace` and `delete` fail with `TenantMismatch` when the document belongs to another tenant.
+ */
+export const withTenant: {
+  <ConfectDataModel extends GenericConfectDataModel>(
+    db: ConfectDatabaseWriter<ConfectDataModel>,
+    tenantId: string,
+  ): Effect.Effect<ConfectTenantDatabaseWriter<ConfectDataModel>>;
+  <ConfectDataModel extends GenericConfectDataModel>(
+    db: ConfectDatabaseReader<ConfectDataModel>,
+    tenantId: string,
+  ): Effect.Effect<ConfectDatabaseReader<ConfectDataModel>>;
+} = (
+  db: ConfectDatabaseReader<any> | ConfectDatabaseWriter<any>,
+  tenantId: string,
+): Effect.Effect<any> =>
+  db instanceof ConfectDatabaseWriterImpl
+    ? Effect.succeed(
+        new ConfectDatabaseWriterImpl(
+          db.db,
+          db.confectSchemaDefinition,
+          db.triggers,
+          db.rules,
+          Option.some(tenantId),
+        ),
+      )
+    : db instanceof ConfectDatabaseReaderImpl
+      ? Effect.succeed(
+          new ConfectDatabaseReaderImpl(
+            db.db,
+            db.confectSchemaDefinition,
+            db.tableNameResolver,
+            db.rules,
+            Option.some(tenantId),
+          ),
+        )
+      : Effect.dieMessage(
+          "withTenant needs a database from the context of a Confect function",
+        );
@@ -0,0 +1,162 @@
+import { makeFunctionReference } from "convex/server";
+import { Array, Effect, Either, Option, Record, Schema, pipe } from "effect";
+
+import { ConfectActionCtx, ConfectQueryCtx } from "~/src/server/ctx";
+import { convexDatabaseReader } from "~/src/server/database";
+import { makeFunctions } from "~/src/server/functions";
+import type {
+  ConfectDataModelFromConfectSchema,
+  ConfectSchemaDefinition,
+  GenericConfectSchema,
+  TableNamesInConfectSchema,
+} from "~/src/server/schema";
+
+/**
+ * A document which fails to decode with its table schema, and the formatted `ParseError`.
+ */
+export const InvalidDocument = Schema.Struct({
+  id: Schema.String,
+  error: Schema.String,
+});
+export type InvalidDocument = typeof InvalidDocument.Type;
+
+export const TableValidationReport = Schema.Struct({
+  tableName: Schema.String,
+  documentsChecked: Schema.Number,
+  invalidDocuments: Schema.Array(InvalidDocument),
+});
+export type TableValidationReport = typeof TableValidationReport.Type;
+
+const TablePageReport = Schema.Struct({
+  documentsChecked: Schema.Number,
+  invalidDocuments: Schema.Array(InvalidDocument),
+  isDone: Schema.Boolean,
+  continueCursor: Schema.String,
+});
+
+/**
+ * Internal functions which decode every stored document with its table schema, as `decodeDocument` does (excess properties are an error, and old versions are upcast), to find the documents a tighter schema would reject before it is deployed.
+ *
+ * `validatePage` validates one page of a table, and `validate` validates every page of every table (or of `tableNames`), so it can be scheduled as a background job. Export both, with `validatePage` at `validatePagePath` (like `"validation:validatePage"`).
+ */
+export const makeSchemaValidation = <
+  ConfectSchema extends GenericConfectSchema,
+>(
+  confectSchemaDefinition: ConfectSchemaDefinition<ConfectSchema>,
+  {
+    validatePagePath,
+    pageSize = 100,
+  }: { validatePagePath: string; pageSize?: number },
+) => {
+  type ConfectDataModel = ConfectDataModelFromConfectSchema<ConfectSchema>;
+
+  const { internalQuery, internalAction } = makeFunctions(
+    confectSchemaDefinition,
+  );
+
+  const schemaTableNames = Record.keys(
+    confectSchemaDefinition.confectSchema,
+  ) as Array<TableNamesInConfectSchema<ConfectSchema>>;
+  const TableName = Schema.Literal(...schemaTableNames);
+
+  const ValidatePageArgs = Schema.Struct({
+    tableName: TableName,
+    cursor: Schema.NullOr(Schema.String),
+    numItems: Schema.Number,
+  });
+
+  const validatePageReference = makeFunctionReference<
+    "query",
+    typeof ValidatePageArgs.Encoded,
+    typeof TablePageReport.Encoded
+  >(validatePagePath);
+
+  const validatePage = internalQuery({
+    args: ValidatePageArgs,
+    returns: TablePageReport,
+    handler: ({ tableName, cursor, numItems }) =>
+      Effect.gen(function* () {
+        const { db } = yield* ConfectQueryCtx<ConfectDataModel>();
+        const convexDb = yield* convexDatabaseReader(db);
+        const { decodeDocument } =
+          confectSchemaDefinition.tableCodecs[tableName];
+
+        const { page, isDone, continueCursor } = yield* Effect.promise(() =>
+          convexDb.query(tableName).paginate({ cursor, numItems }),
+        );
+
+        return {
+          documentsChecked: page.length,
+          invalidDocuments: Array.filterMap(page, (document) =>
+            pipe(
+              decodeDocument(document),
+              Either.getLeft,
+              Option.map((parseError) => ({
+                id: document._id,
+                error: parseError.message,
+              })),
+            ),
+          ),
+          isDone,
+          continueCursor,
+        };
+      }),
+  });
+
+  const validate = internalAction({
+    args: Schema.Struct({
+      tableNames: Schema.optional(Schema.Array(TableName)),
+    }),
+    returns: Schema.Array(TableValidationReport),
+    handler: ({ tableNames }) =>
+      Effect.gen(function* () {
+        const { runQuery } = yield* ConfectActionCtx<ConfectDataModel>();
+
+        const validateTable = (
+          tableName: TableNamesInConfectSchema<ConfectSchema>,
+          cursor: string | null,
+          report: TableValidationReport,
+        ): Effect.Effect<TableValidationReport> =>
+          pipe(
+            runQuery(validatePageReference, {
+              tableName,
+              cursor,
+              numItems: pageSize,
+            }),
+            Effect.andThen(Schema.decode(TablePageReport)),
+            Effect.orDie,
+            Effect.flatMap((pageReport) => {
+              const nextReport = {
+                tableName,
+                documentsChecked:
+                  report.documentsChecked + pageReport.documentsChecked,
+                invalidDocuments: Array.appendAll(
+                  report.invalidDocuments,
+                  pageReport.invalidDocuments,
+                ),
+              };
+
+              return pageReport.isDone
+                ? Effect.succeed(nextReport)
+                : validateTable(
+                    tableName,
+                    pageReport.continueCursor,
+                    nextReport,
+                  );
+            }),
+          );
+
+        return yield* Effect.forEach(
+          tableNames ?? schemaTableNames,
+          (tableName) =>
+            validateTable(tableName, null, {
+              tableName,
+              documentsChecked: 0,
+              invalidDocuments: [],
+            }),
+        );
+      }),
+  });
+
+  return { validatePage, validate };
+};
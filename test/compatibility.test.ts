@@ -0,0 +1,300 @@
+import { Option, Schema } from "effect";
+import { describe, expect, test } from "vitest";
+
+import { checkSchemaCompatibility } from "~/src/server/compatibility";
+import { defineSchema, defineTable, tableVersion } from "~/src/server/schema";
+import { Id } from "~/src/server/schemas/Id";
+
+const Note = Schema.Struct({
+  text: Schema.String,
+  tag: Schema.optional(Schema.Literal("work", "home")),
+  authorId: Id("users"),
+});
+
+const User = Schema.Struct({ username: Schema.String });
+
+const oldSchema = defineSchema({
+  notes: defineTable(Note).index("by_authorId", ["authorId"]),
+  users: defineTable(User),
+});
+
+const changesOf = (newSchema: ReturnType<typeof defineSchema>) =>
+  checkSchemaCompatibility(oldSchema, newSchema).changes.map(
+    ({ tableName, kind, name, compatibility }) => ({
+      tableName,
+      kind,
+      name: Option.getOrUndefined(name),
+      compatibility,
+    }),
+  );
+
+describe("checkSchemaCompatibility", () => {
+  test("finds no changes between identical schemas", () => {
+    expect(checkSchemaCompatibility(oldSchema, oldSchema)).toStrictEqual({
+      changes: [],
+      compatibility: "compatible",
+    });
+  });
+
+  test("classifies added tables, optional fields, indexes and wider types as compatible", () => {
+    const newSchema = defineSchema({
+      notes: defineTable(
+        Schema.Struct({
+          text: Schema.Union(Schema.String, Schema.Number),
+          tag: Schema.optional(Schema.String),
+          authorId: Id("users"),
+          pinned: Schema.optional(Schema.Boolean),
+        }),
+      )
+        .index("by_authorId", ["authorId"])
+        .index("by_tag", ["tag"]),
+      users: defineTable(
+        Schema.Struct({ username: Schema.optional(Schema.String) }),
+      ),
+      projects: defineTable(Schema.Struct({ name: Schema.String })),
+    });
+
+    expect(changesOf(newSchema)).toStrictEqual([
+      {
+        tableName: "notes",
+        kind: "typeWidened",
+        name: "text",
+        compatibility: "compatible",
+      },
+      {
+        tableName: "notes",
+        kind: "typeWidened",
+        name: "tag",
+        compatibility: "compatible",
+      },
+      {
+        tableName: "notes",
+        kind: "fieldAdded",
+        name: "pinned",
+        compatibility: "compatible",
+      },
+      {
+        tableName: "notes",
+        kind: "indexAdded",
+        name: "by_tag",
+        compatibility: "compatible",
+      },
+      {
+        tableName: "users",
+        kind: "fieldMadeOptional",
+        name: "username",
+        compatibility: "compatible",
+      },
+      {
+        tableName: "projects",
+        kind: "tableAdded",
+        name: undefined,
+        compatibility: "compatible",
+      },
+    ]);
+    expect(checkSchemaCompatibility(oldSchema, newSchema).compatibility).toBe(
+      "compatible",
+    );
+  });
+
+  test("classifies required fields as needing a migration", () => {
+    const newSchema = defineSchema({
+      notes: defineTable(
+        Schema.Struct({
+          text: Schema.String,
+          tag: Schema.optional(Schema.Literal("work", "home")),
+          authorId: Id("users"),
+          priority: Schema.Number,
+        }),
+      ).index("by_authorId", ["authorId"]),
+      users: defineTable(User),
+    });
+
+    expect(changesOf(newSchema)).toStrictEqual([
+      {
+        tableName: "notes",
+        kind: "requiredFieldAdded",
+        name: "priority",
+        compatibility: "needsMigration",
+      },
+    ]);
+    expect(checkSchemaCompatibility(oldSchema, newSchema).compatibility).toBe(
+      "needsMigration",
+    );
+  });
+
+  test("classifies removed fields, narrower and changed types, required fields and dropped indexes as breaking", () => {
+    const newSchema = defineSchema({
+      notes: defineTable(
+        Schema.Struct({
+          text: Schema.Literal("Hello"),
+          tag: Schema.Literal("work"),
+          priority: Schema.optional(Schema.Number),
+        }),
+      ),
+      users: defineTable(Schema.Struct({ username: Schema.Number })),
+    });
+
+    expect(changesOf(newSchema)).toStrictEqual([
+      {
+        tableName: "notes",
+        kind: "typeNarrowed",
+        name: "text",
+        compatibility: "breaking",
+      },
+      {
+        tableName: "notes",
+        kind: "fieldMadeRequired",
+        name: "tag",
+        compatibility: "breaking",
+      },
+      {
+        tableName: "notes",
+        kind: "typeNarrowed",
+        name: "tag",
+        compatibility: "breaking",
+      },
+      {
+        tableName: "notes",
+        kind: "fieldRemoved",
+        name: "authorId",
+        compatibility: "breaking",
+      },
+      {
+        tableName: "notes",
+        kind: "fieldAdded",
+        name: "priority",
+        compatibility: "compatible",
+      },
+      {
+        tableName: "notes",
+        kind: "indexRemoved",
+        name: "by_authorId",
+        compatibility: "breaking",
+      },
+      {
+        tableName: "users",
+        kind: "typeChanged",
+        name: "username",
+        compatibility: "breaking",
+      },
+    ]);
+    expect(checkSchemaCompatibility(oldSchema, newSchema).compatibility).toBe(
+      "breaking",
+    );
+  });
+
+  test("compares the Id table names and the encoded side of transformations", () => {
+    const newSchema = defineSchema({
+      notes: defineTable(
+        Schema.Struct({
+          text: Schema.String,
+          tag: Schema.optional(Schema.Literal("work", "home")),
+          authorId: Id("projects"),
+        }),
+      ).index("by_authorId", ["authorId"]),
+      users: defineTable(Schema.Struct({ username: Schema.NumberFromString })),
+    });
+
+    expect(changesOf(newSchema)).toStrictEqual([
+      {
+        tableName: "notes",
+        kind: "typeChanged",
+        name: "authorId",
+        compatibility: "breaking",
+      },
+    ]);
+  });
+
+  test("classifies new and tightened refinements as narrowed types", () => {
+    const refinedSchema = (
+      priority: Schema.Schema<number>,
+      maxLength: number,
+    ) =>
+      defineSchema({
+        notes: defineTable(
+          Schema.Struct({
+            text: Schema.String.pipe(Schema.maxLength(maxLength)),
+            priority,
+          }),
+        ),
+      });
+    const changesBetween = (
+      oldSchema: ReturnType<typeof defineSchema>,
+      newSchema: ReturnType<typeof defineSchema>,
+    ) =>
+      checkSchemaCompatibility(oldSchema, newSchema).changes.map(
+        ({ kind, name }) => [kind, Option.getOrUndefined(name)],
+      );
+    const numberSchema = defineSchema({
+      notes: defineTable(
+        Schema.Struct({ text: Schema.String, priority: Schema.Number }),
+      ),
+    });
+
+    expect(
+      changesBetween(numberSchema, refinedSchema(Schema.Int, 100)),
+    ).toStrictEqual([
+      ["typeNarrowed", "text"],
+      ["typeNarrowed", "priority"],
+    ]);
+    expect(
+      changesBetween(
+        refinedSchema(Schema.Int, 100),
+        refinedSchema(Schema.Int, 10),
+      ),
+    ).toStrictEqual([["typeNarrowed", "text"]]);
+    expect(
+      changesBetween(
+        refinedSchema(Schema.Int, 10),
+        refinedSchema(Schema.Int, 100),
+      ),
+    ).toStrictEqual([["typeWidened", "text"]]);
+    expect(
+      changesBetween(
+        refinedSchema(Schema.Int, 100),
+        refinedSchema(Schema.Int, 100),
+      ),
+    ).toStrictEqual([]);
+    expect(
+      changesBetween(refinedSchema(Schema.Int, 100), numberSchema),
+    ).toStrictEqual([
+      ["typeWidened", "text"],
+      ["typeWidened", "priority"],
+    ]);
+  });
+
+  test("accepts stored documents which match one of the new table's versions", () => {
+    const Post = Schema.Struct({
+      body: Schema.String,
+      authorId: Id("users"),
+    });
+    const newSchema = defineSchema({
+      notes: defineTable(Post, {
+        versions: [
+          tableVersion(Note, ({ text, authorId }) => ({
+            body: text,
+            authorId,
+          })),
+        ],
+      }).index("by_authorId", ["authorId"]),
+      users: defineTable(User),
+    });
+    const droppedVersionSchema = defineSchema({
+      notes: defineTable(Post).index("by_authorId", ["authorId"]),
+      users: defineTable(User),
+    });
+
+    expect(changesOf(newSchema)).toStrictEqual([
+      {
+        tableName: "notes",
+        kind: "typeWidened",
+        name: undefined,
+        compatibility: "compatible",
+      },
+    ]);
+    expect(
+      checkSchemaCompatibility(newSchema, droppedVersionSchema).compatibility,
+    ).toBe("breaking");
+  });
+});
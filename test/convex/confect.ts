@@ -1,3 +1,5 @@
+import { Effect, Option, pipe } from "effect";
+import { ConfectAuth } from "~/src/server/auth";
 import {
   ConfectActionCtx as ConfectActionCtxService,
   type ConfectActionCtx as ConfectActionCtxType,
@@ -21,7 +23,37 @@ export const {
   internalQuery,
   mutation,
   query,
-} = makeFunctions(confectSchema);
+} = makeFunctions(confectSchema, {
+  triggers: {
+    tasks: [
+      ({ oldDocument, newDocument }) =>
+        Effect.all(
+          [countOpenTask(oldDocument, -1), countOpenTask(newDocument, 1)],
+          { discard: true },
+        ),
+    ],
+  },
+});
+
+// Users may only read and write themselves.
+export const { query: queryWithRules, mutation: mutationWithRules } =
+  makeFunctions(confectSchema, {
+    rules: {
+      users: {
+        read: (user) => isCurrentUser(user),
+        insert: (user) => isCurrentUser(user),
+        modify: (user) => isCurrentUser(user),
+        delete: (user) => isCurrentUser(user),
+      },
+    },
+  });
+
+export const isCurrentUser = ({ username }: { username: string }) =>
+  pipe(
+    ConfectAuth,
+    Effect.flatMap((auth) => auth.getUserIdentity()),
+    Effect.map(Option.exists(({ subject }) => subject === username)),
+  );
 
 type ConfectSchema = typeof confectSchema;
 
@@ -40,3 +72,26 @@ export type ConfectMutationCtx = ConfectMutationCtxType<ConfectDataModel>;
 
 export const ConfectActionCtx = ConfectActionCtxService<ConfectDataModel>();
 export type ConfectActionCtx = ConfectActionCtxType<ConfectDataModel>;
+
+const countOpenTask = (
+  task: Option.Option<ConfectDoc<"tasks">>,
+  delta: number,
+) =>
+  Option.match(
+    Option.filter(task, ({ done }) => !done),
+    {
+      onNone: () => Effect.void,
+      onSome: ({ projectId }) =>
+        Effect.gen(function* () {
+          const { db } = yield* ConfectMutationCtx;
+
+          const { openTaskCount } = yield* db
+            .get(projectId)
+            .pipe(Effect.flatten, Effect.orDie);
+
+          yield* db
+            .patch(projectId, { openTaskCount: openTaskCount + delta })
+            .pipe(Effect.orDie);
+        }),
+    },
+  );
@@ -8,8 +8,20 @@ import {
   Stream,
   pipe,
 } from "effect";
+import { ConfectAuth } from "~/src/server/auth";
+import {
+  type AccessDenied,
+  NotUniqueError,
+  type TenantMismatch,
+  type UniqueConstraintViolation,
+} from "~/src/server/database";
+import { makeReferentialIntegrityCheck } from "~/src/server/integrity";
+import { makeMigrations } from "~/src/server/migrations";
+import { withRules } from "~/src/server/rules";
 import { Id } from "~/src/server/schemas/Id";
 import { PaginationResult } from "~/src/server/schemas/PaginationResult";
+import { withTenant } from "~/src/server/tenant";
+import { makeSchemaValidation } from "~/src/server/validation";
 import { api, internal } from "~/test/convex/_generated/api";
 import {
   ConfectActionCtx,
@@ -19,8 +31,11 @@ import {
   internalAction,
   internalMutation,
   internalQuery,
+  isCurrentUser,
   mutation,
+  mutationWithRules,
   query,
+  queryWithRules,
 } from "~/test/convex/confect";
 import { confectSchema } from "~/test/convex/schema";
 
@@ -50,6 +65,32 @@ export const mutationGet = mutation({
     }),
 });
 
+export const queryGetFromTable = query({
+  args: Schema.Struct({
+    noteId: Id("notes"),
+  }),
+  returns: Schema.Option(confectSchema.tableSchemas.notes.withSystemFields),
+  handler: ({ noteId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* db.get("notes", noteId);
+    }),
+});
+
+export const mutationGetFromTable = mutation({
+  args: Schema.Struct({
+    noteId: Id("notes"),
+  }),
+  returns: Schema.Option(confectSchema.tableSchemas.notes.withSystemFields),
+  handler: ({ noteId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.get("notes", noteId);
+    }),
+});
+
 export const insert = mutation({
   args: Schema.Struct({
     text: Schema.String,
@@ -306,281 +347,1339 @@ export const unsetAuthorPatch = mutation({
     }),
 });
 
-export const insertTooLongText = mutation({
+export const patchAuthorRole = mutation({
   args: Schema.Struct({
-    text: Schema.String,
+    noteId: Id("notes"),
+    role: Schema.Literal("admin", "user"),
   }),
-  returns: Id("notes"),
-  handler: ({ text }) =>
+  returns: Schema.Null,
+  handler: ({ noteId, role }) =>
     Effect.gen(function* () {
       const { db } = yield* ConfectMutationCtx;
 
-      return yield* db.insert("notes", { text });
+      return yield* db
+        .patch(noteId, { "author.role": role })
+        .pipe(Effect.as(null));
     }),
 });
 
-export const replace = mutation({
+export const appendToText = mutation({
   args: Schema.Struct({
     noteId: Id("notes"),
-    fields: Schema.Struct({
-      _id: Schema.optional(Id("notes")),
-      _creationTime: Schema.optional(Schema.Number),
-      text: Schema.String,
-    }),
+    suffix: Schema.String,
   }),
   returns: Schema.Null,
-  handler: ({ noteId, fields }) =>
+  handler: ({ noteId, suffix }) =>
     Effect.gen(function* () {
       const { db } = yield* ConfectMutationCtx;
 
-      return yield* db.replace(noteId, fields).pipe(Effect.as(null));
+      return yield* db
+        .patch(noteId, { text: (text) => `${text}${suffix}` })
+        .pipe(Effect.as(null));
     }),
 });
 
-export const deleteNote = mutation({
+export const extendInterval = mutation({
   args: Schema.Struct({
-    noteId: Id("notes"),
+    intervalId: Id("intervals"),
+    by: Schema.Number,
   }),
   returns: Schema.Null,
-  handler: ({ noteId }) =>
+  handler: ({ intervalId, by }) =>
     Effect.gen(function* () {
       const { db } = yield* ConfectMutationCtx;
 
-      return yield* db.delete(noteId).pipe(Effect.as(null));
+      return yield* db
+        .patch(intervalId, { end: (end) => end + by })
+        .pipe(Effect.as(null));
     }),
 });
 
-export const isAuthenticated = query({
-  args: Schema.Struct({}),
-  returns: Schema.Boolean,
-  handler: () =>
+export const patchInterval = mutation({
+  args: Schema.Struct({
+    intervalId: Id("intervals"),
+    fields: Schema.Struct({
+      start: Schema.optional(Schema.Number),
+      end: Schema.optional(Schema.Number),
+    }),
+  }),
+  returns: Schema.Null,
+  handler: ({ intervalId, fields }) =>
     Effect.gen(function* () {
-      const { auth } = yield* ConfectQueryCtx;
+      const { db } = yield* ConfectMutationCtx;
 
-      return yield* auth.getUserIdentity().pipe(Effect.map(Option.isSome));
+      return yield* db.patch(intervalId, fields).pipe(Effect.as(null));
     }),
 });
 
-// Action
-
-export const actionQuery = internalQuery({
-  args: Schema.Struct({}),
-  returns: Schema.Null,
-  handler: () =>
+// Succeeds with the inserted ids, or fails with the indexes of the values which could not be encoded.
+export const insertManyNotes = mutation({
+  args: Schema.Struct({
+    texts: Schema.Array(Schema.String),
+  }),
+  returns: Schema.Either({
+    right: Schema.Array(Id("notes")),
+    left: Schema.Array(Schema.Number),
+  }),
+  handler: ({ texts }) =>
     Effect.gen(function* () {
-      const { db } = yield* ConfectQueryCtx;
+      const { db } = yield* ConfectMutationCtx;
 
-      return yield* db.query("notes").collect().pipe(Effect.as(null));
+      return yield* db
+        .insertMany(
+          "notes",
+          Array.map(texts, (text) => ({ text })),
+        )
+        .pipe(
+          Effect.catchTag("UniqueConstraintViolation", Effect.die),
+          Effect.catchTag("AccessDenied", Effect.die),
+          Effect.catchTag("TenantMismatch", Effect.die),
+          Effect.mapError(({ failures }) =>
+            Array.map(failures, ({ index }) => index),
+          ),
+          Effect.either,
+        );
     }),
 });
 
-export const actionMutation = internalMutation({
-  args: Schema.Struct({}),
-  returns: Id("notes"),
-  handler: () =>
+export const patchManyNotes = mutation({
+  args: Schema.Struct({
+    noteIds: Schema.Array(Id("notes")),
+    suffix: Schema.String,
+  }),
+  returns: Schema.Either({
+    right: Schema.Null,
+    left: Schema.Array(Schema.Number),
+  }),
+  handler: ({ noteIds, suffix }) =>
     Effect.gen(function* () {
       const { db } = yield* ConfectMutationCtx;
 
-      return yield* db.insert("notes", { text: "Hello, world!" });
+      return yield* db
+        .patchMany(noteIds, { text: (text) => `${text}${suffix}` })
+        .pipe(
+          Effect.as(null),
+          Effect.catchTag("UniqueConstraintViolation", Effect.die),
+          Effect.catchTag("AccessDenied", Effect.die),
+          Effect.catchTag("TenantMismatch", Effect.die),
+          Effect.mapError(({ failures }) =>
+            Array.map(failures, ({ index }) => index),
+          ),
+          Effect.either,
+        );
     }),
 });
 
-export const actionNoop = internalAction({
-  args: Schema.Struct({}),
-  returns: Schema.Null,
-  handler: (_ctx) => Effect.succeed(null),
-});
-
-export const runQueryAndMutation = action({
-  args: Schema.Struct({}),
+export const deleteManyNotes = mutation({
+  args: Schema.Struct({
+    noteIds: Schema.Array(Id("notes")),
+  }),
   returns: Schema.Null,
-  handler: (): Effect.Effect<null, never, ConfectActionCtx> =>
+  handler: ({ noteIds }) =>
     Effect.gen(function* () {
-      const { runQuery, runMutation, runAction } = yield* ConfectActionCtx;
-
-      yield* runQuery(internal.functions.actionQuery);
-      yield* runMutation(internal.functions.actionMutation);
-      yield* runAction(internal.functions.actionNoop);
+      const { db } = yield* ConfectMutationCtx;
 
-      return null;
+      return yield* db.deleteMany(noteIds).pipe(Effect.as(null));
     }),
 });
 
-export const actionWithAuthAndRunMethods = action({
-  args: Schema.Struct({}),
-  returns: Schema.Null,
-  handler: (): Effect.Effect<null, never, ConfectActionCtx> =>
+export const deleteNotesWithTag = mutation({
+  args: Schema.Struct({
+    tag: Schema.String,
+  }),
+  returns: Schema.Number,
+  handler: ({ tag }) =>
     Effect.gen(function* () {
-      const { auth, runAction } = yield* ConfectActionCtx;
+      const { db } = yield* ConfectMutationCtx;
 
-      yield* auth.getUserIdentity().pipe(
-        Effect.andThen(
-          Option.match({
-            onNone: () => Effect.die,
-            onSome: () => Effect.void,
-          }),
-        ),
+      return yield* db.deleteWhere(
+        db.query("notes").filter((q) => q.eq(q.field("tag"), tag)),
       );
-
-      yield* runAction(api.functions.runQueryAndMutation);
-
-      return null;
     }),
 });
 
-export const executeVectorSearch = action({
+export const upsertNoteByText = mutation({
   args: Schema.Struct({
-    vector: Schema.Array(Schema.Number),
-    tag: Schema.Union(Schema.String, Schema.Null),
-    limit: Schema.Number,
+    text: Schema.String,
+    tag: Schema.String,
   }),
-  returns: Schema.Array(
+  returns: Schema.Union(
+    Schema.Literal("NotUniqueError"),
     Schema.Struct({
-      text: Schema.String,
-      tag: Schema.optional(Schema.String),
+      id: Id("notes"),
+      created: Schema.Boolean,
     }),
   ),
-  handler: ({
-    vector,
-    tag,
-    limit,
-  }): Effect.Effect<
-    { text: string; tag?: string }[],
-    ParseResult.ParseError,
-    ConfectActionCtx
-  > =>
+  handler: ({ text, tag }) =>
     Effect.gen(function* () {
-      const { vectorSearch, runQuery } = yield* ConfectActionCtx;
+      const { db } = yield* ConfectMutationCtx;
 
-      return yield* vectorSearch("notes", "embedding", {
-        vector: vector as number[],
-        filter: tag === null ? undefined : (q) => q.eq("tag", tag),
-        limit,
-      }).pipe(
-        Effect.andThen(
-          Effect.forEach((vectorResult) =>
-            runQuery(api.functions.getVectorSearch, {
-              noteId: vectorResult._id,
-            }).pipe(
-              Effect.andThen(
-                Schema.decode(
-                  Schema.Option(
-                    confectSchema.tableSchemas.notes.withSystemFields,
-                  ),
-                ),
-              ),
-              Effect.map(Option.getOrThrow),
-              Effect.map(({ text, tag }) => ({ text, tag })),
-            ),
-          ),
-        ),
-      );
+      return yield* db
+        .upsert("notes", "by_text", { text }, { text, tag })
+        .pipe(
+          Effect.catchTag("NotUniqueError", ({ _tag }) => Effect.succeed(_tag)),
+        );
     }),
 });
 
-export const getVectorSearch = query({
+const UniqueConstraintViolationResult = Schema.Struct({
+  constraintName: Schema.String,
+  conflictingId: Schema.String,
+});
+
+const uniqueConstraintViolationResult = ({
+  constraintName,
+  conflictingId,
+}: UniqueConstraintViolation) =>
+  Effect.succeed({ constraintName, conflictingId });
+
+export const insertUser = mutation({
   args: Schema.Struct({
-    noteId: Id("notes"),
+    username: Schema.String,
   }),
-  returns: Schema.Option(confectSchema.tableSchemas.notes.withSystemFields),
-  handler: ({ noteId }) =>
+  returns: Schema.Union(Id("users"), UniqueConstraintViolationResult),
+  handler: ({ username }) =>
     Effect.gen(function* () {
-      const { db } = yield* ConfectQueryCtx;
+      const { db } = yield* ConfectMutationCtx;
 
-      return yield* db.get(noteId);
+      return yield* db
+        .insert("users", { username })
+        .pipe(
+          Effect.catchTag(
+            "UniqueConstraintViolation",
+            uniqueConstraintViolationResult,
+          ),
+        );
     }),
 });
 
-// Scheduler
-
-export const insertAfter = action({
+export const renameUser = mutation({
   args: Schema.Struct({
-    text: Schema.String,
-    millis: Schema.Number,
+    userId: Id("users"),
+    username: Schema.String,
   }),
-  returns: Schema.Null,
-  handler: ({ text, millis }): Effect.Effect<null, never, ConfectActionCtx> =>
+  returns: Schema.Union(Schema.Null, UniqueConstraintViolationResult),
+  handler: ({ userId, username }) =>
     Effect.gen(function* () {
-      const { scheduler } = yield* ConfectActionCtx;
+      const { db } = yield* ConfectMutationCtx;
 
-      return yield* scheduler
-        .runAfter(millis, api.functions.scheduledInsert, {
-          text,
-        })
-        .pipe(Effect.as(null));
+      return yield* db
+        .patch(userId, { username })
+        .pipe(
+          Effect.as(null),
+          Effect.catchTag(
+            "UniqueConstraintViolation",
+            uniqueConstraintViolationResult,
+          ),
+        );
     }),
 });
 
-export const scheduledInsert = mutation({
+export const replaceUser = mutation({
   args: Schema.Struct({
-    text: Schema.String,
+    userId: Id("users"),
+    username: Schema.String,
   }),
-  returns: Schema.Null,
-  handler: ({
-    text,
-  }): Effect.Effect<null, ParseResult.ParseError, ConfectMutationCtx> =>
+  returns: Schema.Union(Schema.Null, UniqueConstraintViolationResult),
+  handler: ({ userId, username }) =>
     Effect.gen(function* () {
       const { db } = yield* ConfectMutationCtx;
 
-      return yield* db.insert("notes", { text }).pipe(Effect.as(null));
+      return yield* db
+        .replace(userId, { username })
+        .pipe(
+          Effect.as(null),
+          Effect.catchTag(
+            "UniqueConstraintViolation",
+            uniqueConstraintViolationResult,
+          ),
+        );
     }),
 });
 
-export const insertAt = action({
+export const noteAuthor = query({
   args: Schema.Struct({
-    text: Schema.String,
-    timestamp: Schema.Number,
+    noteId: Id("notes"),
   }),
-  returns: Schema.Null,
-  handler: ({
-    text,
-    timestamp,
-  }): Effect.Effect<null, never, ConfectActionCtx> =>
+  returns: Schema.Option(confectSchema.tableSchemas.users.withSystemFields),
+  handler: ({ noteId }) =>
     Effect.gen(function* () {
-      const { scheduler } = yield* ConfectActionCtx;
+      const { db } = yield* ConfectQueryCtx;
 
-      return yield* scheduler
-        .runAt(timestamp, api.functions.scheduledInsert, {
-          text,
-        })
-        .pipe(Effect.as(null));
+      const note = yield* db.get(noteId).pipe(Effect.flatten, Effect.orDie);
+
+      return yield* db.related(note, "userId");
     }),
 });
 
-export const systemNormalizeId = query({
+export const userByUsername = query({
   args: Schema.Struct({
-    id: Id("_storage"),
+    username: Schema.String,
   }),
-  returns: Schema.Option(Id("_storage")),
-  handler: ({ id }) =>
+  returns: Schema.Option(confectSchema.tableSchemas.users.withSystemFields),
+  handler: ({ username }) =>
     Effect.gen(function* () {
       const { db } = yield* ConfectQueryCtx;
 
-      return db.system.normalizeId("_storage", id);
+      return yield* db
+        .getOneFrom("users", "by_username", username)
+        .pipe(Effect.orDie);
     }),
 });
 
-export const systemGet = query({
+export const notesByUser = query({
   args: Schema.Struct({
-    id: Id("_storage"),
+    userId: Id("users"),
   }),
-  returns: Schema.Option(confectSchema.tableSchemas._storage.withSystemFields),
-  handler: ({ id }) =>
+  returns: Schema.Array(confectSchema.tableSchemas.notes.withSystemFields),
+  handler: ({ userId }) =>
     Effect.gen(function* () {
       const { db } = yield* ConfectQueryCtx;
 
-      return yield* db.system.get(id);
+      return yield* db.getManyFrom("notes", "by_userId", userId);
     }),
 });
 
-export const systemQuery = query({
-  args: Schema.Struct({}),
-  returns: Schema.Array(confectSchema.tableSchemas._storage.withSystemFields),
-  handler: () =>
+export const noteReaders = query({
+  args: Schema.Struct({
+    noteId: Id("notes"),
+  }),
+  returns: Schema.Array(confectSchema.tableSchemas.users.withSystemFields),
+  handler: ({ noteId }) =>
     Effect.gen(function* () {
       const { db } = yield* ConfectQueryCtx;
 
-      return yield* db.system.query("_storage").collect();
+      return yield* db.getManyVia("noteReaders", "userId", "by_noteId", noteId);
+    }),
+});
+
+export const deleteUser = mutation({
+  args: Schema.Struct({
+    userId: Id("users"),
+  }),
+  returns: Schema.Union(
+    Schema.Null,
+    Schema.Struct({
+      referringTableName: Schema.String,
+      referringId: Schema.String,
+      fieldName: Schema.String,
+    }),
+  ),
+  handler: ({ userId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.delete(userId).pipe(
+        Effect.as(null),
+        Effect.catchTag(
+          "ReferencedDocumentError",
+          ({ referringTableName, referringId, fieldName }) =>
+            Effect.succeed({ referringTableName, referringId, fieldName }),
+        ),
+      );
+    }),
+});
+
+export const {
+  checkPage: checkReferentialIntegrityPage,
+  check: checkReferentialIntegrity,
+} = makeReferentialIntegrityCheck(confectSchema, {
+  checkPagePath: "functions:checkReferentialIntegrityPage",
+  pageSize: 2,
+});
+
+export const { validatePage: validateSchemaPage, validate: validateSchema } =
+  makeSchemaValidation(confectSchema, {
+    validatePagePath: "functions:validateSchemaPage",
+    pageSize: 2,
+  });
+
+export const {
+  run: runMigrations,
+  runPage: runMigrationPage,
+  status: migrationStatus,
+  rollback: rollbackMigration,
+  dryRun: dryRunMigration,
+} = makeMigrations(confectSchema, {
+  migrations: [
+    {
+      table: "intervals",
+      version: 1,
+      up: ({ start, end }) => ({
+        start: Number(start) + 10,
+        end: Number(end) + 10,
+      }),
+      down: ({ start, end }) => ({
+        start: Number(start) - 10,
+        end: Number(end) - 10,
+      }),
+    },
+    {
+      table: "intervals",
+      version: 2,
+      up: ({ start, end }) => ({
+        start: Number(start) * 2,
+        end: Number(end) * 2,
+      }),
+      down: ({ start, end }) => ({
+        start: Number(start) / 2,
+        end: Number(end) / 2,
+      }),
+    },
+  ],
+  runPagePath: "functions:runMigrationPage",
+  pageSize: 2,
+});
+
+export const insertTask = mutation({
+  args: Schema.Struct({
+    projectId: Id("projects"),
+    title: Schema.String,
+  }),
+  returns: Id("tasks"),
+  handler: ({ projectId, title }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db
+        .insert("tasks", { projectId, title, done: false })
+        .pipe(Effect.orDie);
+    }),
+});
+
+export const setTaskDone = mutation({
+  args: Schema.Struct({
+    taskId: Id("tasks"),
+    done: Schema.Boolean,
+  }),
+  returns: Schema.Null,
+  handler: ({ taskId, done }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      yield* db.patch(taskId, { done }).pipe(Effect.orDie);
+
+      return null;
+    }),
+});
+
+export const moveTask = mutation({
+  args: Schema.Struct({
+    taskId: Id("tasks"),
+    projectId: Id("projects"),
+  }),
+  returns: Schema.Null,
+  handler: ({ taskId, projectId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      const task = yield* db.get(taskId).pipe(Effect.flatten, Effect.orDie);
+      yield* db.replace(taskId, { ...task, projectId }).pipe(Effect.orDie);
+
+      return null;
+    }),
+});
+
+export const deleteTask = mutation({
+  args: Schema.Struct({
+    taskId: Id("tasks"),
+  }),
+  returns: Schema.Null,
+  handler: ({ taskId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      yield* db.delete(taskId).pipe(Effect.orDie);
+
+      return null;
+    }),
+});
+
+export const noteHistory = query({
+  args: Schema.Struct({
+    noteId: Id("notes"),
+  }),
+  returns: Schema.Array(
+    confectSchema.tableSchemas.confectHistory.withSystemFields,
+  ),
+  handler: ({ noteId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* db.history(noteId);
+    }),
+});
+
+export const restoreVersion = mutation({
+  args: Schema.Struct({
+    historyEntryId: Id("confectHistory"),
+  }),
+  returns: Schema.String,
+  handler: ({ historyEntryId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      const entry = yield* db
+        .get(historyEntryId)
+        .pipe(Effect.flatten, Effect.orDie);
+
+      return yield* db.restoreVersion(entry).pipe(Effect.orDie);
+    }),
+});
+
+export const insertComment = mutation({
+  args: Schema.Struct({
+    noteId: Id("notes"),
+    text: Schema.String,
+  }),
+  returns: Id("comments"),
+  handler: ({ noteId, text }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.insert("comments", { noteId, text }).pipe(Effect.orDie);
+    }),
+});
+
+export const getComment = query({
+  args: Schema.Struct({
+    commentId: Id("comments"),
+  }),
+  returns: Schema.Option(confectSchema.tableSchemas.comments.withSystemFields),
+  handler: ({ commentId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* db.get(commentId).pipe(Effect.orDie);
+    }),
+});
+
+export const listComments = query({
+  args: Schema.Struct({
+    noteId: Id("notes"),
+    includeDeleted: Schema.Boolean,
+  }),
+  returns: Schema.Array(confectSchema.tableSchemas.comments.withSystemFields),
+  handler: ({ noteId, includeDeleted }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+      const comments = db.query("comments");
+
+      return yield* (includeDeleted ? comments.includeDeleted() : comments)
+        .withIndex("by_noteId", (q) => q.eq("noteId", noteId))
+        .collect()
+        .pipe(Effect.orDie);
+    }),
+});
+
+export const deleteComment = mutation({
+  args: Schema.Struct({
+    commentId: Id("comments"),
+  }),
+  returns: Schema.Null,
+  handler: ({ commentId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.delete(commentId).pipe(Effect.as(null));
+    }),
+});
+
+export const restoreComment = mutation({
+  args: Schema.Struct({
+    commentId: Id("comments"),
+  }),
+  returns: Schema.Null,
+  handler: ({ commentId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.restore(commentId).pipe(Effect.as(null));
+    }),
+});
+
+export const upsertLabel = mutation({
+  args: Schema.Struct({
+    name: Schema.String,
+    color: Schema.String,
+  }),
+  returns: Schema.Struct({
+    id: Id("labels"),
+    created: Schema.Boolean,
+  }),
+  handler: ({ name, color }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db
+        .upsert("labels", "by_name", { name }, { name, color })
+        .pipe(Effect.orDie);
+    }),
+});
+
+export const deleteLabel = mutation({
+  args: Schema.Struct({
+    labelId: Id("labels"),
+  }),
+  returns: Schema.Null,
+  handler: ({ labelId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.delete(labelId).pipe(Effect.as(null));
+    }),
+});
+
+export const restoreLabel = mutation({
+  args: Schema.Struct({
+    labelId: Id("labels"),
+  }),
+  returns: Schema.Union(Schema.Null, UniqueConstraintViolationResult),
+  handler: ({ labelId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db
+        .restore(labelId)
+        .pipe(
+          Effect.as(null),
+          Effect.catchTag(
+            "UniqueConstraintViolation",
+            uniqueConstraintViolationResult,
+          ),
+        );
+    }),
+});
+
+export const restoreNote = mutation({
+  args: Schema.Struct({
+    noteId: Id("notes"),
+  }),
+  returns: Schema.Null,
+  handler: ({ noteId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.restore(noteId).pipe(Effect.as(null));
+    }),
+});
+
+export const purgeComment = mutation({
+  args: Schema.Struct({
+    commentId: Id("comments"),
+  }),
+  returns: Schema.Null,
+  handler: ({ commentId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.purge(commentId).pipe(Effect.as(null));
+    }),
+});
+
+export const listUsernamesWithRules = queryWithRules({
+  args: Schema.Struct({}),
+  returns: Schema.Array(Schema.String),
+  handler: () =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      const users = yield* db.query("users").collect().pipe(Effect.orDie);
+
+      return Array.map(users, ({ username }) => username);
+    }),
+});
+
+export const getUsernameWithRules = queryWithRules({
+  args: Schema.Struct({
+    userId: Id("users"),
+  }),
+  returns: Schema.Option(Schema.String),
+  handler: ({ userId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      const user = yield* db.get(userId).pipe(Effect.orDie);
+
+      return Option.map(user, ({ username }) => username);
+    }),
+});
+
+export const userHistoryWithRules = queryWithRules({
+  args: Schema.Struct({
+    userId: Id("users"),
+  }),
+  returns: Schema.Array(Schema.String),
+  handler: ({ userId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      const entries = yield* db.history(userId).pipe(Effect.orDie);
+
+      return Array.map(entries, ({ operation }) => operation);
+    }),
+});
+
+export const insertUserWithRules = mutationWithRules({
+  args: Schema.Struct({
+    username: Schema.String,
+  }),
+  returns: Schema.Either({ right: Id("users"), left: Schema.String }),
+  handler: ({ username }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.insert("users", { username }).pipe(
+        Effect.mapError(({ _tag }) => _tag),
+        Effect.either,
+      );
+    }),
+});
+
+export const renameUserWithRules = mutationWithRules({
+  args: Schema.Struct({
+    userId: Id("users"),
+    username: Schema.String,
+  }),
+  returns: Schema.Either({ right: Schema.Null, left: Schema.String }),
+  handler: ({ userId, username }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.patch(userId, { username }).pipe(
+        Effect.as(null),
+        Effect.mapError(({ _tag }) => _tag),
+        Effect.either,
+      );
+    }),
+});
+
+export const listReadableUsernames = query({
+  args: Schema.Struct({}),
+  returns: Schema.Array(Schema.String),
+  handler: () =>
+    Effect.gen(function* () {
+      const { db, auth } = yield* ConfectQueryCtx;
+
+      const users = yield* withRules(db, {
+        users: { read: (user) => isCurrentUser(user) },
+      }).pipe(
+        Effect.andThen((db) => db.query("users").collect()),
+        Effect.provideService(ConfectAuth, auth),
+        Effect.orDie,
+      );
+
+      return Array.map(users, ({ username }) => username);
+    }),
+});
+
+export const insertInvoice = mutation({
+  args: Schema.Struct({
+    orgId: Schema.String,
+    number: Schema.Number,
+  }),
+  returns: Id("invoices"),
+  handler: ({ orgId, number }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+      const tenantDb = yield* withTenant(db, orgId);
+
+      return yield* tenantDb.insert("invoices", { number }).pipe(Effect.orDie);
+    }),
+});
+
+export const tryInsertInvoice = mutation({
+  args: Schema.Struct({
+    orgId: Schema.String,
+    number: Schema.Number,
+  }),
+  returns: Schema.Union(Id("invoices"), UniqueConstraintViolationResult),
+  handler: ({ orgId, number }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+      const tenantDb = yield* withTenant(db, orgId);
+
+      return yield* tenantDb
+        .insert("invoices", { number })
+        .pipe(
+          Effect.catchTag(
+            "UniqueConstraintViolation",
+            uniqueConstraintViolationResult,
+          ),
+          Effect.catchTag("TenantMismatch", Effect.die),
+        );
+    }),
+});
+
+export const listInvoices = query({
+  args: Schema.Struct({
+    orgId: Schema.String,
+    number: Schema.optional(Schema.Number),
+  }),
+  returns: Schema.Array(confectSchema.tableSchemas.invoices.withSystemFields),
+  handler: ({ orgId, number }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+      const invoices = (yield* withTenant(db, orgId)).query("invoices");
+
+      return yield* (
+        number === undefined
+          ? invoices
+          : invoices.withIndex("by_orgId", (q) =>
+              q.eq("orgId", orgId).eq("number", number),
+            )
+      )
+        .collect()
+        .pipe(Effect.orDie);
+    }),
+});
+
+export const listInvoicesByNumber = query({
+  args: Schema.Struct({
+    orgId: Schema.String,
+    number: Schema.Number,
+  }),
+  returns: Schema.Either({
+    right: Schema.Array(confectSchema.tableSchemas.invoices.withSystemFields),
+    left: Schema.String,
+  }),
+  handler: ({ orgId, number }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* (yield* withTenant(db, orgId))
+        .query("invoices")
+        .withIndex("by_number", (q) => q.eq("number", number))
+        .collect()
+        .pipe(
+          Effect.mapError(({ _tag }) => _tag),
+          Effect.either,
+        );
+    }),
+});
+
+export const countInvoicesInTenantIndex = query({
+  args: Schema.Struct({
+    orgId: Schema.String,
+  }),
+  returns: Schema.Number,
+  handler: ({ orgId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      const invoices = yield* (yield* withTenant(db, orgId))
+        .query("invoices")
+        .withIndex("by_orgId")
+        .collect()
+        .pipe(Effect.orDie);
+
+      return invoices.length;
+    }),
+});
+
+export const getInvoice = query({
+  args: Schema.Struct({
+    orgId: Schema.String,
+    invoiceId: Id("invoices"),
+  }),
+  returns: Schema.Either({
+    right: Schema.Option(confectSchema.tableSchemas.invoices.withSystemFields),
+    left: Schema.Literal("TenantMismatch"),
+  }),
+  handler: ({ orgId, invoiceId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* (yield* withTenant(db, orgId)).get(invoiceId).pipe(
+        Effect.catchTag("DocumentDecodeError", Effect.die),
+        Effect.mapError(({ _tag }) => _tag),
+        Effect.either,
+      );
+    }),
+});
+
+export const deleteInvoice = mutation({
+  args: Schema.Struct({
+    orgId: Schema.String,
+    invoiceId: Id("invoices"),
+  }),
+  returns: Schema.Either({
+    right: Schema.Null,
+    left: Schema.Literal("TenantMismatch"),
+  }),
+  handler: ({ orgId, invoiceId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* (yield* withTenant(db, orgId)).delete(invoiceId).pipe(
+        Effect.as(null),
+        Effect.catchTag("ReferencedDocumentError", Effect.die),
+        Effect.catchTag("AccessDenied", Effect.die),
+        Effect.mapError(({ _tag }) => _tag),
+        Effect.either,
+      );
+    }),
+});
+
+export const insertTooLongText = mutation({
+  args: Schema.Struct({
+    text: Schema.String,
+  }),
+  returns: Id("notes"),
+  handler: ({ text }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.insert("notes", { text });
+    }),
+});
+
+export const insertWithValidatedArgs = mutation({
+  args: Schema.Struct({
+    text: Schema.String.pipe(Schema.maxLength(100)),
+  }),
+  returns: Id("notes"),
+  handler: ({ text }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.insert("notes", { text });
+    }),
+});
+
+export const insertWithPrefixedValidatedArgs = mutation({
+  args: Schema.Struct({
+    prefix: Schema.String.pipe(Schema.maxLength(10)),
+    text: Schema.String.pipe(Schema.maxLength(100)),
+  }),
+  returns: Id("notes"),
+  handler: ({ prefix, text }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.insert("notes", { text: `${prefix}${text}` });
+    }),
+});
+
+export const replace = mutation({
+  args: Schema.Struct({
+    noteId: Id("notes"),
+    fields: Schema.Struct({
+      _id: Schema.optional(Id("notes")),
+      _creationTime: Schema.optional(Schema.Number),
+      text: Schema.String,
+      bigDecimal: Schema.optional(Schema.BigDecimal),
+    }),
+  }),
+  returns: Schema.Null,
+  handler: ({ noteId, fields }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.replace(noteId, fields).pipe(Effect.as(null));
+    }),
+});
+
+export const deleteNote = mutation({
+  args: Schema.Struct({
+    noteId: Id("notes"),
+  }),
+  returns: Schema.Null,
+  handler: ({ noteId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.delete(noteId).pipe(Effect.as(null));
+    }),
+});
+
+export const deleteWithLockedReferrers = mutation({
+  args: Schema.Struct({
+    id: Schema.Union(Id("notes"), Id("users")),
+  }),
+  returns: Schema.Either({ right: Schema.Null, left: Schema.String }),
+  handler: ({ id }) =>
+    Effect.gen(function* () {
+      const { db, auth } = yield* ConfectMutationCtx;
+
+      const lockedDb = yield* withRules(db, {
+        noteReaders: { delete: () => Effect.succeed(false) },
+        notes: { modify: () => Effect.succeed(false) },
+      }).pipe(Effect.provideService(ConfectAuth, auth), Effect.orDie);
+
+      return yield* lockedDb.delete(id).pipe(
+        Effect.as(null),
+        Effect.mapError(({ _tag }) => _tag),
+        Effect.either,
+      );
+    }),
+});
+
+export const tryDeleteNote = mutation({
+  args: Schema.Struct({
+    noteId: Id("notes"),
+  }),
+  returns: Schema.Union(
+    Schema.Null,
+    Schema.Struct({
+      referringTableName: Schema.String,
+      referringId: Schema.String,
+      fieldName: Schema.String,
+    }),
+  ),
+  handler: ({ noteId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.delete(noteId).pipe(
+        Effect.as(null),
+        Effect.catchTag(
+          "ReferencedDocumentError",
+          ({ referringTableName, referringId, fieldName }) =>
+            Effect.succeed({ referringTableName, referringId, fieldName }),
+        ),
+      );
+    }),
+});
+
+export const isAuthenticated = query({
+  args: Schema.Struct({}),
+  returns: Schema.Boolean,
+  handler: () =>
+    Effect.gen(function* () {
+      const { auth } = yield* ConfectQueryCtx;
+
+      return yield* auth.getUserIdentity().pipe(Effect.map(Option.isSome));
+    }),
+});
+
+// Errors
+
+export class NoteNotFoundError extends Schema.TaggedError<NoteNotFoundError>()(
+  "NoteNotFoundError",
+  { noteId: Id("notes") },
+) {}
+
+export const getOrFail = query({
+  args: Schema.Struct({
+    noteId: Id("notes"),
+  }),
+  returns: confectSchema.tableSchemas.notes.withSystemFields,
+  errors: NoteNotFoundError,
+  handler: ({ noteId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* db.get(noteId).pipe(
+        Effect.andThen(
+          Option.match({
+            onNone: () => Effect.fail(new NoteNotFoundError({ noteId })),
+            onSome: Effect.succeed,
+          }),
+        ),
+      );
+    }),
+});
+
+export const failWithUndeclaredError = query({
+  args: Schema.Struct({}),
+  returns: Schema.Null,
+  errors: NoteNotFoundError,
+  handler: () => Effect.fail(new NotUniqueError()),
+});
+
+// Document decode errors
+
+const DocumentDecodeErrorPolicy = Schema.Literal("fail", "skip", "die");
+
+export const collectTextOnDecodeError = query({
+  args: Schema.Struct({
+    policy: DocumentDecodeErrorPolicy,
+  }),
+  returns: Schema.Union(
+    Schema.Literal("DocumentDecodeError"),
+    Schema.Array(Schema.String),
+  ),
+  handler: ({ policy }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* db
+        .query("notes")
+        .onDecodeError(policy)
+        .collect()
+        .pipe(
+          Effect.map(Array.map(({ text }) => text)),
+          Effect.catchTag("DocumentDecodeError", ({ _tag }) =>
+            Effect.succeed(_tag),
+          ),
+        );
+    }),
+});
+
+export const firstTextSkippingDecodeErrors = query({
+  args: Schema.Struct({}),
+  returns: Schema.Option(Schema.String),
+  handler: () =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* db
+        .query("notes")
+        .order("asc")
+        .onDecodeError("skip")
+        .first()
+        .pipe(Effect.map(Option.map(({ text }) => text)));
+    }),
+});
+
+export const getDocumentDecodeError = query({
+  args: Schema.Struct({
+    noteId: Id("notes"),
+  }),
+  returns: Schema.Option(
+    Schema.Struct({ tableName: Schema.String, id: Schema.String }),
+  ),
+  handler: ({ noteId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* db.get(noteId).pipe(
+        Effect.as(Option.none()),
+        Effect.catchTag("DocumentDecodeError", ({ tableName, id }) =>
+          Effect.succeedSome({ tableName, id }),
+        ),
+      );
+    }),
+});
+
+// Action
+
+export const actionQuery = internalQuery({
+  args: Schema.Struct({}),
+  returns: Schema.Null,
+  handler: () =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* db.query("notes").collect().pipe(Effect.as(null));
+    }),
+});
+
+export const actionMutation = internalMutation({
+  args: Schema.Struct({}),
+  returns: Id("notes"),
+  handler: () =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.insert("notes", { text: "Hello, world!" });
+    }),
+});
+
+export const actionNoop = internalAction({
+  args: Schema.Struct({}),
+  returns: Schema.Null,
+  handler: (_ctx) => Effect.succeed(null),
+});
+
+export const runQueryAndMutation = action({
+  args: Schema.Struct({}),
+  returns: Schema.Null,
+  handler: (): Effect.Effect<null, never, ConfectActionCtx> =>
+    Effect.gen(function* () {
+      const { runQuery, runMutation, runAction } = yield* ConfectActionCtx;
+
+      yield* runQuery(internal.functions.actionQuery);
+      yield* runMutation(internal.functions.actionMutation);
+      yield* runAction(internal.functions.actionNoop);
+
+      return null;
+    }),
+});
+
+export const actionWithAuthAndRunMethods = action({
+  args: Schema.Struct({}),
+  returns: Schema.Null,
+  handler: (): Effect.Effect<null, never, ConfectActionCtx> =>
+    Effect.gen(function* () {
+      const { auth, runAction } = yield* ConfectActionCtx;
+
+      yield* auth.getUserIdentity().pipe(
+        Effect.andThen(
+          Option.match({
+            onNone: () => Effect.die,
+            onSome: () => Effect.void,
+          }),
+        ),
+      );
+
+      yield* runAction(api.functions.runQueryAndMutation);
+
+      return null;
+    }),
+});
+
+export const executeVectorSearch = action({
+  args: Schema.Struct({
+    vector: Schema.Array(Schema.Number),
+    tag: Schema.Union(Schema.String, Schema.Null),
+    limit: Schema.Number,
+  }),
+  returns: Schema.Array(
+    Schema.Struct({
+      text: Schema.String,
+      tag: Schema.optional(Schema.String),
+    }),
+  ),
+  handler: ({
+    vector,
+    tag,
+    limit,
+  }): Effect.Effect<
+    { text: string; tag?: string }[],
+    ParseResult.ParseError,
+    ConfectActionCtx
+  > =>
+    Effect.gen(function* () {
+      const { vectorSearch, runQuery } = yield* ConfectActionCtx;
+
+      return yield* vectorSearch("notes", "embedding", {
+        vector: vector as number[],
+        filter: tag === null ? undefined : (q) => q.eq("tag", tag),
+        limit,
+      }).pipe(
+        Effect.andThen(
+          Effect.forEach((vectorResult) =>
+            runQuery(api.functions.getVectorSearch, {
+              noteId: vectorResult._id,
+            }).pipe(
+              Effect.andThen(
+                Schema.decode(
+                  Schema.Option(
+                    confectSchema.tableSchemas.notes.withSystemFields,
+                  ),
+                ),
+              ),
+              Effect.map(Option.getOrThrow),
+              Effect.map(({ text, tag }) => ({ text, tag })),
+            ),
+          ),
+        ),
+      );
+    }),
+});
+
+export const getVectorSearch = query({
+  args: Schema.Struct({
+    noteId: Id("notes"),
+  }),
+  returns: Schema.Option(confectSchema.tableSchemas.notes.withSystemFields),
+  handler: ({ noteId }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* db.get(noteId);
+    }),
+});
+
+// Scheduler
+
+export const insertAfter = action({
+  args: Schema.Struct({
+    text: Schema.String,
+    millis: Schema.Number,
+  }),
+  returns: Schema.Null,
+  handler: ({ text, millis }): Effect.Effect<null, never, ConfectActionCtx> =>
+    Effect.gen(function* () {
+      const { scheduler } = yield* ConfectActionCtx;
+
+      return yield* scheduler
+        .runAfter(millis, api.functions.scheduledInsert, {
+          text,
+        })
+        .pipe(Effect.as(null));
+    }),
+});
+
+export const scheduledInsert = mutation({
+  args: Schema.Struct({
+    text: Schema.String,
+  }),
+  returns: Schema.Null,
+  handler: ({
+    text,
+  }): Effect.Effect<
+    null,
+    | ParseResult.ParseError
+    | UniqueConstraintViolation
+    | AccessDenied
+    | TenantMismatch,
+    ConfectMutationCtx
+  > =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.insert("notes", { text }).pipe(Effect.as(null));
+    }),
+});
+
+export const insertAt = action({
+  args: Schema.Struct({
+    text: Schema.String,
+    timestamp: Schema.Number,
+  }),
+  returns: Schema.Null,
+  handler: ({
+    text,
+    timestamp,
+  }): Effect.Effect<null, never, ConfectActionCtx> =>
+    Effect.gen(function* () {
+      const { scheduler } = yield* ConfectActionCtx;
+
+      return yield* scheduler
+        .runAt(timestamp, api.functions.scheduledInsert, {
+          text,
+        })
+        .pipe(Effect.as(null));
+    }),
+});
+
+export const systemNormalizeId = query({
+  args: Schema.Struct({
+    id: Id("_storage"),
+  }),
+  returns: Schema.Option(Id("_storage")),
+  handler: ({ id }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return db.system.normalizeId("_storage", id);
+    }),
+});
+
+export const systemGet = query({
+  args: Schema.Struct({
+    id: Id("_storage"),
+  }),
+  returns: Schema.Option(confectSchema.tableSchemas._storage.withSystemFields),
+  handler: ({ id }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* db.system.get(id);
+    }),
+});
+
+export const systemQuery = query({
+  args: Schema.Struct({}),
+  returns: Schema.Array(confectSchema.tableSchemas._storage.withSystemFields),
+  handler: () =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* db.system.query("_storage").collect();
     }),
 });
 
@@ -622,3 +1721,138 @@ export const storageDelete = action({
       return yield* storage.delete(id).pipe(Effect.as(null));
     }),
 });
+
+export const listContacts = query({
+  args: Schema.Struct({}),
+  returns: Schema.Array(confectSchema.tableSchemas.contacts.withSystemFields),
+  handler: () =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* db.query("contacts").collect();
+    }),
+});
+
+export const renameContact = mutation({
+  args: Schema.Struct({
+    contactId: Id("contacts"),
+    displayName: Schema.String,
+  }),
+  returns: Schema.Null,
+  handler: ({ contactId, displayName }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      return yield* db.patch(contactId, { displayName }).pipe(Effect.as(null));
+    }),
+});
+
+export const countOldContactVersions = query({
+  args: Schema.Struct({}),
+  returns: Schema.Array(Schema.Number),
+  handler: () =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* db.countOldVersions("contacts");
+    }),
+});
+
+export const withIndexFirstOrParseError = query({
+  args: Schema.Struct({
+    text: Schema.String,
+  }),
+  returns: Schema.Union(
+    Schema.Option(confectSchema.tableSchemas.notes.withSystemFields),
+    Schema.Literal("ParseError"),
+  ),
+  handler: ({ text }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* db
+        .query("notes")
+        .withIndex("by_text", (q) => q.eq("text", text))
+        .first()
+        .pipe(
+          Effect.catchTag("ParseError", ({ _tag }) => Effect.succeed(_tag)),
+        );
+    }),
+});
+
+export const listAttachmentsOfKind = query({
+  args: Schema.Struct({
+    kind: Schema.Literal("file", "link"),
+  }),
+  returns: Schema.Array(
+    confectSchema.tableSchemas.attachments.withSystemFields,
+  ),
+  handler: ({ kind }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* db
+        .query("attachments")
+        .withIndex("by_kind", (q) => q.eq("kind", kind))
+        .collect();
+    }),
+});
+
+export const listAttachmentsWithUrl = query({
+  args: Schema.Struct({
+    url: Schema.String,
+  }),
+  returns: Schema.Array(
+    confectSchema.tableSchemas.attachments.withSystemFields,
+  ),
+  handler: ({ url }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* db
+        .query("attachments")
+        .withIndex("by_url", (q) => q.eq("url", url))
+        .collect();
+    }),
+});
+
+export const listEventsBetween = query({
+  args: Schema.Struct({
+    from: Schema.DateFromNumber,
+    to: Schema.DateFromNumber,
+  }),
+  returns: Schema.Array(confectSchema.tableSchemas.events.withSystemFields),
+  handler: ({ from, to }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectQueryCtx;
+
+      return yield* db
+        .query("events")
+        .withIndex("by_at", (q) => q.gte("at", from).lt("at", to))
+        .collect();
+    }),
+});
+
+export const upsertEventAt = mutation({
+  args: Schema.Struct({
+    name: Schema.String,
+    at: Schema.DateFromNumber,
+  }),
+  returns: Schema.Struct({
+    created: Schema.Boolean,
+    names: Schema.Array(Schema.String),
+  }),
+  handler: ({ name, at }) =>
+    Effect.gen(function* () {
+      const { db } = yield* ConfectMutationCtx;
+
+      const { created } = yield* db
+        .upsert("events", "by_at", { at }, { name, at })
+        .pipe(Effect.orDie);
+      const events = yield* db
+        .getManyFrom("events", "by_at", at)
+        .pipe(Effect.orDie);
+
+      return { created, names: events.map(({ name }) => name) };
+    }),
+});
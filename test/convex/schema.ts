@@ -2,40 +2,185 @@ import { Schema } from "effect";
 import * as schema from "~/src/server/schema";
 import { Id } from "~/src/server/schemas/Id";
 
-export const confectSchema = schema.defineSchema({
-  notes: schema
-    .defineTable(
+export const confectSchema = schema.defineSchema(
+  {
+    notes: schema
+      .defineTable(
+        Schema.Struct({
+          userId: Schema.optional(Id("users")),
+          text: Schema.String.pipe(Schema.maxLength(100)),
+          tag: Schema.optional(Schema.String),
+          author: Schema.optional(
+            Schema.Struct({
+              role: Schema.Literal("admin", "user"),
+              name: Schema.String,
+            }),
+          ),
+          embedding: Schema.optional(Schema.Array(Schema.Number)),
+          bigDecimal: Schema.optional(Schema.BigDecimal),
+        }),
+        { onDelete: { userId: "unset" } },
+      )
+      .index("by_text", ["text"])
+      .index("by_userId", ["userId"])
+      .index("by_role", ["author.role"])
+      .index("by_name_and_role_and_text", [
+        "author.name",
+        "author.role",
+        "text",
+      ])
+      .searchIndex("text", {
+        searchField: "text",
+        filterFields: ["tag"],
+      })
+      .vectorIndex("embedding", {
+        vectorField: "embedding",
+        filterFields: ["author.name", "tag"],
+        dimensions: 1536,
+      }),
+    users: schema
+      .defineTable(
+        Schema.Struct({
+          username: Schema.String,
+        }),
+      )
+      .unique("by_username", ["username"]),
+    noteReaders: schema
+      .defineTable(
+        Schema.Struct({
+          noteId: Id("notes"),
+          userId: Id("users"),
+        }),
+        { onDelete: { noteId: "cascade", userId: "restrict" } },
+      )
+      .index("by_noteId", ["noteId"])
+      .index("by_userId", ["userId"]),
+    readReceipts: schema
+      .defineTable(
+        Schema.Struct({
+          noteReaderId: Id("noteReaders"),
+        }),
+        { onDelete: { noteReaderId: "restrict" } },
+      )
+      .index("by_noteReaderId", ["noteReaderId"]),
+    notebooks: schema.defineTable(
       Schema.Struct({
-        userId: Schema.optional(Id("users")),
-        text: Schema.String.pipe(Schema.maxLength(100)),
-        tag: Schema.optional(Schema.String),
-        author: Schema.optional(
+        ownerId: Id("users"),
+        sections: Schema.Array(
           Schema.Struct({
-            role: Schema.Literal("admin", "user"),
-            name: Schema.String,
+            noteIds: Schema.Array(Id("notes")),
           }),
         ),
-        embedding: Schema.optional(Schema.Array(Schema.Number)),
-        bigDecimal: Schema.optional(Schema.BigDecimal),
+        pinned: Schema.optional(
+          Schema.Union(
+            Schema.Struct({ kind: Schema.Literal("note"), id: Id("notes") }),
+            Schema.Struct({ kind: Schema.Literal("user"), id: Id("users") }),
+          ),
+        ),
+      }),
+    ),
+    projects: schema.defineTable(
+      Schema.Struct({
+        name: Schema.String,
+        openTaskCount: Schema.Number,
+      }),
+    ),
+    tasks: schema.defineTable(
+      Schema.Struct({
+        projectId: Id("projects"),
+        title: Schema.String,
+        done: Schema.Boolean,
       }),
-    )
-    .index("by_text", ["text"])
-    .index("by_role", ["author.role"])
-    .index("by_name_and_role_and_text", ["author.name", "author.role", "text"])
-    .searchIndex("text", {
-      searchField: "text",
-      filterFields: ["tag"],
-    })
-    .vectorIndex("embedding", {
-      vectorField: "embedding",
-      filterFields: ["author.name", "tag"],
-      dimensions: 1536,
-    }),
-  users: schema.defineTable(
-    Schema.Struct({
-      username: Schema.String,
-    }),
-  ),
-});
+    ),
+    comments: schema
+      .defineTable(
+        Schema.Struct({
+          noteId: Id("notes"),
+          text: Schema.String,
+        }),
+      )
+      .index("by_noteId", ["noteId"])
+      .softDelete(),
+    labels: schema
+      .defineTable(
+        Schema.Struct({
+          name: Schema.String,
+          color: Schema.String,
+        }),
+      )
+      .unique("by_name", ["name"])
+      .softDelete(),
+    noteLabels: schema.defineTable(
+      Schema.Struct({
+        noteId: Id("notes"),
+        labelId: Id("labels"),
+      }),
+    ),
+    invoices: schema
+      .defineTable(
+        Schema.Struct({
+          orgId: Schema.String,
+          number: Schema.Number,
+        }),
+        { tenantField: "orgId" },
+      )
+      .index("by_orgId", ["orgId", "number"])
+      .unique("by_number", ["number"]),
+    contacts: schema.defineTable(
+      Schema.Struct({
+        firstName: Schema.String,
+        lastName: Schema.String,
+        displayName: Schema.String,
+      }),
+      {
+        versions: [
+          schema.tableVersion(
+            Schema.Struct({ fullName: Schema.String }),
+            ({ fullName }) => {
+              const [firstName = "", lastName = ""] = fullName.split(" ");
+              return { firstName, lastName };
+            },
+          ),
+          schema.tableVersion(
+            Schema.Struct({
+              firstName: Schema.String,
+              lastName: Schema.String,
+            }),
+            ({ firstName, lastName }) => ({
+              firstName,
+              lastName,
+              displayName: `${firstName} ${lastName}`,
+            }),
+          ),
+        ],
+      },
+    ),
+    events: schema
+      .defineTable(
+        Schema.Struct({
+          name: Schema.String,
+          at: Schema.DateFromNumber,
+        }),
+      )
+      .index("by_at", ["at"]),
+    attachments: schema
+      .defineTable(
+        Schema.Union(
+          Schema.Struct({ kind: Schema.Literal("file"), name: Schema.String }),
+          Schema.Struct({ kind: Schema.Literal("link"), url: Schema.String }),
+        ),
+      )
+      .index("by_kind", ["kind"])
+      .index("by_url", ["url"]),
+    intervals: schema.defineTable(
+      Schema.Struct({
+        start: Schema.Number,
+        end: Schema.Number,
+        label: Schema.optional(Schema.String),
+      }).pipe(Schema.filter(({ start, end }) => start <= end)),
+    ),
+  },
+  { history: ["notes", "users"], migrations: true },
+);
 
 export default confectSchema.convexSchemaDefinition;
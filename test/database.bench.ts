@@ -0,0 +1,25 @@
+import { Effect } from "effect";
+import { bench, describe } from "vitest";
+
+import { makeFakeDatabaseReader } from "~/test/fake-database";
+
+describe.each([2, 60])("get with %i tables", (tableCount) => {
+  const { reader, newReader, lastTableName, lastTableId } =
+    makeFakeDatabaseReader(tableCount);
+
+  bench("get(tableName, id)", async () => {
+    await Effect.runPromise(reader.get(lastTableName, lastTableId));
+  });
+
+  bench("get(id), once its table has been resolved", async () => {
+    await Effect.runPromise(reader.get(lastTableId));
+  });
+
+  bench("get(tableName, id) in a new context", async () => {
+    await Effect.runPromise(newReader().get(lastTableName, lastTableId));
+  });
+
+  bench("get(id) in a new context", async () => {
+    await Effect.runPromise(newReader().get(lastTableId));
+  });
+});
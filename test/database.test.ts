@@ -1,12 +1,19 @@
-import { expectTypeOf, test } from "@effect/vitest";
-import { Schema } from "effect";
+import { describe, expect, expectTypeOf, it, test } from "@effect/vitest";
+import { Cause, Effect, Exit, ParseResult, Schema } from "effect";
 
-import type { DatabaseSchemasFromConfectDataModel } from "~/src/server/database";
+import {
+  BatchWriteError,
+  type ConfectPatch,
+  type DatabaseSchemasFromConfectDataModel,
+  type IdFieldName,
+  type RelatedTableName,
+} from "~/src/server/database";
 import {
   type ConfectDataModelFromConfectSchema,
   defineTable,
 } from "~/src/server/schema";
 import { Id } from "~/src/server/schemas/Id";
+import { makeFakeDatabaseReader } from "~/test/fake-database";
 
 test("DatabaseSchemasFromConfectDataModel", () => {
   const notesSchemaFields = {
@@ -40,3 +47,228 @@ test("DatabaseSchemasFromConfectDataModel", () => {
   type ExpectedNotesSchemaEncoded = ExpectedDatabaseSchemas["notes"]["Encoded"];
   expectTypeOf<ActualNotesSchemaEncoded>().toEqualTypeOf<ExpectedNotesSchemaEncoded>();
 });
+
+describe("ConfectPatch", () => {
+  const confectSchema = {
+    notes: defineTable(
+      Schema.Struct({
+        text: Schema.String,
+        author: Schema.optional(
+          Schema.Struct({
+            role: Schema.Literal("admin", "user"),
+            name: Schema.String,
+          }),
+        ),
+      }),
+    ),
+  };
+  type NotesPatch = ConfectPatch<
+    ConfectDataModelFromConfectSchema<typeof confectSchema>["notes"]
+  >;
+
+  test("accepts top-level fields and nested field paths", () => {
+    expectTypeOf<{
+      text: string;
+      "author.role": "admin";
+    }>().toMatchTypeOf<NotesPatch>();
+    expectTypeOf<{ author: undefined }>().toMatchTypeOf<NotesPatch>();
+    expectTypeOf<{ "author.role": "guest" }>().not.toMatchTypeOf<NotesPatch>();
+    expectTypeOf<{ _id: string }>().not.toMatchTypeOf<NotesPatch>();
+  });
+
+  test("passes the current value to functional updaters", () => {
+    expectTypeOf<
+      Parameters<Extract<NotesPatch["text"], (current: any) => any>>[0]
+    >().toEqualTypeOf<string>();
+    expectTypeOf<
+      Parameters<Extract<NotesPatch["author.name"], (current: any) => any>>[0]
+    >().toEqualTypeOf<string | undefined>();
+  });
+});
+
+describe("relationships", () => {
+  const confectSchema = {
+    notes: defineTable(
+      Schema.Struct({
+        text: Schema.String,
+        userId: Schema.optional(Id("users")),
+        editorId: Id("users"),
+      }),
+    ),
+    users: defineTable(Schema.Struct({ username: Schema.String })),
+  };
+  type ConfectDataModel = ConfectDataModelFromConfectSchema<
+    typeof confectSchema
+  >;
+  type Note = ConfectDataModel["notes"]["confectDocument"];
+
+  test("IdFieldName picks out Id fields other than _id", () => {
+    expectTypeOf<IdFieldName<Note>>().toEqualTypeOf<"userId" | "editorId">();
+  });
+
+  test("RelatedTableName reads the table from the Id type", () => {
+    expectTypeOf<
+      RelatedTableName<ConfectDataModel, Note, "userId">
+    >().toEqualTypeOf<"users">();
+  });
+});
+
+describe("get", () => {
+  const normalizeIdCallsForGet = (
+    tableCount: number,
+    get: (
+      fakeDatabaseReader: ReturnType<typeof makeFakeDatabaseReader>,
+    ) => Effect.Effect<unknown, unknown>,
+  ) => {
+    const fakeDatabaseReader = makeFakeDatabaseReader(tableCount);
+    const before = fakeDatabaseReader.normalizeIdCalls();
+    return get(fakeDatabaseReader).pipe(
+      Effect.map(() => fakeDatabaseReader.normalizeIdCalls() - before),
+    );
+  };
+
+  it.effect("with a table name does not depend on the number of tables", () =>
+    Effect.gen(function* () {
+      const getWithTableName = ({
+        reader,
+        lastTableName,
+        lastTableId,
+      }: ReturnType<typeof makeFakeDatabaseReader>) =>
+        reader.get(lastTableName, lastTableId);
+
+      expect(yield* normalizeIdCallsForGet(2, getWithTableName)).toBe(1);
+      expect(yield* normalizeIdCallsForGet(60, getWithTableName)).toBe(1);
+    }),
+  );
+
+  it.effect("remembers the table of an id it has already resolved", () =>
+    Effect.gen(function* () {
+      const getTwice = ({
+        reader,
+        lastTableId,
+      }: ReturnType<typeof makeFakeDatabaseReader>) =>
+        reader
+          .get(lastTableId)
+          .pipe(Effect.andThen(() => reader.get(lastTableId)));
+      const getWithTableNameThenWithout = ({
+        reader,
+        lastTableName,
+        lastTableId,
+      }: ReturnType<typeof makeFakeDatabaseReader>) =>
+        reader
+          .get(lastTableName, lastTableId)
+          .pipe(Effect.andThen(() => reader.get(lastTableId)));
+
+      const getWithTableNameTwice = ({
+        reader,
+        lastTableName,
+        lastTableId,
+      }: ReturnType<typeof makeFakeDatabaseReader>) =>
+        reader
+          .get(lastTableName, lastTableId)
+          .pipe(Effect.andThen(() => reader.get(lastTableName, lastTableId)));
+
+      expect(yield* normalizeIdCallsForGet(60, getTwice)).toBe(60);
+      expect(yield* normalizeIdCallsForGet(60, getWithTableNameTwice)).toBe(1);
+      expect(
+        yield* normalizeIdCallsForGet(60, getWithTableNameThenWithout),
+      ).toBe(1);
+    }),
+  );
+
+  it.effect(
+    "searches every table again in a new context, unless given a table name",
+    () =>
+      Effect.gen(function* () {
+        const {
+          reader,
+          newReader,
+          lastTableName,
+          lastTableId,
+          normalizeIdCalls,
+        } = makeFakeDatabaseReader(60);
+
+        yield* reader.get(lastTableId);
+        const beforeGet = normalizeIdCalls();
+        yield* newReader().get(lastTableId);
+        const beforeGetWithTableName = normalizeIdCalls();
+        yield* newReader().get(lastTableName, lastTableId);
+
+        expect(beforeGetWithTableName - beforeGet).toBe(60);
+        expect(normalizeIdCalls() - beforeGetWithTableName).toBe(1);
+      }),
+  );
+
+  it.effect("dies when the id is not in the given table", () =>
+    Effect.gen(function* () {
+      const { reader, lastTableId } = makeFakeDatabaseReader(2);
+
+      const exit = yield* Effect.exit(reader.get("table0", lastTableId));
+
+      expect(Exit.isFailure(exit) && Cause.isDie(exit.cause)).toBe(true);
+    }),
+  );
+});
+
+describe("patch", () => {
+  const normalizeIdCallsForPatch = (
+    tableCount: number,
+    patch: (
+      fakeDatabaseReader: ReturnType<typeof makeFakeDatabaseReader>,
+    ) => Effect.Effect<unknown, unknown>,
+  ) => {
+    const fakeDatabaseReader = makeFakeDatabaseReader(tableCount);
+    const before = fakeDatabaseReader.normalizeIdCalls();
+    return patch(fakeDatabaseReader).pipe(
+      Effect.map(() => fakeDatabaseReader.normalizeIdCalls() - before),
+    );
+  };
+
+  it.effect("with a table name does not depend on the number of tables", () =>
+    Effect.gen(function* () {
+      const patch = ({
+        newWriter,
+        lastTableId,
+      }: ReturnType<typeof makeFakeDatabaseReader>) =>
+        newWriter().patch(lastTableId, { text: "Patched" });
+      const patchWithTableName = ({
+        newWriter,
+        lastTableName,
+        lastTableId,
+      }: ReturnType<typeof makeFakeDatabaseReader>) =>
+        newWriter().patch(lastTableName, lastTableId, { text: "Patched" });
+
+      expect(yield* normalizeIdCallsForPatch(60, patch)).toBe(60);
+      expect(yield* normalizeIdCallsForPatch(2, patchWithTableName)).toBe(1);
+      expect(yield* normalizeIdCallsForPatch(60, patchWithTableName)).toBe(1);
+    }),
+  );
+
+  it.effect("dies when the id is not in the given table", () =>
+    Effect.gen(function* () {
+      const { newWriter, lastTableId } = makeFakeDatabaseReader(2);
+
+      const exit = yield* Effect.exit(
+        newWriter().patch("table0", lastTableId, { text: "Patched" }),
+      );
+
+      expect(Exit.isFailure(exit) && Cause.isDie(exit.cause)).toBe(true);
+    }),
+  );
+});
+
+test("BatchWriteError message", () => {
+  const parseError = (message: string) =>
+    new ParseResult.ParseError({
+      issue: new ParseResult.Type(Schema.String.ast, 1, message),
+    });
+
+  const batchWriteError = new BatchWriteError({
+    failures: [
+      { index: 0, parseError: parseError("First") },
+      { index: 2, parseError: parseError("Second") },
+    ],
+  });
+
+  expect(batchWriteError.message).toEqual("[0] First\n[2] Second");
+});
@@ -0,0 +1,71 @@
+import type {
+  GenericDataModel,
+  GenericDatabaseReader,
+  GenericDatabaseWriter,
+} from "convex/server";
+import type { GenericId } from "convex/values";
+import { Array, Record, Schema } from "effect";
+
+import type { GenericConfectDataModel } from "~/src/server/data-model";
+import {
+  ConfectBaseDatabaseReaderImpl,
+  ConfectDatabaseWriterImpl,
+} from "~/src/server/database";
+import { defineSchema, defineTable } from "~/src/server/schema";
+
+/**
+ * A `ConfectBaseDatabaseReaderImpl` over `tableCount` tables, backed by an in-memory database which counts its `normalizeId` calls. `Id`s look like `convex-test`'s: `"<n>;<tableName>"`.
+ *
+ * Convex makes a new context, and so a new database, for every function call: `newReader` and `newWriter` make one over the same documents.
+ */
+export const makeFakeDatabaseReader = (tableCount: number) => {
+  const tableNames = Array.makeBy(tableCount, (i) => `table${i}`);
+  const documents = new Map<string, Record.ReadonlyRecord<string, unknown>>(
+    tableNames.map((tableName) => {
+      const _id = `1;${tableName}`;
+      return [_id, { _id, _creationTime: 0, text: tableName }];
+    }),
+  );
+  let normalizeIdCalls = 0;
+
+  const db = {
+    get: (id: GenericId<string>) => Promise.resolve(documents.get(id) ?? null),
+    normalizeId: (tableName: string, id: string) => {
+      normalizeIdCalls++;
+      return id.endsWith(`;${tableName}`) ? id : null;
+    },
+    patch: (
+      id: GenericId<string>,
+      value: Record.ReadonlyRecord<string, unknown>,
+    ) => {
+      documents.set(id, { ...documents.get(id), ...value });
+      return Promise.resolve();
+    },
+  } as unknown as GenericDatabaseWriter<GenericDataModel>;
+
+  const confectSchemaDefinition = defineSchema(
+    Record.fromIterableWith(tableNames, (tableName) => [
+      tableName,
+      defineTable(Schema.Struct({ text: Schema.String })),
+    ]),
+  );
+
+  const newReader = () =>
+    new ConfectBaseDatabaseReaderImpl<GenericConfectDataModel>(
+      db as Omit<GenericDatabaseReader<GenericDataModel>, "system">,
+      confectSchemaDefinition,
+    );
+
+  return {
+    reader: newReader(),
+    newReader,
+    newWriter: () =>
+      new ConfectDatabaseWriterImpl<GenericConfectDataModel>(
+        db,
+        confectSchemaDefinition,
+      ),
+    lastTableId: `1;${tableNames[tableCount - 1]}` as GenericId<string>,
+    lastTableName: tableNames[tableCount - 1] as string,
+    normalizeIdCalls: () => normalizeIdCalls,
+  };
+};
@@ -1,9 +1,10 @@
 import { describe, expect, vi } from "@effect/vitest";
-import { Array, Effect, Exit, Order, Schema, String } from "effect";
+import { ConvexError } from "convex/values";
+import { Array, Cause, Effect, Exit, Order, Schema, String } from "effect";
 
 import { NotUniqueError } from "~/src/server/database";
 import { test } from "~/test/convex-effect-test";
-import { api } from "~/test/convex/_generated/api";
+import { api, internal } from "~/test/convex/_generated/api";
 import type { Id } from "~/test/convex/_generated/dataModel";
 import { TestConvexService } from "~/test/test-convex-service";
 
@@ -37,6 +38,36 @@ test("mutation get", () =>
     expect(note).toMatchObject({ value: { text } });
   }));
 
+test("query get from table", () =>
+  Effect.gen(function* () {
+    const c = yield* TestConvexService;
+
+    const text = "Hello world!";
+
+    const noteId = yield* c.run(({ db }) => db.insert("notes", { text }));
+
+    const note = yield* c.query(api.functions.queryGetFromTable, {
+      noteId,
+    });
+
+    expect(note).toMatchObject({ _tag: "Some", value: { text } });
+  }));
+
+test("mutation get from table", () =>
+  Effect.gen(function* () {
+    const c = yield* TestConvexService;
+
+    const text = "Hello world!";
+
+    const noteId = yield* c.run(({ db }) => db.insert("notes", { text }));
+
+    const note = yield* c.mutation(api.functions.mutationGetFromTable, {
+      noteId,
+    });
+
+    expect(note).toMatchObject({ _tag: "Some", value: { text } });
+  }));
+
 test("insert", () =>
   Effect.gen(function* () {
     const c = yield* TestConvexService;
@@ -390,6 +421,73 @@ test("validation", () =>
     expect(Exit.isFailure(exit)).toBe(true);
   }));
 
+test("args validation", () =>
+  Effect.gen(function* () {
+    const c = yield* TestConvexService;
+
+    const tooLongText = String.repeat(101)("a");
+
+    const exit = yield* c
+      .mutation(api.functions.insertWithValidatedArgs, {
+        text: tooLongText,
+      })
+      .pipe(Effect.exit);
+
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit)) {
+      const error = Cause.squash(exit.cause);
+
+      expect(error).toBeInstanceOf(ConvexError);
+      expect(JSON.parse((error as ConvexError<string>).data)).toEqual({
+        _tag: "ArgsValidationError",
+        issues: [
+          {
+            _tag: "Refinement",
+            path: ["text"],
+            message: `Expected a string at most 100 character(s) long, actual "${tooLongText}"`,
+          },
+        ],
+      });
+    }
+  }));
+
+test("args validation reports every invalid field", () =>
+  Effect.gen(function* () {
+    const c = yield* TestConvexService;
+
+    const tooLongPrefix = String.repeat(11)("a");
+    const tooLongText = String.repeat(101)("a");
+
+    const exit = yield* c
+      .mutation(api.functions.insertWithPrefixedValidatedArgs, {
+        prefix: tooLongPrefix,
+        text: tooLongText,
+      })
+      .pipe(Effect.exit);
+
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit)) {
+      const error = Cause.squash(exit.cause);
+
+      expect(error).toBeInstanceOf(ConvexError);
+      expect(JSON.parse((error as ConvexError<string>).data)).toEqual({
+        _tag: "ArgsValidationError",
+        issues: [
+          {
+            _tag: "Refinement",
+            path: ["prefix"],
+            message: `Expected a string at most 10 character(s) long, actual "${tooLongPrefix}"`,
+          },
+          {
+            _tag: "Refinement",
+            path: ["text"],
+            message: `Expected a string at most 100 character(s) long, actual "${tooLongText}"`,
+          },
+        ],
+      });
+    }
+  }));
+
 describe("patch", () => {
   test("invalid patch", () =>
     Effect.gen(function* () {
@@ -476,6 +574,128 @@ describe("patch", () => {
       expect(patchedNote?.author).toEqual(undefined);
       expect(patchedNote?.tag).toEqual(tag);
     }));
+
+  test("only encodes the patched fields", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const tooLongText = String.repeat(101)("a");
+
+      const noteId = yield* c.run(({ db }) =>
+        db.insert("notes", { text: tooLongText }),
+      );
+
+      const author = { role: "admin", name: "Jane" } as const;
+
+      yield* c.mutation(api.functions.patch, {
+        noteId,
+        fields: { author },
+      });
+
+      const patchedNote = yield* c.run(({ db }) => db.get(noteId));
+
+      expect(patchedNote).toMatchObject({ text: tooLongText, author });
+    }));
+
+  test("field path", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const noteId = yield* c.run(({ db }) =>
+        db.insert("notes", {
+          text: "Hello, world!",
+          author: { role: "user", name: "Joe" },
+        }),
+      );
+
+      yield* c.mutation(api.functions.patchAuthorRole, {
+        noteId,
+        role: "admin",
+      });
+
+      const patchedNote = yield* c.run(({ db }) => db.get(noteId));
+
+      expect(patchedNote?.author).toEqual({ role: "admin", name: "Joe" });
+    }));
+
+  test("field path into a missing struct", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const noteId = yield* c.run(({ db }) =>
+        db.insert("notes", { text: "Hello, world!" }),
+      );
+
+      const exit = yield* c
+        .mutation(api.functions.patchAuthorRole, { noteId, role: "admin" })
+        .pipe(Effect.exit);
+
+      expect(Exit.isFailure(exit)).toBe(true);
+    }));
+
+  test("functional update", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const noteId = yield* c.run(({ db }) =>
+        db.insert("notes", { text: "Hello" }),
+      );
+
+      yield* c.mutation(api.functions.appendToText, {
+        noteId,
+        suffix: ", world!",
+      });
+
+      const patchedNote = yield* c.run(({ db }) => db.get(noteId));
+
+      expect(patchedNote?.text).toEqual("Hello, world!");
+    }));
+
+  test("functional update with cross-field refinement", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const intervalId = yield* c.run(({ db }) =>
+        db.insert("intervals", { start: 1, end: 3 }),
+      );
+
+      yield* c.mutation(api.functions.extendInterval, { intervalId, by: 2 });
+
+      const exit = yield* c
+        .mutation(api.functions.extendInterval, { intervalId, by: -5 })
+        .pipe(Effect.exit);
+
+      const interval = yield* c.run(({ db }) => db.get(intervalId));
+
+      expect(Exit.isFailure(exit)).toBe(true);
+      expect(interval).toMatchObject({ start: 1, end: 5 });
+    }));
+
+  test("cross-field refinement", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const intervalId = yield* c.run(({ db }) =>
+        db.insert("intervals", { start: 1, end: 3 }),
+      );
+
+      yield* c.mutation(api.functions.patchInterval, {
+        intervalId,
+        fields: { end: 2 },
+      });
+
+      const exit = yield* c
+        .mutation(api.functions.patchInterval, {
+          intervalId,
+          fields: { start: 4 },
+        })
+        .pipe(Effect.exit);
+
+      const interval = yield* c.run(({ db }) => db.get(intervalId));
+
+      expect(Exit.isFailure(exit)).toBe(true);
+      expect(interval).toMatchObject({ start: 1, end: 2 });
+    }));
 });
 
 test("replace", () =>
@@ -502,6 +722,52 @@ test("replace", () =>
     expect(replacedNote?.text).toEqual(updatedText);
   }));
 
+describe("replace", () => {
+  test("without system fields", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const noteId = yield* c.run(({ db }) =>
+        db.insert("notes", { text: "Hello, Earth!", tag: "greeting" }),
+      );
+
+      yield* c.mutation(api.functions.replace, {
+        noteId,
+        fields: { text: "Hello, Mars!", bigDecimal: "1.5" },
+      });
+
+      const replacedNote = yield* c.run(({ db }) => db.get(noteId));
+
+      expect(replacedNote).toMatchObject({
+        _id: noteId,
+        text: "Hello, Mars!",
+        bigDecimal: "1.5",
+      });
+      expect(replacedNote?.tag).toEqual(undefined);
+    }));
+
+  test("invalid replace", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const noteId = yield* c.run(({ db }) =>
+        db.insert("notes", { text: "Hello, world!" }),
+      );
+
+      const exit = yield* c
+        .mutation(api.functions.replace, {
+          noteId,
+          fields: { text: String.repeat(101)("a") },
+        })
+        .pipe(Effect.exit);
+
+      const note = yield* c.run(({ db }) => db.get(noteId));
+
+      expect(Exit.isFailure(exit)).toBe(true);
+      expect(note?.text).toEqual("Hello, world!");
+    }));
+});
+
 describe("delete", () => {
   test("doc exists", () =>
     Effect.gen(function* () {
@@ -540,93 +806,1745 @@ describe("delete", () => {
     }));
 });
 
-describe("authentication", () => {
-  test("when user is not authenticated", () =>
+describe("batch writes", () => {
+  test("insertMany", () =>
     Effect.gen(function* () {
       const c = yield* TestConvexService;
 
-      const isAuthenticated = yield* c.query(api.functions.isAuthenticated, {});
+      const result = yield* c.mutation(api.functions.insertManyNotes, {
+        texts: ["Hello", "world"],
+      });
 
-      expect(isAuthenticated).toEqual(false);
+      expect(result._tag).toEqual("Right");
+      if (result._tag === "Right") {
+        const notes = yield* c.run(({ db }) =>
+          Promise.all(result.right.map((noteId) => db.get(noteId))),
+        );
+
+        expect(notes.map((note) => note?.text)).toEqual(["Hello", "world"]);
+      }
     }));
 
-  test("when user is authenticated", () =>
+  test("insertMany with invalid values", () =>
     Effect.gen(function* () {
       const c = yield* TestConvexService;
 
-      const asUser = c.withIdentity({
-        name: "Joe",
+      const tooLongText = String.repeat(101)("a");
+
+      const result = yield* c.mutation(api.functions.insertManyNotes, {
+        texts: [tooLongText, "Hello", tooLongText],
       });
+      const notes = yield* c.run(({ db }) => db.query("notes").collect());
 
-      const isAuthenticated = yield* asUser.query(
-        api.functions.isAuthenticated,
-        {},
+      expect(result).toEqual({ _tag: "Left", left: [0, 2] });
+      expect(notes).toEqual([]);
+    }));
+
+  test("patchMany", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const noteIds = yield* c.run(({ db }) =>
+        Promise.all([
+          db.insert("notes", { text: "Hello" }),
+          db.insert("notes", { text: "Goodbye" }),
+        ]),
       );
 
-      expect(isAuthenticated).toEqual(true);
+      const result = yield* c.mutation(api.functions.patchManyNotes, {
+        noteIds,
+        suffix: ", world!",
+      });
+      const notes = yield* c.run(({ db }) =>
+        Promise.all(noteIds.map((noteId) => db.get(noteId))),
+      );
+
+      expect(result).toEqual({ _tag: "Right", right: null });
+      expect(notes.map((note) => note?.text)).toEqual([
+        "Hello, world!",
+        "Goodbye, world!",
+      ]);
     }));
-});
 
-describe("actions", () => {
-  test("action with auth and run methods", () =>
+  test("patchMany with invalid values", () =>
     Effect.gen(function* () {
       const c = yield* TestConvexService;
 
-      const exit = yield* c
-        .action(api.functions.actionWithAuthAndRunMethods)
-        .pipe(Effect.exit);
+      const noteIds = yield* c.run(({ db }) =>
+        Promise.all([
+          db.insert("notes", { text: "Hello" }),
+          db.insert("notes", { text: String.repeat(95)("a") }),
+        ]),
+      );
 
-      expect(Exit.isSuccess(exit)).toBe(true);
+      const result = yield* c.mutation(api.functions.patchManyNotes, {
+        noteIds,
+        suffix: ", world!",
+      });
+      const notes = yield* c.run(({ db }) =>
+        Promise.all(noteIds.map((noteId) => db.get(noteId))),
+      );
+
+      expect(result).toEqual({ _tag: "Left", left: [1] });
+      expect(notes[0]?.text).toEqual("Hello");
     }));
 
-  test("vector search", () =>
+  test("deleteMany", () =>
     Effect.gen(function* () {
       const c = yield* TestConvexService;
 
-      yield* c.run(({ db }) =>
+      const [firstNoteId, secondNoteId, thirdNoteId] = yield* c.run(({ db }) =>
         Promise.all([
-          db.insert("notes", {
-            tag: "Art",
-            text: "convex",
-            embedding: [1, 1, 1],
-          }),
-          db.insert("notes", {
-            tag: "Sports",
-            text: "next",
-            embedding: [0, 0, 0],
-          }),
-          db.insert("notes", {
-            tag: "Art",
-            text: "base",
-            embedding: [1, 1, 0],
-          }),
-          db.insert("notes", {
-            tag: "Sports",
-            text: "rad",
-            embedding: [1, 1, 0],
-          }),
+          db.insert("notes", { text: "1" }),
+          db.insert("notes", { text: "2" }),
+          db.insert("notes", { text: "3" }),
         ]),
       );
 
-      {
-        const notes = yield* c.action(api.functions.executeVectorSearch, {
-          vector: [1, 1, 1],
-          tag: null,
-          limit: 3,
-        });
+      yield* c.mutation(api.functions.deleteManyNotes, {
+        noteIds: [firstNoteId, thirdNoteId],
+      });
+      const notes = yield* c.run(({ db }) => db.query("notes").collect());
 
-        expect(notes).toMatchObject([
-          { tag: "Art", text: "convex" },
-          { tag: "Art", text: "base" },
-          { tag: "Sports", text: "rad" },
-        ]);
-      }
+      expect(notes.map(({ _id }) => _id)).toEqual([secondNoteId]);
+    }));
 
-      {
-        const notes = yield* c.action(api.functions.executeVectorSearch, {
-          vector: [1, 1, 1],
-          tag: "Art",
-          limit: 10,
+  test("deleteWhere", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      yield* c.run(({ db }) =>
+        Promise.all([
+          db.insert("notes", { text: "1", tag: "old" }),
+          db.insert("notes", { text: "2", tag: "new" }),
+          db.insert("notes", { text: "3", tag: "old" }),
+        ]),
+      );
+
+      const deleted = yield* c.mutation(api.functions.deleteNotesWithTag, {
+        tag: "old",
+      });
+      const notes = yield* c.run(({ db }) => db.query("notes").collect());
+
+      expect(deleted).toEqual(2);
+      expect(notes.map(({ text }) => text)).toEqual(["2"]);
+    }));
+});
+
+describe("upsert", () => {
+  test("inserts when no document has the index key", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const result = yield* c.mutation(api.functions.upsertNoteByText, {
+        text: "Hello",
+        tag: "greeting",
+      });
+      const notes = yield* c.run(({ db }) => db.query("notes").collect());
+
+      expect(result).toEqual({ id: notes[0]?._id, created: true });
+      expect(notes.map(({ text, tag }) => ({ text, tag }))).toEqual([
+        { text: "Hello", tag: "greeting" },
+      ]);
+    }));
+
+  test("patches the document with the index key", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const noteId = yield* c.run(({ db }) =>
+        db.insert("notes", { text: "Hello", tag: "greeting" }),
+      );
+
+      const result = yield* c.mutation(api.functions.upsertNoteByText, {
+        text: "Hello",
+        tag: "salutation",
+      });
+      const notes = yield* c.run(({ db }) => db.query("notes").collect());
+
+      expect(result).toEqual({ id: noteId, created: false });
+      expect(notes.map(({ _id, tag }) => ({ _id, tag }))).toEqual([
+        { _id: noteId, tag: "salutation" },
+      ]);
+    }));
+
+  test("fails when many documents have the index key", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      yield* c.run(({ db }) =>
+        Promise.all([
+          db.insert("notes", { text: "Hello" }),
+          db.insert("notes", { text: "Hello" }),
+        ]),
+      );
+
+      const result = yield* c.mutation(api.functions.upsertNoteByText, {
+        text: "Hello",
+        tag: "greeting",
+      });
+      const notes = yield* c.run(({ db }) => db.query("notes").collect());
+
+      expect(result).toEqual(new NotUniqueError()._tag);
+      expect(notes.map(({ tag }) => tag)).toEqual([undefined, undefined]);
+    }));
+});
+
+describe("unique constraints", () => {
+  test("insert fails when the value is taken", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const userId = yield* c.run(({ db }) =>
+        db.insert("users", { username: "alice" }),
+      );
+
+      const result = yield* c.mutation(api.functions.insertUser, {
+        username: "alice",
+      });
+      const users = yield* c.run(({ db }) => db.query("users").collect());
+
+      expect(result).toEqual({
+        constraintName: "by_username",
+        conflictingId: userId,
+      });
+      expect(users.length).toEqual(1);
+    }));
+
+  test("insert succeeds when the value is free", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      yield* c.run(({ db }) => db.insert("users", { username: "alice" }));
+
+      const userId = yield* c.mutation(api.functions.insertUser, {
+        username: "bob",
+      });
+      const user = yield* c.run(({ db }) => db.get(userId as Id<"users">));
+
+      expect(user?.username).toEqual("bob");
+    }));
+
+  test("patch fails when the value is taken by another document", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const [aliceId, bobId] = yield* c.run(({ db }) =>
+        Promise.all([
+          db.insert("users", { username: "alice" }),
+          db.insert("users", { username: "bob" }),
+        ]),
+      );
+
+      const result = yield* c.mutation(api.functions.renameUser, {
+        userId: bobId,
+        username: "alice",
+      });
+      const bob = yield* c.run(({ db }) => db.get(bobId));
+
+      expect(result).toEqual({
+        constraintName: "by_username",
+        conflictingId: aliceId,
+      });
+      expect(bob?.username).toEqual("bob");
+    }));
+
+  test("patch to the document's own value succeeds", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const userId = yield* c.run(({ db }) =>
+        db.insert("users", { username: "alice" }),
+      );
+
+      const result = yield* c.mutation(api.functions.renameUser, {
+        userId,
+        username: "alice",
+      });
+
+      expect(result).toEqual(null);
+    }));
+
+  test("replace fails when the value is taken by another document", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const [aliceId, bobId] = yield* c.run(({ db }) =>
+        Promise.all([
+          db.insert("users", { username: "alice" }),
+          db.insert("users", { username: "bob" }),
+        ]),
+      );
+
+      const result = yield* c.mutation(api.functions.replaceUser, {
+        userId: bobId,
+        username: "alice",
+      });
+
+      expect(result).toEqual({
+        constraintName: "by_username",
+        conflictingId: aliceId,
+      });
+    }));
+});
+
+describe("relationships", () => {
+  test("related", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const [userId, noteId, orphanNoteId] = yield* c.run(async ({ db }) => {
+        const userId = await db.insert("users", { username: "alice" });
+        return [
+          userId,
+          await db.insert("notes", { text: "Hello", userId }),
+          await db.insert("notes", { text: "Goodbye" }),
+        ] as const;
+      });
+
+      const author = yield* c.query(api.functions.noteAuthor, { noteId });
+      const orphanAuthor = yield* c.query(api.functions.noteAuthor, {
+        noteId: orphanNoteId,
+      });
+
+      expect(author).toEqual({
+        _tag: "Some",
+        value: expect.objectContaining({ _id: userId, username: "alice" }),
+      });
+      expect(orphanAuthor).toEqual({ _tag: "None" });
+    }));
+
+  test("getOneFrom", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const userId = yield* c.run(({ db }) =>
+        db.insert("users", { username: "alice" }),
+      );
+
+      const alice = yield* c.query(api.functions.userByUsername, {
+        username: "alice",
+      });
+      const bob = yield* c.query(api.functions.userByUsername, {
+        username: "bob",
+      });
+
+      expect(alice).toEqual({
+        _tag: "Some",
+        value: expect.objectContaining({ _id: userId }),
+      });
+      expect(bob).toEqual({ _tag: "None" });
+    }));
+
+  test("getManyFrom", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const userId = yield* c.run(async ({ db }) => {
+        const userId = await db.insert("users", { username: "alice" });
+        await db.insert("notes", { text: "1", userId });
+        await db.insert("notes", { text: "2" });
+        await db.insert("notes", { text: "3", userId });
+        return userId;
+      });
+
+      const notes = yield* c.query(api.functions.notesByUser, { userId });
+
+      expect(notes.map(({ text }) => text)).toEqual(["1", "3"]);
+    }));
+
+  test("getManyVia", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const noteId = yield* c.run(async ({ db }) => {
+        const noteId = await db.insert("notes", { text: "Hello" });
+        const aliceId = await db.insert("users", { username: "alice" });
+        const bobId = await db.insert("users", { username: "bob" });
+        const carolId = await db.insert("users", { username: "carol" });
+        await db.insert("noteReaders", { noteId, userId: aliceId });
+        await db.insert("noteReaders", { noteId, userId: carolId });
+        await db.insert("noteReaders", { noteId, userId: bobId });
+        await db.delete(bobId);
+        return noteId;
+      });
+
+      const readers = yield* c.query(api.functions.noteReaders, { noteId });
+
+      expect(readers.map(({ username }) => username)).toEqual([
+        "alice",
+        "carol",
+      ]);
+    }));
+});
+
+describe("referential actions", () => {
+  test("cascade deletes referring documents", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const noteId = yield* c.run(async ({ db }) => {
+        const noteId = await db.insert("notes", { text: "Hello" });
+        const otherNoteId = await db.insert("notes", { text: "Goodbye" });
+        const userId = await db.insert("users", { username: "alice" });
+        await db.insert("noteReaders", { noteId, userId });
+        await db.insert("noteReaders", { noteId: otherNoteId, userId });
+        return noteId;
+      });
+
+      yield* c.mutation(api.functions.deleteNote, { noteId });
+      const noteReaders = yield* c.run(({ db }) =>
+        db.query("noteReaders").collect(),
+      );
+
+      expect(noteReaders.map((noteReader) => noteReader.noteId)).not.toContain(
+        noteId,
+      );
+      expect(noteReaders.length).toEqual(1);
+    }));
+
+  test("restrict fails the delete", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const [userId, noteReaderId] = yield* c.run(async ({ db }) => {
+        const noteId = await db.insert("notes", { text: "Hello" });
+        const userId = await db.insert("users", { username: "alice" });
+        return [
+          userId,
+          await db.insert("noteReaders", { noteId, userId }),
+        ] as const;
+      });
+
+      const result = yield* c.mutation(api.functions.deleteUser, { userId });
+      const user = yield* c.run(({ db }) => db.get(userId));
+
+      expect(result).toEqual({
+        referringTableName: "noteReaders",
+        referringId: noteReaderId,
+        fieldName: "userId",
+      });
+      expect(user).not.toBeNull();
+    }));
+
+  test("restrict further down the cascade fails the delete before any writes", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const [noteId, noteReaderId, readReceiptId] = yield* c.run(
+        async ({ db }) => {
+          const noteId = await db.insert("notes", { text: "Hello" });
+          const userId = await db.insert("users", { username: "alice" });
+          const noteReaderId = await db.insert("noteReaders", {
+            noteId,
+            userId,
+          });
+          return [
+            noteId,
+            noteReaderId,
+            await db.insert("readReceipts", { noteReaderId }),
+          ] as const;
+        },
+      );
+
+      const result = yield* c.mutation(api.functions.tryDeleteNote, {
+        noteId,
+      });
+      const [note, noteReader] = yield* c.run(({ db }) =>
+        Promise.all([db.get(noteId), db.get(noteReaderId)]),
+      );
+
+      expect(result).toEqual({
+        referringTableName: "readReceipts",
+        referringId: readReceiptId,
+        fieldName: "noteReaderId",
+      });
+      expect(note).not.toBeNull();
+      expect(noteReader).not.toBeNull();
+    }));
+
+  test("the rules of every document a delete reaches are checked before any writes", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const [noteId, noteReaderId, userId, authorId, authoredNoteId] =
+        yield* c.run(async ({ db }) => {
+          const noteId = await db.insert("notes", { text: "Hello" });
+          const userId = await db.insert("users", { username: "alice" });
+          const authorId = await db.insert("users", { username: "bob" });
+          return [
+            noteId,
+            await db.insert("noteReaders", { noteId, userId }),
+            userId,
+            authorId,
+            await db.insert("notes", { text: "Hi", userId: authorId }),
+          ] as const;
+        });
+
+      const cascaded = yield* c.mutation(
+        api.functions.deleteWithLockedReferrers,
+        { id: noteId },
+      );
+      const unset = yield* c.mutation(api.functions.deleteWithLockedReferrers, {
+        id: authorId,
+      });
+      const [note, noteReader, user, author, authoredNote] = yield* c.run(
+        ({ db }) =>
+          Promise.all([
+            db.get(noteId),
+            db.get(noteReaderId),
+            db.get(userId),
+            db.get(authorId),
+            db.get(authoredNoteId),
+          ]),
+      );
+
+      expect(cascaded).toMatchObject({ _tag: "Left", left: "AccessDenied" });
+      expect(unset).toMatchObject({ _tag: "Left", left: "AccessDenied" });
+      expect(note).not.toBeNull();
+      expect(noteReader).not.toBeNull();
+      expect(user).not.toBeNull();
+      expect(author).not.toBeNull();
+      expect(authoredNote?.userId).toEqual(authorId);
+    }));
+
+  test("unset removes referring fields", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const [userId, noteId] = yield* c.run(async ({ db }) => {
+        const userId = await db.insert("users", { username: "alice" });
+        return [
+          userId,
+          await db.insert("notes", { text: "Hello", userId }),
+        ] as const;
+      });
+
+      const result = yield* c.mutation(api.functions.deleteUser, { userId });
+      const [user, note] = yield* c.run(({ db }) =>
+        Promise.all([db.get(userId), db.get(noteId)]),
+      );
+
+      expect(result).toEqual(null);
+      expect(user).toBeNull();
+      expect(note).not.toHaveProperty("userId");
+    }));
+});
+
+describe("triggers", () => {
+  const openTaskCounts = (
+    c: TestConvexService,
+    projectIds: ReadonlyArray<Id<"projects">>,
+  ) =>
+    c.run(({ db }) =>
+      Promise.all(
+        projectIds.map((projectId) =>
+          db.get(projectId).then((project) => project?.openTaskCount),
+        ),
+      ),
+    );
+
+  test("run after insert, patch, replace and delete", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const [projectId, otherProjectId] = yield* c.run(({ db }) =>
+        Promise.all([
+          db.insert("projects", { name: "Home", openTaskCount: 0 }),
+          db.insert("projects", { name: "Work", openTaskCount: 0 }),
+        ]),
+      );
+
+      const taskId = yield* c.mutation(api.functions.insertTask, {
+        projectId,
+        title: "Paint the fence",
+      });
+      yield* c.mutation(api.functions.insertTask, {
+        projectId,
+        title: "Mow the lawn",
+      });
+      expect(
+        yield* openTaskCounts(c, [projectId, otherProjectId]),
+      ).toStrictEqual([2, 0]);
+
+      yield* c.mutation(api.functions.setTaskDone, { taskId, done: true });
+      expect(
+        yield* openTaskCounts(c, [projectId, otherProjectId]),
+      ).toStrictEqual([1, 0]);
+
+      yield* c.mutation(api.functions.setTaskDone, { taskId, done: false });
+      yield* c.mutation(api.functions.moveTask, {
+        taskId,
+        projectId: otherProjectId,
+      });
+      expect(
+        yield* openTaskCounts(c, [projectId, otherProjectId]),
+      ).toStrictEqual([1, 1]);
+
+      yield* c.mutation(api.functions.deleteTask, { taskId });
+      expect(
+        yield* openTaskCounts(c, [projectId, otherProjectId]),
+      ).toStrictEqual([1, 0]);
+    }));
+
+  test("a trigger which dies fails the write", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const projectId = yield* c.run(async ({ db }) => {
+        const projectId = await db.insert("projects", {
+          name: "Home",
+          openTaskCount: 0,
+        });
+        await db.delete(projectId);
+        return projectId;
+      });
+
+      const exit = yield* c
+        .mutation(api.functions.insertTask, {
+          projectId,
+          title: "Paint the fence",
+        })
+        .pipe(Effect.exit);
+      const tasks = yield* c.run(({ db }) => db.query("tasks").collect());
+
+      expect(Exit.isFailure(exit)).toBe(true);
+      expect(tasks).toStrictEqual([]);
+    }));
+});
+
+describe("history", () => {
+  test("records every write to a table with history", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+      const asUser = c.withIdentity({ subject: "alice" });
+
+      const noteId = yield* asUser.mutation(api.functions.insert, {
+        text: "Hello",
+      });
+      yield* c.mutation(api.functions.patch, {
+        noteId,
+        fields: { text: "Goodbye" },
+      });
+      yield* c.mutation(api.functions.deleteNote, { noteId });
+
+      const history = yield* c.query(api.functions.noteHistory, { noteId });
+
+      expect(
+        history.map(({ operation, before, after, subject }) => ({
+          operation,
+          before: before?.text,
+          after: after?.text,
+          subject,
+        })),
+      ).toStrictEqual([
+        {
+          operation: "insert",
+          before: undefined,
+          after: "Hello",
+          subject: "alice",
+        },
+        {
+          operation: "patch",
+          before: "Hello",
+          after: "Goodbye",
+          subject: undefined,
+        },
+        {
+          operation: "delete",
+          before: "Goodbye",
+          after: undefined,
+          subject: undefined,
+        },
+      ]);
+      expect(history.map(({ documentId }) => documentId)).toStrictEqual([
+        noteId,
+        noteId,
+        noteId,
+      ]);
+      expect(history[2]?.before).toStrictEqual({ text: "Goodbye" });
+    }));
+
+  test("is empty for a table without history", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const noteId = yield* c.run(({ db }) =>
+        db.insert("notes", { text: "Hello" }),
+      );
+      yield* c.mutation(api.functions.insertComment, { noteId, text: "Nice" });
+      const historyEntries = yield* c.run(({ db }) =>
+        db.query("confectHistory").collect(),
+      );
+
+      expect(historyEntries).toStrictEqual([]);
+    }));
+
+  test("restores a prior version", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const noteId = yield* c.mutation(api.functions.insert, { text: "Hello" });
+      yield* c.mutation(api.functions.patch, {
+        noteId,
+        fields: { text: "Goodbye" },
+      });
+      const [inserted] = yield* c.query(api.functions.noteHistory, { noteId });
+
+      const restoredId = yield* c.mutation(api.functions.restoreVersion, {
+        historyEntryId: inserted?._id as Id<"confectHistory">,
+      });
+      const note = yield* c.run(({ db }) => db.get(noteId));
+      const history = yield* c.query(api.functions.noteHistory, { noteId });
+
+      expect(restoredId).toEqual(noteId);
+      expect(note?.text).toEqual("Hello");
+      expect(history.map(({ operation }) => operation)).toStrictEqual([
+        "insert",
+        "patch",
+        "replace",
+      ]);
+    }));
+
+  test("restores a deleted document as a new document", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const noteId = yield* c.mutation(api.functions.insert, { text: "Hello" });
+      yield* c.mutation(api.functions.deleteNote, { noteId });
+      const [, deleted] = yield* c.query(api.functions.noteHistory, {
+        noteId,
+      });
+
+      const restoredId = yield* c.mutation(api.functions.restoreVersion, {
+        historyEntryId: deleted?._id as Id<"confectHistory">,
+      });
+      const note = yield* c.run(({ db }) => db.get(restoredId as Id<"notes">));
+
+      expect(restoredId).not.toEqual(noteId);
+      expect(note?.text).toEqual("Hello");
+    }));
+});
+
+describe("soft delete", () => {
+  test("marks a document as deleted instead of removing it", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const noteId = yield* c.run(({ db }) =>
+        db.insert("notes", { text: "Hello" }),
+      );
+      const commentId = yield* c.mutation(api.functions.insertComment, {
+        noteId,
+        text: "Nice",
+      });
+      yield* c.mutation(api.functions.deleteComment, { commentId });
+
+      const comment = yield* c.query(api.functions.getComment, { commentId });
+      const comments = yield* c.query(api.functions.listComments, {
+        noteId,
+        includeDeleted: false,
+      });
+      const allComments = yield* c.query(api.functions.listComments, {
+        noteId,
+        includeDeleted: true,
+      });
+      const storedComment = yield* c.run(({ db }) => db.get(commentId));
+
+      expect(comment).toMatchObject({ _tag: "None" });
+      expect(comments).toStrictEqual([]);
+      expect(allComments.map(({ _id }) => _id)).toStrictEqual([commentId]);
+      expect(storedComment?.deletedAt).toBeTypeOf("number");
+    }));
+
+  test("restores a deleted document", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const noteId = yield* c.run(({ db }) =>
+        db.insert("notes", { text: "Hello" }),
+      );
+      const commentId = yield* c.mutation(api.functions.insertComment, {
+        noteId,
+        text: "Nice",
+      });
+      yield* c.mutation(api.functions.deleteComment, { commentId });
+      yield* c.mutation(api.functions.restoreComment, { commentId });
+
+      const comment = yield* c.query(api.functions.getComment, { commentId });
+
+      expect(comment).toMatchObject({ _tag: "Some", value: { text: "Nice" } });
+      expect(comment).not.toHaveProperty("value.deletedAt");
+    }));
+
+  test("purges a document", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const noteId = yield* c.run(({ db }) =>
+        db.insert("notes", { text: "Hello" }),
+      );
+      const commentId = yield* c.mutation(api.functions.insertComment, {
+        noteId,
+        text: "Nice",
+      });
+      yield* c.mutation(api.functions.purgeComment, { commentId });
+
+      const storedComment = yield* c.run(({ db }) => db.get(commentId));
+
+      expect(storedComment).toBeNull();
+    }));
+
+  test("deleted documents give up their unique keys until they are restored", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const { id: labelId } = yield* c.mutation(api.functions.upsertLabel, {
+        name: "urgent",
+        color: "red",
+      });
+      yield* c.mutation(api.functions.deleteLabel, { labelId });
+
+      const upserted = yield* c.mutation(api.functions.upsertLabel, {
+        name: "urgent",
+        color: "orange",
+      });
+      const restored = yield* c.mutation(api.functions.restoreLabel, {
+        labelId,
+      });
+
+      expect(upserted).toMatchObject({ created: true });
+      expect(upserted.id).not.toEqual(labelId);
+      expect(restored).toEqual({
+        constraintName: "by_name",
+        conflictingId: upserted.id,
+      });
+    }));
+
+  test("restore dies for tables which don't soft-delete", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const noteId = yield* c.run(({ db }) =>
+        db.insert("notes", { text: "Hello" }),
+      );
+
+      const exit = yield* c
+        .mutation(api.functions.restoreNote, { noteId })
+        .pipe(Effect.exit);
+
+      expect(Exit.isFailure(exit)).toBe(true);
+    }));
+});
+
+describe("tenants", () => {
+  test("insert fills in the tenant field and queries read only the tenant's documents", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const invoiceId = yield* c.mutation(api.functions.insertInvoice, {
+        orgId: "acme",
+        number: 1,
+      });
+      yield* c.mutation(api.functions.insertInvoice, {
+        orgId: "acme",
+        number: 2,
+      });
+      yield* c.mutation(api.functions.insertInvoice, {
+        orgId: "globex",
+        number: 1,
+      });
+
+      const invoices = yield* c.query(api.functions.listInvoices, {
+        orgId: "acme",
+      });
+      const firstInvoices = yield* c.query(api.functions.listInvoices, {
+        orgId: "globex",
+        number: 1,
+      });
+      const storedInvoice = yield* c.run(({ db }) => db.get(invoiceId));
+
+      expect(invoices.map(({ number }) => number)).toStrictEqual([1, 2]);
+      expect(firstInvoices).toMatchObject([{ orgId: "globex", number: 1 }]);
+      expect(firstInvoices).toHaveLength(1);
+      expect(storedInvoice?.orgId).toEqual("acme");
+    }));
+
+  test("queries go through an index which starts with the tenant field", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      yield* c.mutation(api.functions.insertInvoice, {
+        orgId: "acme",
+        number: 1,
+      });
+      yield* c.mutation(api.functions.insertInvoice, {
+        orgId: "globex",
+        number: 1,
+      });
+
+      const count = yield* c.query(api.functions.countInvoicesInTenantIndex, {
+        orgId: "acme",
+      });
+      const invoices = yield* c.query(api.functions.listInvoicesByNumber, {
+        orgId: "acme",
+        number: 1,
+      });
+
+      expect(count).toEqual(1);
+      expect(invoices).toEqual({
+        _tag: "Left",
+        left: "TenantIndexRequiredError",
+      });
+    }));
+
+  test("unique keys only conflict within a tenant", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const acmeInvoiceId = yield* c.mutation(api.functions.tryInsertInvoice, {
+        orgId: "acme",
+        number: 1,
+      });
+      const globexInvoiceId = yield* c.mutation(
+        api.functions.tryInsertInvoice,
+        { orgId: "globex", number: 1 },
+      );
+      const conflict = yield* c.mutation(api.functions.tryInsertInvoice, {
+        orgId: "acme",
+        number: 1,
+      });
+
+      expect(globexInvoiceId).not.toEqual(acmeInvoiceId);
+      expect(globexInvoiceId).not.toHaveProperty("constraintName");
+      expect(conflict).toStrictEqual({
+        constraintName: "by_number",
+        conflictingId: acmeInvoiceId,
+      });
+    }));
+
+  test("fail reads and writes of another tenant's document with TenantMismatch", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const invoiceId = yield* c.mutation(api.functions.insertInvoice, {
+        orgId: "acme",
+        number: 1,
+      });
+
+      const invoice = yield* c.query(api.functions.getInvoice, {
+        orgId: "globex",
+        invoiceId,
+      });
+      const deleted = yield* c.mutation(api.functions.deleteInvoice, {
+        orgId: "globex",
+        invoiceId,
+      });
+      const storedInvoice = yield* c.run(({ db }) => db.get(invoiceId));
+
+      expect(invoice).toMatchObject({ _tag: "Left", left: "TenantMismatch" });
+      expect(deleted).toMatchObject({ _tag: "Left", left: "TenantMismatch" });
+      expect(storedInvoice).not.toBeNull();
+    }));
+});
+
+describe("rules", () => {
+  test("leave out documents which can't be read", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+      const asAlice = c.withIdentity({ subject: "alice" });
+
+      const bobId = yield* c.run(async ({ db }) => {
+        await db.insert("users", { username: "alice" });
+        return await db.insert("users", { username: "bob" });
+      });
+
+      const usernames = yield* asAlice.query(
+        api.functions.listUsernamesWithRules,
+        {},
+      );
+      const bob = yield* asAlice.query(api.functions.getUsernameWithRules, {
+        userId: bobId,
+      });
+
+      expect(usernames).toStrictEqual(["alice"]);
+      expect(bob).toMatchObject({ _tag: "None" });
+    }));
+
+  test("leave out history which can't be read", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const bobId = yield* c.mutation(api.functions.insertUser, {
+        username: "bob",
+      });
+
+      const historySeenByAlice = yield* c
+        .withIdentity({ subject: "alice" })
+        .query(api.functions.userHistoryWithRules, {
+          userId: bobId as Id<"users">,
+        });
+      const historySeenByBob = yield* c
+        .withIdentity({ subject: "bob" })
+        .query(api.functions.userHistoryWithRules, {
+          userId: bobId as Id<"users">,
+        });
+
+      expect(historySeenByAlice).toStrictEqual([]);
+      expect(historySeenByBob).toStrictEqual(["insert"]);
+    }));
+
+  test("fail writes which aren't allowed with AccessDenied", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+      const asAlice = c.withIdentity({ subject: "alice" });
+
+      const bobId = yield* c.run(({ db }) =>
+        db.insert("users", { username: "bob" }),
+      );
+
+      const insertedBob = yield* asAlice.mutation(
+        api.functions.insertUserWithRules,
+        { username: "bob" },
+      );
+      const insertedAlice = yield* asAlice.mutation(
+        api.functions.insertUserWithRules,
+        { username: "alice" },
+      );
+      const renamedBob = yield* asAlice.mutation(
+        api.functions.renameUserWithRules,
+        { userId: bobId, username: "alice" },
+      );
+      const bob = yield* c.run(({ db }) => db.get(bobId));
+
+      expect(insertedBob).toMatchObject({ _tag: "Left", left: "AccessDenied" });
+      expect(insertedAlice).toMatchObject({ _tag: "Right" });
+      expect(renamedBob).toMatchObject({ _tag: "Left", left: "AccessDenied" });
+      expect(bob?.username).toEqual("bob");
+    }));
+
+  test("fail writes which would leave a document the rules refuse", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+      const asAlice = c.withIdentity({ subject: "alice" });
+
+      const aliceId = yield* c.run(({ db }) =>
+        db.insert("users", { username: "alice" }),
+      );
+
+      const renamedAlice = yield* asAlice.mutation(
+        api.functions.renameUserWithRules,
+        { userId: aliceId, username: "bob" },
+      );
+      const alice = yield* c.run(({ db }) => db.get(aliceId));
+
+      expect(renamedAlice).toMatchObject({
+        _tag: "Left",
+        left: "AccessDenied",
+      });
+      expect(alice?.username).toEqual("alice");
+    }));
+
+  test("withRules checks a database against rules", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      yield* c.run(async ({ db }) => {
+        await db.insert("users", { username: "alice" });
+        await db.insert("users", { username: "bob" });
+      });
+
+      const usernames = yield* c
+        .withIdentity({ subject: "bob" })
+        .query(api.functions.listReadableUsernames, {});
+
+      expect(usernames).toStrictEqual(["bob"]);
+    }));
+});
+
+describe("referential integrity check", () => {
+  test("reports dangling references in nested structs, arrays and unions", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const { notebookId, deletedNoteId, deletedUserId } = yield* c.run(
+        async ({ db }) => {
+          const aliceId = await db.insert("users", { username: "alice" });
+          const deletedUserId = await db.insert("users", { username: "bob" });
+          const noteId = await db.insert("notes", { text: "Hello" });
+          const deletedNoteId = await db.insert("notes", { text: "Goodbye" });
+          const notebookId = await db.insert("notebooks", {
+            ownerId: aliceId,
+            sections: [
+              { noteIds: [noteId] },
+              { noteIds: [noteId, deletedNoteId] },
+            ],
+            pinned: { kind: "user", id: deletedUserId },
+          });
+          await db.insert("notebooks", {
+            ownerId: aliceId,
+            sections: [],
+            pinned: { kind: "note", id: noteId },
+          });
+          await db.insert("notebooks", { ownerId: aliceId, sections: [] });
+          await db.delete(deletedNoteId);
+          await db.delete(deletedUserId);
+          return { notebookId, deletedNoteId, deletedUserId };
+        },
+      );
+
+      const reports = yield* c.action(
+        internal.functions.checkReferentialIntegrity,
+        { tableNames: ["notebooks", "users"] },
+      );
+
+      expect(reports).toEqual([
+        {
+          tableName: "notebooks",
+          documentsChecked: 3,
+          danglingReferences: [
+            {
+              id: notebookId,
+              fieldPath: "sections[1].noteIds[1]",
+              referencedId: deletedNoteId,
+              referencedTableNames: ["notes"],
+            },
+            {
+              id: notebookId,
+              fieldPath: "pinned.id",
+              referencedId: deletedUserId,
+              referencedTableNames: ["users"],
+            },
+          ],
+        },
+        { tableName: "users", documentsChecked: 1, danglingReferences: [] },
+      ]);
+    }));
+
+  test("counts soft-deleted documents as present", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const { noteLabelId, deletedLabelId } = yield* c.run(async ({ db }) => {
+        const noteId = await db.insert("notes", { text: "Hello" });
+        const softDeletedLabelId = await db.insert("labels", {
+          name: "urgent",
+          color: "red",
+          deletedAt: 1,
+        });
+        const deletedLabelId = await db.insert("labels", {
+          name: "later",
+          color: "blue",
+        });
+        await db.insert("noteLabels", { noteId, labelId: softDeletedLabelId });
+        const noteLabelId = await db.insert("noteLabels", {
+          noteId,
+          labelId: deletedLabelId,
+        });
+        await db.delete(deletedLabelId);
+        return { noteLabelId, deletedLabelId };
+      });
+
+      const reports = yield* c.action(
+        internal.functions.checkReferentialIntegrity,
+        { tableNames: ["noteLabels"] },
+      );
+
+      expect(reports).toEqual([
+        {
+          tableName: "noteLabels",
+          documentsChecked: 2,
+          danglingReferences: [
+            {
+              id: noteLabelId,
+              fieldPath: "labelId",
+              referencedId: deletedLabelId,
+              referencedTableNames: ["labels"],
+            },
+          ],
+        },
+      ]);
+    }));
+
+  test("checks documents which fail to decode", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const { tooLongNoteId, deletedUserId } = yield* c.run(async ({ db }) => {
+        const deletedUserId = await db.insert("users", { username: "bob" });
+        const tooLongNoteId = await db.insert("notes", {
+          text: "a".repeat(101),
+          userId: deletedUserId,
+        });
+        await db.delete(deletedUserId);
+        return { tooLongNoteId, deletedUserId };
+      });
+
+      const reports = yield* c.action(
+        internal.functions.checkReferentialIntegrity,
+        { tableNames: ["notes"] },
+      );
+
+      expect(reports).toEqual([
+        {
+          tableName: "notes",
+          documentsChecked: 1,
+          danglingReferences: [
+            {
+              id: tooLongNoteId,
+              fieldPath: "userId",
+              referencedId: deletedUserId,
+              referencedTableNames: ["users"],
+            },
+          ],
+        },
+      ]);
+    }));
+});
+
+describe("schema validation", () => {
+  test("reports the documents which fail to decode with their table schema", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const { tooLongNoteId, reversedIntervalId } = yield* c.run(
+        async ({ db }) => {
+          await db.insert("notes", { text: "Hello" });
+          const tooLongNoteId = await db.insert("notes", {
+            text: String.repeat(101)("a"),
+          });
+          await db.insert("notes", { text: "Goodbye" });
+          await db.insert("intervals", { start: 1, end: 3 });
+          const reversedIntervalId = await db.insert("intervals", {
+            start: 3,
+            end: 1,
+          });
+          return { tooLongNoteId, reversedIntervalId };
+        },
+      );
+
+      const reports = yield* c.action(internal.functions.validateSchema, {
+        tableNames: ["notes", "intervals", "users"],
+      });
+
+      expect(
+        reports.map(({ tableName, documentsChecked, invalidDocuments }) => ({
+          tableName,
+          documentsChecked,
+          invalidIds: invalidDocuments.map(({ id }) => id),
+        })),
+      ).toStrictEqual([
+        {
+          tableName: "notes",
+          documentsChecked: 3,
+          invalidIds: [tooLongNoteId],
+        },
+        {
+          tableName: "intervals",
+          documentsChecked: 2,
+          invalidIds: [reversedIntervalId],
+        },
+        { tableName: "users", documentsChecked: 0, invalidIds: [] },
+      ]);
+      expect(reports[0]?.invalidDocuments[0]?.error).toContain(
+        "Expected a string at most 100 character(s) long",
+      );
+    }));
+
+  test("fails for tables which aren't in the schema", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const exit = yield* c
+        .action(internal.functions.validateSchema, {
+          // @ts-expect-error: Not a table of the schema
+          tableNames: ["notes", "drafts"],
+        })
+        .pipe(Effect.exit);
+
+      expect(Exit.isFailure(exit)).toBe(true);
+      if (Exit.isFailure(exit)) {
+        const error = Cause.squash(exit.cause);
+
+        expect(error).toBeInstanceOf(ConvexError);
+        expect(JSON.parse((error as ConvexError<string>).data)).toMatchObject({
+          _tag: "ArgsValidationError",
+          issues: expect.arrayContaining([
+            {
+              _tag: "Type",
+              path: ["tableNames", 1],
+              message: 'Expected "notes", actual "drafts"',
+            },
+          ]),
+        });
+      }
+    }));
+});
+
+describe("table versions", () => {
+  test("upcasts documents of old versions as they are read", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      yield* c.run(async ({ db }) => {
+        // @ts-expect-error: Documents of old versions are only written by older code
+        await db.insert("contacts", { fullName: "Ada Lovelace" });
+        // @ts-expect-error: Documents of old versions are only written by older code
+        await db.insert("contacts", {
+          firstName: "Alan",
+          lastName: "Turing",
+        });
+        await db.insert("contacts", {
+          firstName: "Grace",
+          lastName: "Hopper",
+          displayName: "Amazing Grace",
+        });
+      });
+
+      const contacts = yield* c.query(api.functions.listContacts, {});
+
+      expect(
+        contacts.map(({ firstName, lastName, displayName }) => ({
+          firstName,
+          lastName,
+          displayName,
+        })),
+      ).toStrictEqual([
+        { firstName: "Ada", lastName: "Lovelace", displayName: "Ada Lovelace" },
+        { firstName: "Alan", lastName: "Turing", displayName: "Alan Turing" },
+        {
+          firstName: "Grace",
+          lastName: "Hopper",
+          displayName: "Amazing Grace",
+        },
+      ]);
+      expect(
+        yield* c.query(api.functions.countOldContactVersions, {}),
+      ).toStrictEqual([1, 1]);
+    }));
+
+  test("writes the latest version", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const contactId = yield* c.run(({ db }) =>
+        // @ts-expect-error: Documents of old versions are only written by older code
+        db.insert("contacts", { fullName: "Ada Lovelace" }),
+      );
+
+      yield* c.mutation(api.functions.renameContact, {
+        contactId,
+        displayName: "Countess of Lovelace",
+      });
+
+      const contact = yield* c.run(({ db }) => db.get(contactId));
+
+      expect(contact).toMatchObject({
+        firstName: "Ada",
+        lastName: "Lovelace",
+        displayName: "Countess of Lovelace",
+      });
+      expect(
+        yield* c.query(api.functions.countOldContactVersions, {}),
+      ).toStrictEqual([0, 0]);
+    }));
+});
+
+describe("migrations", () => {
+  const insertIntervals = (c: TestConvexService) =>
+    c.run(async ({ db }) => {
+      await db.insert("intervals", { start: 1, end: 3 });
+      await db.insert("intervals", { start: 2, end: 4 });
+      await db.insert("intervals", { start: 5, end: 5 });
+    });
+
+  const intervals = (c: TestConvexService) =>
+    c.run(async ({ db }) =>
+      (await db.query("intervals").collect()).map(({ start, end }) => ({
+        start,
+        end,
+      })),
+    );
+
+  test("run applies each migration of a table in batches, in order", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+      yield* Effect.sync(() => vi.useFakeTimers());
+
+      yield* insertIntervals(c);
+
+      expect(
+        yield* c.query(internal.functions.migrationStatus, {}),
+      ).toStrictEqual([
+        {
+          tableName: "intervals",
+          version: 1,
+          status: "pending",
+          documentsMigrated: 0,
+        },
+        {
+          tableName: "intervals",
+          version: 2,
+          status: "pending",
+          documentsMigrated: 0,
+        },
+      ]);
+
+      yield* c.mutation(internal.functions.runMigrations, {});
+      yield* c.finishAllScheduledFunctions(vi.runAllTimers);
+
+      expect(yield* intervals(c)).toStrictEqual([
+        { start: 22, end: 26 },
+        { start: 24, end: 28 },
+        { start: 30, end: 30 },
+      ]);
+      expect(
+        yield* c.query(internal.functions.migrationStatus, {}),
+      ).toStrictEqual([
+        {
+          tableName: "intervals",
+          version: 1,
+          status: "applied",
+          documentsMigrated: 3,
+        },
+        {
+          tableName: "intervals",
+          version: 2,
+          status: "applied",
+          documentsMigrated: 3,
+        },
+      ]);
+    }));
+
+  test("rollback undoes the latest applied migration", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+      yield* Effect.sync(() => vi.useFakeTimers());
+
+      yield* insertIntervals(c);
+      yield* c.mutation(internal.functions.runMigrations, {});
+      yield* c.finishAllScheduledFunctions(vi.runAllTimers);
+
+      const exit = yield* c
+        .mutation(internal.functions.rollbackMigration, {
+          tableName: "intervals",
+          version: 1,
+        })
+        .pipe(Effect.exit);
+
+      expect(Exit.isFailure(exit)).toBe(true);
+
+      yield* c.mutation(internal.functions.rollbackMigration, {
+        tableName: "intervals",
+        version: 2,
+      });
+      yield* c.finishAllScheduledFunctions(vi.runAllTimers);
+
+      expect(yield* intervals(c)).toStrictEqual([
+        { start: 11, end: 13 },
+        { start: 12, end: 14 },
+        { start: 15, end: 15 },
+      ]);
+      expect(
+        (yield* c.query(internal.functions.migrationStatus, {})).map(
+          ({ status }) => status,
+        ),
+      ).toStrictEqual(["applied", "rolledBack"]);
+
+      yield* c.mutation(internal.functions.runMigrations, {
+        tableNames: ["intervals"],
+      });
+      yield* c.finishAllScheduledFunctions(vi.runAllTimers);
+
+      expect(yield* intervals(c)).toStrictEqual([
+        { start: 22, end: 26 },
+        { start: 24, end: 28 },
+        { start: 30, end: 30 },
+      ]);
+    }));
+
+  test("fields which a migration leaves out are kept", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+      yield* Effect.sync(() => vi.useFakeTimers());
+
+      const intervalId = yield* c.run(({ db }) =>
+        db.insert("intervals", { start: 1, end: 3, label: "first" }),
+      );
+
+      const [preview] = yield* c.query(internal.functions.dryRunMigration, {
+        tableName: "intervals",
+        version: 1,
+      });
+      yield* c.mutation(internal.functions.runMigrations, {});
+      yield* c.finishAllScheduledFunctions(vi.runAllTimers);
+
+      expect(preview?.after).toMatchObject({
+        start: 11,
+        end: 13,
+        label: "first",
+      });
+      expect(yield* c.run(({ db }) => db.get(intervalId))).toMatchObject({
+        start: 22,
+        end: 26,
+        label: "first",
+      });
+    }));
+
+  test("dryRun previews a migration without writing", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      yield* insertIntervals(c);
+
+      const previews = yield* c.query(internal.functions.dryRunMigration, {
+        tableName: "intervals",
+        version: 1,
+        numItems: 2,
+      });
+
+      expect(
+        previews.map(({ before, after }) => [
+          { start: before.start, end: before.end },
+          { start: after.start, end: after.end },
+        ]),
+      ).toStrictEqual([
+        [
+          { start: 1, end: 3 },
+          { start: 11, end: 13 },
+        ],
+        [
+          { start: 2, end: 4 },
+          { start: 12, end: 14 },
+        ],
+      ]);
+      expect(yield* intervals(c)).toStrictEqual([
+        { start: 1, end: 3 },
+        { start: 2, end: 4 },
+        { start: 5, end: 5 },
+      ]);
+    }));
+});
+
+describe("errors", () => {
+  test("declared failure", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const noteId = yield* c.run(async ({ db }) => {
+        const id = await db.insert("notes", { text: "Hello, world!" });
+        await db.delete(id);
+        return id;
+      });
+
+      const exit = yield* c
+        .query(api.functions.getOrFail, { noteId })
+        .pipe(Effect.exit);
+
+      expect(Exit.isFailure(exit)).toBe(true);
+      if (Exit.isFailure(exit)) {
+        const error = Cause.squash(exit.cause);
+
+        expect(error).toBeInstanceOf(ConvexError);
+        expect(JSON.parse((error as ConvexError<string>).data)).toEqual({
+          _tag: "NoteNotFoundError",
+          noteId,
+        });
+      }
+    }));
+
+  test("success", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const text = "Hello, world!";
+
+      const noteId = yield* c.run(({ db }) => db.insert("notes", { text }));
+
+      const note = yield* c.query(api.functions.getOrFail, { noteId });
+
+      expect(note).toMatchObject({ text });
+    }));
+
+  test("undeclared failure", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const exit = yield* c
+        .query(api.functions.failWithUndeclaredError, {})
+        .pipe(Effect.exit);
+
+      expect(Exit.isFailure(exit)).toBe(true);
+      if (Exit.isFailure(exit)) {
+        expect(Cause.squash(exit.cause)).not.toBeInstanceOf(ConvexError);
+      }
+    }));
+});
+
+describe("document decode errors", () => {
+  const tooLongText = String.repeat(101)("a");
+
+  test("fail", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      yield* c.run(({ db }) =>
+        Promise.all([
+          db.insert("notes", { text: "Hello, world!" }),
+          db.insert("notes", { text: tooLongText }),
+        ]),
+      );
+
+      const result = yield* c.query(api.functions.collectTextOnDecodeError, {
+        policy: "fail",
+      });
+
+      expect(result).toEqual("DocumentDecodeError");
+    }));
+
+  test("skip", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      yield* c.run(({ db }) =>
+        Promise.all([
+          db.insert("notes", { text: tooLongText }),
+          db.insert("notes", { text: "Hello, world!" }),
+        ]),
+      );
+
+      const texts = yield* c.query(api.functions.collectTextOnDecodeError, {
+        policy: "skip",
+      });
+      const firstText = yield* c.query(
+        api.functions.firstTextSkippingDecodeErrors,
+        {},
+      );
+
+      expect(texts).toEqual(["Hello, world!"]);
+      expect(firstText).toEqual({ _tag: "Some", value: "Hello, world!" });
+    }));
+
+  test("die", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      yield* c.run(({ db }) => db.insert("notes", { text: tooLongText }));
+
+      const exit = yield* c
+        .query(api.functions.collectTextOnDecodeError, { policy: "die" })
+        .pipe(Effect.exit);
+
+      expect(Exit.isFailure(exit)).toBe(true);
+    }));
+
+  test("get", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const noteId = yield* c.run(({ db }) =>
+        db.insert("notes", { text: tooLongText }),
+      );
+
+      const documentDecodeError = yield* c.query(
+        api.functions.getDocumentDecodeError,
+        { noteId },
+      );
+
+      expect(documentDecodeError).toEqual({
+        _tag: "Some",
+        value: { tableName: "notes", id: noteId },
+      });
+    }));
+});
+
+describe("authentication", () => {
+  test("when user is not authenticated", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const isAuthenticated = yield* c.query(api.functions.isAuthenticated, {});
+
+      expect(isAuthenticated).toEqual(false);
+    }));
+
+  test("when user is authenticated", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const asUser = c.withIdentity({
+        name: "Joe",
+      });
+
+      const isAuthenticated = yield* asUser.query(
+        api.functions.isAuthenticated,
+        {},
+      );
+
+      expect(isAuthenticated).toEqual(true);
+    }));
+});
+
+describe("actions", () => {
+  test("action with auth and run methods", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      const exit = yield* c
+        .action(api.functions.actionWithAuthAndRunMethods)
+        .pipe(Effect.exit);
+
+      expect(Exit.isSuccess(exit)).toBe(true);
+    }));
+
+  test("vector search", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      yield* c.run(({ db }) =>
+        Promise.all([
+          db.insert("notes", {
+            tag: "Art",
+            text: "convex",
+            embedding: [1, 1, 1],
+          }),
+          db.insert("notes", {
+            tag: "Sports",
+            text: "next",
+            embedding: [0, 0, 0],
+          }),
+          db.insert("notes", {
+            tag: "Art",
+            text: "base",
+            embedding: [1, 1, 0],
+          }),
+          db.insert("notes", {
+            tag: "Sports",
+            text: "rad",
+            embedding: [1, 1, 0],
+          }),
+        ]),
+      );
+
+      {
+        const notes = yield* c.action(api.functions.executeVectorSearch, {
+          vector: [1, 1, 1],
+          tag: null,
+          limit: 3,
+        });
+
+        expect(notes).toMatchObject([
+          { tag: "Art", text: "convex" },
+          { tag: "Art", text: "base" },
+          { tag: "Sports", text: "rad" },
+        ]);
+      }
+
+      {
+        const notes = yield* c.action(api.functions.executeVectorSearch, {
+          vector: [1, 1, 1],
+          tag: "Art",
+          limit: 10,
         });
 
         expect(notes).toMatchObject([
@@ -827,3 +2745,87 @@ describe("storage", () => {
       expect(storageDoc).toEqual(null);
     }));
 });
+
+describe("decoded index ranges", () => {
+  test("encodes each comparison value with its field's schema", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      yield* c.run(async ({ db }) => {
+        await db.insert("events", { name: "Launch", at: 1_000 });
+        await db.insert("events", { name: "Review", at: 2_000 });
+        await db.insert("events", { name: "Retro", at: 3_000 });
+      });
+
+      const events = yield* c.query(api.functions.listEventsBetween, {
+        from: 2_000,
+        to: 3_000,
+      });
+
+      expect(events.map(({ name, at }) => ({ name, at }))).toStrictEqual([
+        { name: "Review", at: 2_000 },
+      ]);
+    }));
+
+  test("getManyFrom and upsert encode the index values they are given", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      yield* c.run(({ db }) =>
+        db.insert("events", { name: "Launch", at: 1_000 }),
+      );
+
+      const upserted = yield* c.mutation(api.functions.upsertEventAt, {
+        name: "Relaunch",
+        at: 1_000,
+      });
+      const inserted = yield* c.mutation(api.functions.upsertEventAt, {
+        name: "Review",
+        at: 2_000,
+      });
+
+      expect(upserted).toStrictEqual({ created: false, names: ["Relaunch"] });
+      expect(inserted).toStrictEqual({ created: true, names: ["Review"] });
+    }));
+
+  test("fails the query with the ParseError of a value which doesn't encode", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      yield* c.run(({ db }) => db.insert("notes", { text: "Hello" }));
+
+      const result = yield* c.query(api.functions.withIndexFirstOrParseError, {
+        text: String.repeat(101)("a"),
+      });
+
+      expect(result).toEqual("ParseError");
+    }));
+
+  test("encodes fields which every member of a union has, and dies for the others", () =>
+    Effect.gen(function* () {
+      const c = yield* TestConvexService;
+
+      yield* c.run(async ({ db }) => {
+        await db.insert("attachments", { kind: "file", name: "notes.txt" });
+        await db.insert("attachments", {
+          kind: "link",
+          url: "https://example.com",
+        });
+      });
+
+      const files = yield* c.query(api.functions.listAttachmentsOfKind, {
+        kind: "file",
+      });
+      const exit = yield* c
+        .query(api.functions.listAttachmentsWithUrl, {
+          url: "https://example.com",
+        })
+        .pipe(Effect.exit);
+
+      expect(files).toMatchObject([{ kind: "file", name: "notes.txt" }]);
+      expect(Exit.isFailure(exit)).toBe(true);
+      if (Exit.isFailure(exit)) {
+        expect(Cause.squash(exit.cause)).not.toBeInstanceOf(ConvexError);
+      }
+    }));
+});
@@ -0,0 +1,46 @@
+import { ConvexError } from "convex/values";
+import { Cause, Effect, Exit, Schema } from "effect";
+import { describe, expect, test } from "vitest";
+
+import { decodeError } from "~/src/react/errors";
+
+class NoteNotFound extends Schema.TaggedError<NoteNotFound>()("NoteNotFound", {
+  noteId: Schema.String,
+}) {}
+
+const defectOf = (exit: Exit.Exit<never, unknown>) =>
+  Exit.isFailure(exit) && Cause.isDie(exit.cause)
+    ? Cause.squash(exit.cause)
+    : undefined;
+
+describe(decodeError, () => {
+  test("decodes a declared error into its class", () => {
+    const error = Effect.runSync(
+      decodeError(NoteNotFound)(
+        new ConvexError({ _tag: "NoteNotFound", noteId: "1" }),
+      ).pipe(Effect.flip),
+    );
+
+    expect(error).toBeInstanceOf(NoteNotFound);
+    expect(error).toMatchObject({ _tag: "NoteNotFound", noteId: "1" });
+  });
+
+  test("leaves any other error unchanged, as a defect", () => {
+    const undeclared = new ConvexError({ _tag: "AccessDenied" });
+    const malformed = new ConvexError("Note not found");
+    const unexpected = new Error("Network error");
+
+    expect(
+      defectOf(Effect.runSyncExit(decodeError(NoteNotFound)(undeclared))),
+    ).toBe(undeclared);
+    expect(
+      defectOf(Effect.runSyncExit(decodeError(NoteNotFound)(malformed))),
+    ).toBe(malformed);
+    expect(
+      defectOf(Effect.runSyncExit(decodeError(NoteNotFound)(unexpected))),
+    ).toBe(unexpected);
+    expect(
+      defectOf(Effect.runSyncExit(decodeError(undefined)(undeclared))),
+    ).toBe(undeclared);
+  });
+});
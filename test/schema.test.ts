@@ -1,6 +1,7 @@
 import type { SystemDataModel } from "convex/server";
-import { Schema } from "effect";
-import { describe, expectTypeOf, test } from "vitest";
+import { v } from "convex/values";
+import { Effect, Either, Exit, Option, Schema } from "effect";
+import { describe, expect, expectTypeOf, test } from "vitest";
 
 import type {
   DataModelFromConfectDataModel,
@@ -10,12 +11,16 @@ import {
   type ConfectDataModelFromConfectSchema,
   type ConfectSystemDataModel,
   type ConfectTableDefinition,
+  ReferenceIndexNotFoundError,
+  TenantIndexNotFoundError,
   type confectSystemSchema,
   confectSystemSchemaDefinition,
   type confectTableSchemas,
   defineSchema,
   defineTable,
+  tableVersion,
 } from "~/src/server/schema";
+import { Id } from "~/src/server/schemas/Id";
 import { extendWithSystemFields } from "~/src/server/schemas/SystemFields";
 
 describe("ConfectDataModelFromConfectSchema", () => {
@@ -97,6 +102,343 @@ describe("tableSchemas", () => {
   });
 });
 
+test("defineTable tracks the fields of each index", () => {
+  const tableDefinition = defineTable(
+    Schema.Struct({
+      content: Schema.String,
+      author: Schema.Struct({ name: Schema.String }),
+    }),
+  )
+    .index("by_content", ["content"])
+    .index("by_author_and_content", ["author.name", "content"]);
+
+  expect(tableDefinition.indexFields).toEqual({
+    by_content: ["content"],
+    by_author_and_content: ["author.name", "content"],
+  });
+});
+
+test("defineTable unique constraints are backed by an index", () => {
+  const tableDefinition = defineTable(
+    Schema.Struct({ email: Schema.String }),
+  ).unique("by_email", ["email"]);
+
+  expect(tableDefinition.uniqueConstraints).toEqual(["by_email"]);
+  expect(tableDefinition.indexFields).toEqual({ by_email: ["email"] });
+});
+
+describe("references", () => {
+  test("groups referential actions by the table they refer to", () => {
+    const confectSchemaDefinition = defineSchema({
+      notes: defineTable(
+        Schema.Struct({
+          text: Schema.String,
+          authorId: Schema.optional(Id("users")),
+        }),
+        { onDelete: { authorId: "unset" } },
+      ).index("by_author_and_text", ["authorId", "text"]),
+      users: defineTable(Schema.Struct({ username: Schema.String })),
+    });
+
+    expect(confectSchemaDefinition.references).toEqual({
+      users: [
+        {
+          tableName: "notes",
+          fieldName: "authorId",
+          indexName: "by_author_and_text",
+          onDelete: "unset",
+        },
+      ],
+    });
+  });
+
+  test("needs an index on the referring field", () => {
+    expect(() =>
+      defineSchema({
+        notes: defineTable(Schema.Struct({ authorId: Id("users") }), {
+          onDelete: { authorId: "cascade" },
+        }),
+        users: defineTable(Schema.Struct({ username: Schema.String })),
+      }),
+    ).toThrow(ReferenceIndexNotFoundError);
+  });
+
+  test("only unsets optional fields", () => {
+    defineTable(Schema.Struct({ authorId: Id("users") }), {
+      // @ts-expect-error
+      onDelete: { authorId: "unset" },
+    });
+  });
+});
+
+describe("tenantField", () => {
+  test("finds the indexes whose first field is the tenant field", () => {
+    const confectSchemaDefinition = defineSchema({
+      invoices: defineTable(
+        Schema.Struct({
+          orgId: Schema.String,
+          number: Schema.Number,
+          memo: Schema.String,
+        }),
+        { tenantField: "orgId" },
+      )
+        .index("by_number", ["number"])
+        .index("by_orgId_and_number", ["orgId", "number"])
+        .index("by_orgId_and_memo", ["orgId", "memo"])
+        .searchIndex("memo", { searchField: "memo", filterFields: ["orgId"] })
+        .searchIndex("memo_in_any_org", { searchField: "memo" }),
+      orgs: defineTable(Schema.Struct({ name: Schema.String })),
+    });
+
+    expect(confectSchemaDefinition.tenants).toEqual({
+      invoices: {
+        fieldName: "orgId",
+        indexName: "by_orgId_and_number",
+        indexNames: ["by_orgId_and_number", "by_orgId_and_memo"],
+        searchIndexNames: ["memo"],
+      },
+    });
+  });
+
+  test("needs an index on the tenant field", () => {
+    expect(() =>
+      defineSchema({
+        invoices: defineTable(
+          Schema.Struct({ orgId: Schema.String, number: Schema.Number }),
+          { tenantField: "orgId" },
+        ),
+      }),
+    ).toThrow(TenantIndexNotFoundError);
+  });
+
+  test("only holds a tenant in a required string field", () => {
+    defineTable(Schema.Struct({ number: Schema.Number }), {
+      // @ts-expect-error
+      tenantField: "number",
+    });
+  });
+});
+
+describe("history", () => {
+  test("adds a history table for the tables with history", () => {
+    const confectSchemaDefinition = defineSchema(
+      {
+        notes: defineTable(Schema.Struct({ text: Schema.String })),
+        users: defineTable(Schema.Struct({ username: Schema.String })),
+      },
+      { history: ["notes"] },
+    );
+
+    expect(Object.keys(confectSchemaDefinition.confectSchema).sort()).toEqual([
+      "confectHistory",
+      "notes",
+      "users",
+    ]);
+    expect(confectSchemaDefinition.historyTableNames).toEqual(["notes"]);
+  });
+
+  test("only records tables in the schema", () => {
+    defineSchema(
+      { notes: defineTable(Schema.Struct({ text: Schema.String })) },
+      // @ts-expect-error
+      { history: ["users"] },
+    );
+  });
+});
+
+describe("migrations", () => {
+  test("adds a table recording the progress of migrations", () => {
+    const confectSchemaDefinition = defineSchema(
+      { notes: defineTable(Schema.Struct({ text: Schema.String })) },
+      { migrations: true },
+    );
+
+    expect(Object.keys(confectSchemaDefinition.confectSchema).sort()).toEqual([
+      "confectMigrations",
+      "notes",
+    ]);
+    expect(
+      confectSchemaDefinition.confectSchema.confectMigrations.indexFields,
+    ).toStrictEqual({
+      by_tableName_and_version: ["tableName", "version"],
+    });
+  });
+});
+
+describe("softDelete", () => {
+  test("adds an optional deletedAt field and keeps the indexes", () => {
+    const tableDefinition = defineTable(Schema.Struct({ text: Schema.String }))
+      .index("by_text", ["text"])
+      .softDelete();
+
+    expect(tableDefinition.softDeletes).toBe(true);
+    expect(tableDefinition.tableDefinition.validator).toStrictEqual(
+      v.object({ text: v.string(), deletedAt: v.optional(v.number()) }),
+    );
+    expect(tableDefinition.indexFields).toStrictEqual({ by_text: ["text"] });
+    expect(
+      Schema.decodeUnknownSync(tableDefinition.tableSchema)({
+        text: "Hello",
+        deletedAt: 1,
+      }),
+    ).toStrictEqual({ text: "Hello", deletedAt: 1 });
+
+    type ConfectDataModel = ConfectDataModelFromConfectSchema<{
+      notes: typeof tableDefinition;
+    }>;
+
+    expectTypeOf<
+      ConfectDataModel["notes"]["confectDocument"]["deletedAt"]
+    >().toEqualTypeOf<number | undefined>();
+    expectTypeOf<
+      ConfectDataModel["notes"]["convexDocument"]["deletedAt"]
+    >().toEqualTypeOf<number | undefined>();
+  });
+});
+
+describe("versions", () => {
+  const confectSchemaDefinition = defineSchema({
+    notes: defineTable(Schema.Struct({ text: Schema.NonEmptyString }), {
+      versions: [
+        tableVersion(Schema.Struct({ body: Schema.String }), ({ body }) => ({
+          text: body,
+        })),
+        tableVersion(Schema.Struct({ text: Schema.Number }), ({ text }) => ({
+          text: text === 0 ? "" : `${text}`,
+        })),
+      ],
+    }).softDelete(),
+  });
+  const { decodeDocument, oldVersion, encodePatch } =
+    confectSchemaDefinition.tableCodecs.notes;
+  const systemFields = { _id: "1;notes", _creationTime: 0 };
+
+  test("accepts every version in the table validator", () => {
+    expect(
+      confectSchemaDefinition.confectSchema.notes.tableDefinition.validator,
+    ).toStrictEqual(
+      v.union(
+        v.object({ text: v.string(), deletedAt: v.optional(v.number()) }),
+        v.object({ body: v.string(), deletedAt: v.optional(v.number()) }),
+        v.object({ text: v.number(), deletedAt: v.optional(v.number()) }),
+      ),
+    );
+  });
+
+  test("upcasts documents through each later version", () => {
+    expect(
+      decodeDocument({ ...systemFields, body: "Hello", deletedAt: 1 }),
+    ).toEqual(Either.right({ ...systemFields, text: "Hello", deletedAt: 1 }));
+    expect(decodeDocument({ ...systemFields, text: 1 })).toEqual(
+      Either.right({ ...systemFields, text: "1" }),
+    );
+    expect(oldVersion({ ...systemFields, body: "Hello" })).toEqual(
+      Option.some(0),
+    );
+    expect(oldVersion({ ...systemFields, text: "Hello" })).toEqual(
+      Option.none(),
+    );
+    expect(Option.isNone(encodePatch)).toBe(true);
+  });
+
+  test("fails when the upcast document doesn't match the table schema", () => {
+    expect(Either.isLeft(decodeDocument({ ...systemFields, text: 0 }))).toBe(
+      true,
+    );
+  });
+
+  test("the newest version upcasts to the table schema's type", () => {
+    defineTable(Schema.Struct({ text: Schema.String }), {
+      // @ts-expect-error
+      versions: [
+        tableVersion(Schema.Struct({ body: Schema.String }), ({ body }) => ({
+          body,
+        })),
+        tableVersion(Schema.Struct({ body: Schema.String }), ({ body }) => ({
+          body,
+        })),
+      ],
+    });
+  });
+});
+
+describe("tableCodecs", () => {
+  const NoteSchema = Schema.Struct({
+    content: Schema.String,
+  });
+
+  const confectSchemaDefinition = defineSchema({
+    notes: defineTable(NoteSchema),
+  });
+
+  test("compiles a codec for every table, including system tables", () => {
+    expect(Object.keys(confectSchemaDefinition.tableCodecs).sort()).toEqual([
+      "_scheduled_functions",
+      "_storage",
+      "notes",
+    ]);
+  });
+
+  test("shares system table codecs between schema definitions", () => {
+    expect(confectSchemaDefinition.tableCodecs._storage).toBe(
+      confectSystemSchemaDefinition.tableCodecs._storage,
+    );
+    expect(confectSchemaDefinition.tableCodecs._scheduled_functions).toBe(
+      confectSystemSchemaDefinition.tableCodecs._scheduled_functions,
+    );
+  });
+
+  test("decodes documents with system fields and rejects excess properties", () => {
+    const { decodeDocument } = confectSchemaDefinition.tableCodecs.notes;
+    const document = { _id: "1;notes", _creationTime: 0, content: "Hello" };
+
+    expect(decodeDocument(document)).toEqual(Either.right(document));
+    expect(Either.isLeft(decodeDocument({ ...document, extra: true }))).toBe(
+      true,
+    );
+  });
+
+  describe("encodePatch", () => {
+    const encodePatch = (tableSchema: Schema.Schema.AnyNoContext) =>
+      defineSchema({ table: defineTable(tableSchema) }).tableCodecs.table
+        .encodePatch;
+
+    test("encodes each field of a struct on its own", () => {
+      const NumberFromStringSchema = Schema.Struct({
+        required: Schema.NumberFromString,
+        optional: Schema.optional(Schema.NumberFromString),
+      });
+
+      const encode = Option.getOrThrow(encodePatch(NumberFromStringSchema));
+
+      expect(Effect.runSync(encode({ optional: 1 }))).toEqual({
+        optional: "1",
+      });
+      expect(Effect.runSync(encode({ optional: undefined }))).toEqual({
+        optional: undefined,
+      });
+      expect(
+        Exit.isFailure(Effect.runSyncExit(encode({ required: undefined }))),
+      ).toBe(true);
+    });
+
+    test("is none for unions and refined structs", () => {
+      const NoteSchema = Schema.Struct({ text: Schema.String });
+
+      expect(
+        Option.isNone(
+          encodePatch(
+            Schema.Union(NoteSchema, Schema.Struct({ url: Schema.String })),
+          ),
+        ),
+      ).toBe(true);
+      expect(
+        Option.isNone(encodePatch(NoteSchema.pipe(Schema.filter(() => true)))),
+      ).toBe(true);
+    });
+  });
+});
+
 describe("confectTableSchemas", () => {
   test("matches confectSystemSchema", () => {
     type ConfectTableSchemas = typeof confectTableSchemas;
@@ -0,0 +1,66 @@
+import { Either, Schema } from "effect";
+import { describe, expect, test } from "vitest";
+import {
+  ArgsValidationError,
+  fieldErrors,
+  fromParseError,
+} from "~/src/server/schemas/ArgsValidationError";
+
+const Args = Schema.Struct({
+  title: Schema.String.pipe(Schema.minLength(1)),
+  author: Schema.Struct({
+    name: Schema.String.pipe(Schema.minLength(1)),
+  }),
+  tags: Schema.Array(Schema.String.pipe(Schema.maxLength(3))),
+});
+
+describe(fromParseError, () => {
+  test("collects every issue with its path", () => {
+    const parseError = Schema.decodeUnknownEither(Args, { errors: "all" })({
+      title: "",
+      author: { name: "" },
+      tags: ["ok", "too long"],
+    }).pipe(Either.flip, Either.getOrThrow);
+
+    const argsValidationError = fromParseError(parseError);
+
+    expect(argsValidationError).toBeInstanceOf(ArgsValidationError);
+    expect(
+      argsValidationError.issues.map(({ _tag, path }) => ({ _tag, path })),
+    ).toEqual([
+      { _tag: "Refinement", path: ["title"] },
+      { _tag: "Refinement", path: ["author", "name"] },
+      { _tag: "Refinement", path: ["tags", 1] },
+    ]);
+  });
+});
+
+describe(fieldErrors, () => {
+  test("keeps the first message for each field", () => {
+    const argsValidationError = new ArgsValidationError({
+      issues: [
+        { _tag: "Type", path: ["author", "name"], message: "first" },
+        { _tag: "Type", path: ["author", "name"], message: "second" },
+        { _tag: "Missing", path: ["tags", 0], message: "missing" },
+      ],
+    });
+
+    expect(fieldErrors(argsValidationError)).toEqual({
+      "author.name": "first",
+      "tags.0": "missing",
+    });
+  });
+
+  test("round-trips through its encoded form", () => {
+    const argsValidationError = new ArgsValidationError({
+      issues: [{ _tag: "Type", path: ["title"], message: "too short" }],
+    });
+
+    const encoded = Schema.encodeSync(ArgsValidationError)(argsValidationError);
+    const decoded = Schema.decodeUnknownSync(ArgsValidationError)(
+      JSON.parse(JSON.stringify(encoded)),
+    );
+
+    expect(fieldErrors(decoded)).toEqual({ title: "too short" });
+  });
+});